@@ -10,6 +10,7 @@ module.exports = {
       tsconfig: {
         "allowJs": true,
         "esModuleInterop": true,
+        "resolveJsonModule": true,
       }
     }]
   },
@@ -20,6 +21,7 @@ module.exports = {
     '^@stalmer1/backend-generator/(.*)$': '<rootDir>/packages/backend-generator/src/$1',
     '^@stalmer1/frontend-generator$': '<rootDir>/packages/frontend-generator/src',
     '^@stalmer1/frontend-generator/(.*)$': '<rootDir>/packages/frontend-generator/src/$1',
-    '^@stalmer1/cli$': '<rootDir>/packages/cli/src'
+    '^@stalmer1/cli$': '<rootDir>/packages/cli/src',
+    '^@stalmer1/language-server$': '<rootDir>/packages/language-server/src'
   }
 };
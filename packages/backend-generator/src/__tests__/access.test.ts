@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { createMemoryFileSystem, parseDSL } from '@stalmer1/core';
+import { generateBackend } from '..';
+import { buildAccessRules, generateAccess } from '../access';
+
+class ForbiddenException extends Error {}
+
+/**
+ * Compiles the generated access.ts and loads it with a stand-in for @nestjs/common
+ */
+function loadAccess(outDir: string) {
+  const source = fs.readFileSync(path.join(outDir, 'src/common/access.ts'), 'utf-8');
+  const { outputText } = ts.transpileModule(source, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019 } });
+  const exports: Record<string, any> = {};
+  new Function('require', 'exports', outputText)(() => ({ ForbiddenException }), exports);
+  return exports;
+}
+
+describe('Access rules', () => {
+  const app = parseDSL(`
+    enum Role { ADMIN, EDITOR, VIEWER }
+
+    config auth {
+      provider: jwt
+      userEntity: User
+      roles: Role
+    }
+
+    entity User {
+      email: String unique
+      password: Password
+      role: Role default(VIEWER)
+      access { update: [ADMIN, owner] }
+    }
+
+    entity Post {
+      title: String
+      author: User
+      access {
+        read: [VIEWER, EDITOR, owner]
+        update: [EDITOR, owner]
+        delete: ADMIN
+      }
+    }
+
+    entity Tag {
+      name: String
+    }
+
+    entity Report {
+      title: String
+    }
+
+    entity Note {
+      text: String
+    }
+
+    page Reports {
+      type: details
+      entity: Report
+      permissions: [ADMIN]
+    }
+
+    page Tags {
+      type: table
+      entity: Tag
+      permissions: [VIEWER]
+    }
+
+    page TagForm {
+      type: form
+      entity: Tag
+      permissions: [EDITOR]
+    }
+  `);
+  const entity = (name: string) => app.entities.find(e => e.name === name)!;
+
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'access-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should build rules from the access section', () => {
+    expect(buildAccessRules(app, entity('Post'))).toEqual({
+      read: { roles: ['VIEWER', 'EDITOR'], ownerKey: 'authorId' },
+      update: { roles: ['EDITOR'], ownerKey: 'authorId' },
+      delete: { roles: ['ADMIN'] },
+    });
+    expect(buildAccessRules(app, entity('User'))).toEqual({ update: { roles: ['ADMIN'], ownerKey: 'id' } });
+  });
+
+  it('should build rules from page permissions without an access section', () => {
+    expect(buildAccessRules(app, entity('Tag'))).toEqual({
+      read: { roles: ['VIEWER'] },
+      create: { roles: ['EDITOR'] },
+      update: { roles: ['EDITOR'] },
+      delete: { roles: ['EDITOR'] },
+    });
+    expect(buildAccessRules(app, entity('Report'))).toEqual({
+      read: { roles: ['ADMIN'] },
+      create: { roles: ['ADMIN'] },
+      update: { roles: ['ADMIN'] },
+      delete: { roles: [] },
+    });
+    expect(buildAccessRules(app, entity('Note'))).toEqual({});
+  });
+
+  it('should allow roles everywhere and owners on their own records', () => {
+    generateAccess(tmpDir);
+    const { accessScope } = loadAccess(tmpDir);
+    const rule = { roles: ['EDITOR'], ownerKey: 'authorId' };
+
+    expect(accessScope(undefined, undefined)).toEqual({});
+    expect(accessScope(rule, { id: 'u1', role: 'EDITOR' })).toEqual({});
+    expect(accessScope(rule, { sub: 'u2', permissions: ['VIEWER'] })).toEqual({ authorId: 'u2' });
+    expect(() => accessScope({ roles: ['ADMIN'] }, { id: 'u1', role: 'EDITOR' })).toThrow(ForbiddenException);
+    expect(() => accessScope(rule, undefined)).toThrow(ForbiddenException);
+  });
+
+  it('should forbid deleting to roles that may only see the records', async () => {
+    await generateBackend(app, tmpDir);
+    const access = loadAccess(tmpDir);
+    const source = fs.readFileSync(path.join(tmpDir, 'src/tag/tag.controller.ts'), 'utf-8');
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, experimentalDecorators: true },
+    });
+    const exports: Record<string, any> = {};
+    const decorator = () => () => undefined;
+    const nest = new Proxy({}, { get: () => decorator });
+    const modules: Record<string, unknown> = { '@nestjs/common': nest, '@nestjs/passport': { AuthGuard: decorator }, '../common/access': access };
+    new Function('require', 'exports', outputText)((name: string) => modules[name] ?? {}, exports);
+
+    const removed: string[] = [];
+    const controller = new exports.TagController({ remove: async (id: string) => removed.push(id) });
+    expect(() => controller.remove('t1', { user: { id: 'u1', role: 'VIEWER' } })).toThrow(ForbiddenException);
+    await controller.remove('t1', { user: { id: 'u2', role: 'EDITOR' } });
+    expect(removed).toEqual(['t1']);
+  });
+
+  it('should check the rules in controllers and scope service queries', async () => {
+    const vfs = createMemoryFileSystem();
+    await generateBackend(app, tmpDir, false, { vfs });
+    const files = vfs.readDirectory(tmpDir);
+
+    const controller = files.get('src/post/post.controller.ts') as string;
+    expect(controller).toContain('const ACCESS: AccessRules = {"read":{"roles":["VIEWER","EDITOR"],"ownerKey":"authorId"}');
+    expect(controller).toContain('this.postService.update(id, updatePostDto, accessScope(ACCESS.update, req.user))');
+
+    const service = files.get('src/post/post.service.ts') as string;
+    expect(service).toContain('const scoped = { AND: [where, scope] };');
+    expect(service).toContain('findFirst({ where: { AND: [scope, { id }] } })');
+    expect(service).toContain('create({ data: { ...data, ...scope } })');
+    expect(service).toContain('await this._checkScope(id, scope);');
+  });
+});
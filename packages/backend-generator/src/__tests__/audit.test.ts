@@ -0,0 +1,119 @@
+import * as ts from 'typescript';
+import { createMemoryFileSystem, parseDSL } from '@stalmer1/core';
+import { generateBackend } from '..';
+import { generatePrismaSchema } from '../prisma';
+
+class NotFoundException extends Error {}
+
+type Row = Record<string, any>;
+
+/**
+ * Compiles a generated file and loads it with stand-ins for its dependencies
+ */
+function load(source: string, modules: Record<string, unknown>) {
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, experimentalDecorators: true },
+  });
+  const exports: Record<string, any> = {};
+  new Function('require', 'exports', outputText)((name: string) => modules[name] ?? {}, exports);
+  return exports;
+}
+
+/**
+ * An in-memory stand-in for the Prisma delegates the generated service uses
+ */
+function fakeTable(rows: Row[]) {
+  let nextId = 1;
+  const find = (where: Row) => rows.find(row => Object.entries(where).every(([key, value]) => row[key] === value));
+  return {
+    rows,
+    findUnique: async ({ where }: Row) => (find(where) ? { ...find(where) } : null),
+    findMany: async ({ where }: Row) => rows.filter(row => Object.entries(where).every(([key, value]) => row[key] === value)).reverse(),
+    create: async ({ data }: Row) => {
+      const row = { id: `r${nextId++}`, ...data };
+      rows.push(row);
+      return { ...row };
+    },
+    update: async ({ where, data }: Row) => ({ ...Object.assign(find(where) as Row, data) }),
+    delete: async ({ where }: Row) => rows.splice(rows.indexOf(find(where) as Row), 1)[0],
+  };
+}
+
+describe('Audit log', () => {
+  const app = parseDSL(`
+    entity Account {
+      email: String unique
+      password: Password
+      plan: String
+
+      @@audited
+    }
+
+    entity Tag {
+      name: String
+    }
+  `);
+
+  it('should add the audit log model when an entity is audited', () => {
+    const schema = generatePrismaSchema(app, 'postgresql');
+
+    expect(schema).toContain('model AuditLog {\n  id String @id @default(uuid())\n  entity String\n  entityId String\n');
+    expect(schema).toContain('  @@index([entity, entityId])\n');
+    expect(generatePrismaSchema(parseDSL('entity Tag {\n  name: String\n}\n'))).not.toContain('AuditLog');
+  });
+
+  it('should log changes with the user who made them and serve the history read-only', async () => {
+    const vfs = createMemoryFileSystem();
+    await generateBackend(app, '/out', false, { vfs });
+    const files = vfs.readDirectory('/out');
+
+    expect(files.get('src/account/account.controller.ts')).toContain(
+      'return this.accountService.update(id, updateAccountDto, accessScope(ACCESS.update, req.user), req.user);'
+    );
+    expect(files.get('src/account/account.controller.ts')).toContain("@Get(':id/history')");
+    expect(files.get('src/tag/tag.controller.ts')).not.toContain('history');
+    expect(files.get('src/tag/tag.service.ts')).not.toContain('writeAudit');
+  });
+
+  describe('generated service', () => {
+    let service: any;
+    let prisma: Record<string, any>;
+
+    beforeEach(async () => {
+      const vfs = createMemoryFileSystem();
+      await generateBackend(app, '/out', false, { vfs });
+      const audit = load(vfs.readFile('/out/src/common/audit.ts'), {});
+      const { AccountService } = load(vfs.readFile('/out/src/account/account.service.ts'), {
+        '@nestjs/common': { Injectable: () => () => undefined, NotFoundException },
+        bcrypt: { hash: async (value: string) => `hashed:${value}` },
+        '../common/list-query': { parseListQuery: () => ({}) },
+        '../common/audit': audit,
+      });
+
+      prisma = { account: fakeTable([]), auditLog: fakeTable([]) };
+      service = new AccountService(prisma);
+    });
+
+    it('should write a diff of each change with passwords redacted', async () => {
+      const actor = { id: 'u1' };
+      const account = await service.create({ email: 'a@b.c', password: 'pw', plan: 'free' }, {}, actor);
+      await service.update(account.id, { plan: 'pro', password: 'new' }, {}, actor);
+      await service.update(account.id, { plan: 'pro' }, {}, actor);
+      await service.remove(account.id, {});
+
+      const history = await service.history(account.id);
+      expect(history.map((entry: Row) => [entry.action, entry.actorId])).toEqual([['delete', null], ['update', 'u1'], ['create', 'u1']]);
+      expect(history[2].changes).toEqual({
+        id: { before: null, after: account.id },
+        email: { before: null, after: 'a@b.c' },
+        password: { before: null, after: '[redacted]' },
+        plan: { before: null, after: 'free' },
+      });
+      expect(history[1].changes).toEqual({
+        password: { before: '[redacted]', after: '[redacted]' },
+        plan: { before: 'free', after: 'pro' },
+      });
+      expect(JSON.stringify(prisma.auditLog.rows)).not.toContain('hashed:');
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import * as crypto from 'crypto';
+import * as ts from 'typescript';
+import { createMemoryFileSystem, parseDSL } from '@stalmer1/core';
+import { generateBackend } from '..';
+import { buildJwtAuth } from '../auth';
+import { generatePrismaSchema } from '../prisma';
+
+class ConflictException extends Error {}
+class UnauthorizedException extends Error {}
+
+type Row = Record<string, any>;
+
+/**
+ * An in-memory stand-in for the Prisma delegates the auth service uses
+ */
+function fakeTable(rows: Row[], include?: (row: Row) => Row) {
+  let nextId = 1;
+  const matches = (row: Row, where: Row) => Object.entries(where).every(([key, value]) => (row[key] ?? null) === value);
+  return {
+    rows,
+    findUnique: async ({ where, include: withRelations }: Row) => {
+      const row = rows.find(r => matches(r, where));
+      return row && withRelations && include ? { ...row, ...include(row) } : row ?? null;
+    },
+    create: async ({ data }: Row) => {
+      const row = { id: `r${nextId++}`, ...data };
+      rows.push(row);
+      return row;
+    },
+    update: async ({ where, data }: Row) => Object.assign(rows.find(r => matches(r, where)) as Row, data),
+    updateMany: async ({ where, data }: Row) => {
+      const updated = rows.filter(r => matches(r, where));
+      updated.forEach(row => Object.assign(row, data));
+      return { count: updated.length };
+    },
+  };
+}
+
+/**
+ * Compiles the generated auth.service.ts and loads it with stand-ins for its dependencies
+ */
+function loadAuthService(source: string) {
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, experimentalDecorators: true },
+  });
+  const modules: Record<string, unknown> = {
+    '@nestjs/common': { Injectable: () => () => undefined, ConflictException, UnauthorizedException },
+    bcrypt: { hash: async (value: string) => `hashed:${value}`, compare: async (value: string, hash: string) => hash === `hashed:${value}` },
+    crypto,
+  };
+  const exports: Record<string, any> = {};
+  new Function('require', 'exports', outputText)((name: string) => modules[name], exports);
+  return exports;
+}
+
+describe('JWT auth', () => {
+  const app = parseDSL(`
+    enum Role { ADMIN, MEMBER }
+
+    config auth {
+      provider: jwt
+      userEntity: Account
+      roles: Role
+      props: {
+        identityField: username
+        accessTokenTtl: "5m"
+        refreshTokenTtl: "7d"
+      }
+    }
+
+    entity Account {
+      id: Int primaryKey
+      email: String unique
+      username: String unique
+      secret: Password
+      role: Role default(MEMBER)
+    }
+  `);
+
+  it('should pick the user model and its fields from the auth config', () => {
+    expect(buildJwtAuth(app)).toEqual({
+      entity: 'Account',
+      primaryKey: 'id',
+      numericKey: true,
+      identityField: 'username',
+      passwordField: 'secret',
+      roleField: 'role',
+      roles: ['ADMIN', 'MEMBER'],
+      accessTokenTtl: 300,
+      refreshTokenTtl: 604800,
+      resetTokenTtl: 3600,
+    });
+  });
+
+  it('should store refresh and password reset tokens next to the user model', () => {
+    const schema = generatePrismaSchema(app, 'postgresql');
+
+    expect(schema).toContain('  refreshTokens RefreshToken[] @relation("AccountRefreshTokens")\n');
+    expect(schema).toContain('model RefreshToken {\n  id String @id @default(uuid())\n  tokenHash String @unique\n');
+    expect(schema).toContain('  userId Int\n  user Account @relation("AccountPasswordResetTokens", fields: [userId], references: [id], onDelete: Cascade)\n');
+  });
+
+  it('should generate the auth module and routes', async () => {
+    const vfs = createMemoryFileSystem();
+    await generateBackend(app, '/out', false, { vfs });
+    const files = vfs.readDirectory('/out');
+
+    expect([...files.keys()].filter(file => file.startsWith('src/auth/')).sort()).toEqual([
+      'src/auth/auth.controller.ts',
+      'src/auth/auth.dto.ts',
+      'src/auth/auth.module.ts',
+      'src/auth/auth.service.ts',
+      'src/auth/jwt.strategy.ts',
+    ]);
+    expect(files.get('src/auth/auth.controller.ts')).toContain('return this.authService.login(body.username, body.password);');
+    expect(files.get('src/auth/jwt.strategy.ts')).toContain('export class JwtStrategy extends PassportStrategy(Strategy)');
+    expect(files.get('src/auth/auth.module.ts')).toContain('signOptions: { expiresIn: ACCESS_TOKEN_TTL }');
+    expect(files.get('src/account/account.controller.ts')).not.toContain('AuthController');
+    expect(JSON.parse(files.get('package.json') as string).dependencies).toHaveProperty('bcrypt');
+  });
+
+  it('should email reset tokens through the email integration, and not drop them silently without one', async () => {
+    const source = async (integrations: string) => {
+      const vfs = createMemoryFileSystem();
+      await generateBackend(parseDSL(`${integrations}\nconfig auth {\n  provider: jwt\n  userEntity: User\n}\nentity User {\n  email: String unique\n  password: Password\n}\n`), '/out', false, { vfs });
+      return vfs.readFile('/out/src/auth/auth.service.ts');
+    };
+    const user = { id: 'u1', email: 'ada@example.com' };
+
+    const { AuthService: EmailingService } = loadAuthService(
+      await source('config integrations {\n  email: {\n    provider: sendgrid\n    apiKey: env(SENDGRID_API_KEY)\n  }\n}')
+    );
+    const fetch = jest.spyOn(global, 'fetch').mockResolvedValue({ ok: true, status: 202 } as Response);
+    try {
+      await new EmailingService({}, {}).sendPasswordReset(user, 'tok3n');
+      const [url, request] = fetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe('https://api.sendgrid.com/v3/mail/send');
+      expect(JSON.parse(request.body as string).personalizations).toEqual([{ to: [{ email: 'ada@example.com' }] }]);
+      expect(request.body).toContain('tok3n');
+    } finally {
+      fetch.mockRestore();
+    }
+
+    const { AuthService: LoggingService } = loadAuthService(await source(''));
+    const environment = process.env.NODE_ENV;
+    process.env.NODE_ENV = 'production';
+    try {
+      await expect(new LoggingService({}, {}).sendPasswordReset(user, 'tok3n')).rejects.toThrow('Password reset tokens cannot be delivered');
+    } finally {
+      process.env.NODE_ENV = environment;
+    }
+  });
+
+  describe('generated service', () => {
+    let service: any;
+    let prisma: Record<string, any>;
+    let jwtService: { sign: jest.Mock };
+
+    beforeEach(async () => {
+      const vfs = createMemoryFileSystem();
+      await generateBackend(app, '/out', false, { vfs });
+      const { AuthService } = loadAuthService(vfs.readFile('/out/src/auth/auth.service.ts'));
+
+      const accounts: Row[] = [];
+      prisma = {
+        account: fakeTable(accounts),
+        refreshToken: fakeTable([], row => ({ user: accounts.find(account => account.id === row.userId) })),
+        passwordResetToken: fakeTable([]),
+        $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
+      };
+      jwtService = { sign: jest.fn(() => 'access-token') };
+      service = new AuthService(prisma, jwtService);
+    });
+
+    it('should register users with a hashed password and the default role', async () => {
+      const tokens = await service.register({ email: 'a@b.c', username: 'ada', secret: 'pw', role: 'ADMIN' });
+
+      expect(prisma.account.rows[0]).toMatchObject({ username: 'ada', secret: 'hashed:pw' });
+      expect(prisma.account.rows[0]).not.toHaveProperty('role');
+      expect(tokens.user).not.toHaveProperty('secret');
+      expect(tokens.expiresIn).toBe(300);
+      await expect(service.register({ email: 'b@b.c', username: 'ada', secret: 'pw' })).rejects.toThrow(ConflictException);
+    });
+
+    it('should sign in with the identity field and put the role in the access token', async () => {
+      prisma.account.rows.push({ id: 7, username: 'ada', secret: 'hashed:pw', role: 'ADMIN' });
+
+      await service.login('ada', 'pw');
+
+      expect(jwtService.sign).toHaveBeenCalledWith({ sub: '7', role: 'ADMIN' });
+      await expect(service.login('ada', 'wrong')).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should rotate refresh tokens and end every session when a used one comes back', async () => {
+      prisma.account.rows.push({ id: 7, username: 'ada', secret: 'hashed:pw' });
+      const first = await service.login('ada', 'pw');
+      const other = await service.login('ada', 'pw');
+
+      const second = await service.refresh(first.refreshToken);
+      expect(second.refreshToken).not.toBe(first.refreshToken);
+      expect(prisma.refreshToken.rows[0]).toMatchObject({ replacedById: prisma.refreshToken.rows[2].id });
+      expect(prisma.refreshToken.rows[0].tokenHash).not.toBe(first.refreshToken);
+
+      await expect(service.refresh(first.refreshToken)).rejects.toThrow(UnauthorizedException);
+      await expect(service.refresh(second.refreshToken)).rejects.toThrow(UnauthorizedException);
+      await expect(service.refresh(other.refreshToken)).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should revoke the refresh token on logout', async () => {
+      prisma.account.rows.push({ id: 7, username: 'ada', secret: 'hashed:pw' });
+      const tokens = await service.login('ada', 'pw');
+
+      await service.logout(tokens.refreshToken);
+
+      await expect(service.refresh(tokens.refreshToken)).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reset passwords with a single-use token', async () => {
+      prisma.account.rows.push({ id: 7, username: 'ada', secret: 'hashed:pw' });
+      const session = await service.login('ada', 'pw');
+      const sendPasswordReset = jest.spyOn(service, 'sendPasswordReset').mockResolvedValue(undefined);
+
+      await service.requestPasswordReset('ada');
+      await service.requestPasswordReset('nobody');
+      const token = sendPasswordReset.mock.calls[0][1];
+      await service.resetPassword(token, 'new');
+
+      expect(sendPasswordReset).toHaveBeenCalledTimes(1);
+      expect(prisma.account.rows[0].secret).toBe('hashed:new');
+      await expect(service.resetPassword(token, 'again')).rejects.toThrow(UnauthorizedException);
+      await expect(service.refresh(session.refreshToken)).rejects.toThrow(UnauthorizedException);
+    });
+  });
+});
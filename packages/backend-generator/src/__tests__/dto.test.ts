@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseDSL } from '@stalmer1/core';
+import { buildDtoProperties, generateDtos } from '../dto';
+
+describe('DTO generation', () => {
+  const app = parseDSL(`
+    enum UserRole {
+      ADMIN
+      VIEWER
+    }
+
+    entity User {
+      email: String unique validate(pattern: "^[^@]+@[^@]+$")
+      name: String validate(min: 2, max: 50)
+      age: Int optional validate(min: 0)
+      role: UserRole default(VIEWER)
+      createdAt: DateTime readonly
+      score: Float @virtual(from: "score.ts#score")
+    }
+
+    entity Post {
+      title: String
+      author: User
+    }
+  `);
+  const user = app.entities[0];
+  const post = app.entities[1];
+
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dto-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should build decorators from field metadata', () => {
+    const properties = buildDtoProperties(app, user, 'create');
+
+    expect(properties.map(p => p.name)).toEqual(['email', 'name', 'age', 'role', 'createdAt']);
+    expect(properties.find(p => p.name === 'email')?.decorators).toEqual(['@IsString()', '@Matches(/^[^@]+@[^@]+$/)']);
+    expect(properties.find(p => p.name === 'name')?.decorators).toEqual(['@IsString()', '@MinLength(2)', '@MaxLength(50)']);
+    expect(properties.find(p => p.name === 'age')).toMatchObject({ optional: true, decorators: ['@IsOptional()', '@IsInt()', '@Min(0)'] });
+    expect(properties.find(p => p.name === 'role')).toMatchObject({ optional: true, type: "'ADMIN' | 'VIEWER'", decorators: ['@IsOptional()', "@IsIn(['ADMIN', 'VIEWER'])"] });
+  });
+
+  it('should leave readonly fields out of updates and make every property optional', () => {
+    const properties = buildDtoProperties(app, user, 'update');
+
+    expect(properties.map(p => p.name)).toEqual(['email', 'name', 'age', 'role']);
+    expect(properties.every(p => p.optional && p.decorators[0] === '@IsOptional()')).toBe(true);
+  });
+
+  it('should include the foreign key of a to-one relation', () => {
+    expect(buildDtoProperties(app, post, 'create')).toContainEqual({ name: 'authorId', type: 'string', optional: false, decorators: ['@IsUUID()'] });
+  });
+
+  it('should write create and update DTO classes', () => {
+    generateDtos(app, user, tempDir);
+
+    const create = fs.readFileSync(path.join(tempDir, 'dto/create-user.dto.ts'), 'utf-8');
+    expect(create).toContain("import { IsDate, IsIn, IsInt, IsOptional, IsString, Matches, MaxLength, Min, MinLength } from 'class-validator';");
+    expect(create).toContain("import { Type } from 'class-transformer';");
+    expect(create).toContain('export class CreateUserDto {');
+    expect(create).toContain('  @Type(() => Date)\n  @IsDate()\n  createdAt: Date;');
+
+    const update = fs.readFileSync(path.join(tempDir, 'dto/update-user.dto.ts'), 'utf-8');
+    expect(update).toContain('export class UpdateUserDto {');
+    expect(update).not.toContain('createdAt');
+    expect(update).not.toContain('score');
+  });
+});
@@ -1,6 +1,6 @@
 import { generateBackend, generateDockerFiles } from '..';
 import * as fs from 'fs';
-import { IApp, parseDSL } from '@stalmer1/core';
+import { IApp, createMemoryFileSystem, parseDSL } from '@stalmer1/core';
 import path from 'path';
 import os from 'os';
 
@@ -40,12 +40,70 @@ describe('generateBackend', () => {
     expect(fs.existsSync(path.join(tempDir, 'src/user/user.module.ts'))).toBe(true);
     expect(fs.existsSync(path.join(tempDir, 'src/user/user.controller.ts'))).toBe(true);
     expect(fs.existsSync(path.join(tempDir, 'src/user/user.service.ts'))).toBe(true);
+    expect(fs.existsSync(path.join(tempDir, 'src/user/dto/create-user.dto.ts'))).toBe(true);
+    expect(fs.existsSync(path.join(tempDir, 'src/user/dto/update-user.dto.ts'))).toBe(true);
     expect(fs.existsSync(path.join(tempDir, 'src/post/post.module.ts'))).toBe(true);
     expect(fs.existsSync(path.join(tempDir, 'src/post/post.controller.ts'))).toBe(true);
     expect(fs.existsSync(path.join(tempDir, 'src/post/post.service.ts'))).toBe(true);
     expect(fs.existsSync(path.join(tempDir, 'package.json'))).toBe(true);
     expect(fs.existsSync(path.join(tempDir, 'src/app.module.ts'))).toBe(true);
     expect(fs.existsSync(path.join(tempDir, 'src/main.ts'))).toBe(true);
+    expect(fs.existsSync(path.join(tempDir, 'src/common/list-query.ts'))).toBe(true);
+  });
+
+  it('should paginate, sort and filter list endpoints', async () => {
+    await generateBackend(parsedApp, tempDir);
+
+    const service = fs.readFileSync(path.join(tempDir, 'src/post/post.service.ts'), 'utf-8');
+    expect(service).toContain("import { ListField, ListResult, parseListQuery } from '../common/list-query';");
+    expect(service).toContain('"authorId":{"kind":"string"}');
+    expect(service).toContain('this.prisma.post.count({ where: scoped })');
+    expect(service).toContain('return { data, total, page, pageSize };');
+
+    const controller = fs.readFileSync(path.join(tempDir, 'src/post/post.controller.ts'), 'utf-8');
+    expect(controller).toContain('findAll(@Query() query: Record<string, unknown>, @Request() req: { user?: Principal })');
+  });
+
+  it('should check enum values in services on sqlite', async () => {
+    const app = parseDSL(`
+      enum UserRole {
+        ADMIN
+        VIEWER
+      }
+
+      entity User {
+        role: UserRole default(VIEWER)
+      }
+    `);
+    await generateBackend(app, tempDir);
+
+    const service = fs.readFileSync(path.join(tempDir, 'src/user/user.service.ts'), 'utf-8');
+    expect(service).toContain('import { BadRequestException, Injectable');
+    expect(service).toContain("throw new BadRequestException('role must be one of: ADMIN, VIEWER')");
+    expect(service).toContain('this._checkEnumValues(data);');
+  });
+
+  it('should write through the given file system', async () => {
+    const vfs = createMemoryFileSystem();
+    await generateBackend(parsedApp, tempDir, false, { vfs });
+
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+    const files = vfs.readDirectory(tempDir);
+    expect(files.has('prisma/schema.prisma')).toBe(true);
+    expect(files.has('src/user/user.service.ts')).toBe(true);
+    expect(JSON.parse(files.get('package.json') as string).devDependencies.prisma).toBe('4.15.0');
+  });
+
+  it('should render templates from override directories', async () => {
+    const templatesDir = path.join(tempDir, 'templates');
+    fs.mkdirSync(path.join(templatesDir, 'backend'), { recursive: true });
+    fs.writeFileSync(path.join(templatesDir, 'backend/controller.ejs'), '// Custom controller for <%= entity.name %>\n');
+    const outDir = path.join(tempDir, 'out');
+
+    await generateBackend(parsedApp, outDir, false, { templates: [{ name: 'templates', dir: templatesDir }] });
+
+    expect(fs.readFileSync(path.join(outDir, 'src/user/user.controller.ts'), 'utf-8')).toBe('// Custom controller for User\n');
+    expect(fs.readFileSync(path.join(outDir, 'src/user/user.service.ts'), 'utf-8')).toContain('export class UserService');
   });
 
   it('should generate Docker files in a temporary directory', () => {
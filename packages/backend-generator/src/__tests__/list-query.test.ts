@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { parseDSL } from '@stalmer1/core';
+import { buildListFields, generateListQuery } from '../list-query';
+
+class BadRequestException extends Error {}
+
+/**
+ * Compiles the generated list-query.ts and loads it with a stand-in for @nestjs/common
+ */
+function loadListQuery(outDir: string) {
+  const source = fs.readFileSync(path.join(outDir, 'src/common/list-query.ts'), 'utf-8');
+  const { outputText } = ts.transpileModule(source, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019 } });
+  const exports: Record<string, any> = {};
+  new Function('require', 'exports', outputText)(() => ({ BadRequestException }), exports);
+  return exports;
+}
+
+describe('List query generation', () => {
+  const app = parseDSL(`
+    enum UserRole {
+      ADMIN
+      VIEWER
+    }
+
+    entity User {
+      email: String unique
+      password: Password
+      age: Int optional
+      role: UserRole default(VIEWER)
+      active: Boolean default(true)
+      createdAt: DateTime readonly
+      settings: Json optional
+    }
+
+    entity Post {
+      title: String
+      author: User
+    }
+  `);
+
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'list-query-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should describe the filterable fields of an entity', () => {
+    expect(buildListFields(app, app.entities[0])).toEqual({
+      id: { kind: 'string' },
+      email: { kind: 'string' },
+      age: { kind: 'number' },
+      role: { kind: 'enum', values: ['ADMIN', 'VIEWER'] },
+      active: { kind: 'boolean' },
+      createdAt: { kind: 'date' },
+    });
+    expect(Object.keys(buildListFields(app, app.entities[1]))).toEqual(['id', 'title', 'authorId']);
+  });
+
+  it('should turn query parameters into Prisma arguments', () => {
+    generateListQuery(tempDir);
+    const { parseListQuery } = loadListQuery(tempDir);
+    const fields = buildListFields(app, app.entities[0]);
+
+    expect(parseListQuery({}, fields)).toEqual({ where: {}, orderBy: [], skip: 0, take: 20, page: 1, pageSize: 20 });
+
+    const query = parseListQuery({
+      page: '3',
+      pageSize: '500',
+      sort: 'createdAt:desc,email',
+      email: { contains: 'example.com' },
+      age: { gte: '18', lte: '65' },
+      role: { in: 'ADMIN,VIEWER' },
+      active: 'true',
+    }, fields);
+    expect(query).toEqual({
+      where: {
+        email: { contains: 'example.com' },
+        age: { gte: 18, lte: 65 },
+        role: { in: ['ADMIN', 'VIEWER'] },
+        active: { equals: true },
+      },
+      orderBy: [{ createdAt: 'desc' }, { email: 'asc' }],
+      skip: 200,
+      take: 100,
+      page: 3,
+      pageSize: 100,
+    });
+  });
+
+  it('should reject unknown fields, operators and invalid values', () => {
+    generateListQuery(tempDir);
+    const { parseListQuery } = loadListQuery(tempDir);
+    const fields = buildListFields(app, app.entities[0]);
+
+    expect(() => parseListQuery({ password: 'secret' }, fields)).toThrow("Cannot filter by unknown field 'password'");
+    expect(() => parseListQuery({ sort: 'settings:asc' }, fields)).toThrow("Cannot sort by unknown field 'settings'");
+    expect(() => parseListQuery({ sort: 'email:up' }, fields)).toThrow('Sort direction for \'email\' must be asc or desc');
+    expect(() => parseListQuery({ active: { contains: 'tr' } }, fields)).toThrow("Operator 'contains' is not supported for filter 'active'");
+    expect(() => parseListQuery({ age: { gte: 'old' } }, fields)).toThrow('age must be a number');
+    expect(() => parseListQuery({ role: 'OWNER' }, fields)).toThrow('role must be one of: ADMIN, VIEWER');
+    expect(() => parseListQuery({ page: '0' }, fields)).toThrow('page must be a positive integer');
+    expect(() => parseListQuery({ constructor: 'x' }, fields)).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,130 @@
+import { parseDSL } from '@stalmer1/core';
+import { planMigration, renderViewMigration } from '../migrations';
+
+describe('planMigration', () => {
+  const user = (fields: string) => parseDSL(`
+    enum Role {
+      ADMIN
+      EDITOR
+    }
+
+    entity User {
+      id: UUID primaryKey
+      name: String
+      ${fields}
+    }
+
+    view UserNames {
+      from: User
+      fields: [
+        { name: "label", type: String, expression: "name" }
+      ]
+    }
+  `);
+
+  it('should create every entity and view for a new database', () => {
+    const plan = planMigration(undefined, user(''));
+
+    expect(plan.name).toBe('initial');
+    expect(plan.operations.map(op => op.name)).toEqual(['add_entity_user', 'add_view_user_names']);
+    expect(plan.views.map(view => view.name)).toEqual(['UserNames']);
+  });
+
+  it('should find nothing to migrate when the IR has not changed', () => {
+    const plan = planMigration(user('age: Int'), user('age: Int'));
+
+    expect(plan).toEqual({ name: '', operations: [], views: [], droppedViews: [] });
+    expect(renderViewMigration(plan, user('age: Int'))).toBe('');
+  });
+
+  it('should name migrations after the change', () => {
+    expect(planMigration(user(''), user('phoneNumber: String optional')).name).toBe('add_field_user_phone_number');
+    expect(planMigration(user(''), user('phone: String optional\nage: Int optional')).name).toBe('add_field_user_phone_and_add_field_user_age');
+    expect(planMigration(user(''), user('phone: String optional\nage: Int optional\nbio: Text optional')).name).toBe('add_field_user_phone_and_2_more');
+  });
+
+  it('should flag destructive operations', () => {
+    const destructive = (before: string, after: string) =>
+      planMigration(user(before), user(after)).operations.map(op => [op.name, op.destructive]);
+
+    expect(destructive('', 'phone: String')).toEqual([
+      ['add_field_user_phone', 'adds a required column without a default, which fails if the table has rows'],
+    ]);
+    expect(destructive('', 'active: Boolean default(true)')).toEqual([['add_field_user_active', undefined]]);
+    expect(destructive('phone: String', '')).toEqual([['drop_field_user_phone', 'drops the column and its data']]);
+    expect(destructive('age: Float', 'age: Int')).toEqual([['alter_field_user_age', 'changes type from Float to Int']]);
+    expect(destructive('age: Int', 'age: Float')).toEqual([['alter_field_user_age', undefined]]);
+    expect(destructive('role: Role', 'role: String')).toEqual([['alter_field_user_role', undefined]]);
+    expect(destructive('phone: String optional', 'phone: String')).toEqual([
+      ['alter_field_user_phone', 'becomes required without a default'],
+    ]);
+  });
+
+  it('should flag enum values that are removed', () => {
+    const previous = user('role: Role');
+    const next = user('role: Role');
+    next.config = { ...next.config, enums: { Role: ['ADMIN'] } };
+
+    expect(planMigration(previous, next).operations).toEqual([
+      { kind: 'alter_enum', name: 'alter_enum_role', description: 'Change enum Role', destructive: 'removes EDITOR' },
+    ]);
+  });
+
+  it('should migrate the columns and models the generator adds', () => {
+    const app = (config: string, directives: string) => parseDSL(`
+      ${config}
+
+      entity Organization {
+        name: String
+      }
+
+      entity User {
+        email: String unique
+        password: Password
+      }
+
+      entity Post {
+        title: String
+        ${directives}
+      }
+    `);
+    const plan = (config: string, directives: string) =>
+      planMigration(app('', ''), app(config, directives)).operations.map(op => [op.name, op.destructive]);
+
+    expect(plan('', '@@softDelete')).toEqual([['add_field_post_deleted_at', undefined]]);
+    expect(plan('', '@@audited')).toEqual([['add_entity_audit_log', undefined]]);
+    expect(plan('config auth {\n provider: jwt\n userEntity: User\n}', '')).toEqual([
+      ['add_entity_refresh_token', undefined],
+      ['add_entity_password_reset_token', undefined],
+    ]);
+    expect(plan('config tenancy {\n strategy: column\n tenantEntity: Organization\n}', '')).toEqual([
+      ['add_relation_user_organization', 'adds a required foreign key, which fails if the table has rows'],
+      ['add_relation_post_organization', 'adds a required foreign key, which fails if the table has rows'],
+    ]);
+    expect(planMigration(undefined, app('', '@@audited')).operations.map(op => op.name)).toContain('add_entity_audit_log');
+  });
+
+  it('should recreate only the views whose definition changed', () => {
+    const previous = user('');
+    const next = user('');
+    next.views = [
+      { name: 'UserNames', from: 'User', fields: [{ name: 'label', type: 'String', expression: 'upper(name)' }] },
+      { name: 'UserCount', from: 'User', fields: [{ name: 'total', type: 'Int', expression: 'count(*)' }] },
+    ];
+
+    const plan = planMigration(previous, next);
+
+    expect(plan.name).toBe('alter_view_user_names_and_add_view_user_count');
+    expect(plan.operations.every(op => !op.destructive)).toBe(true);
+    expect(renderViewMigration(plan, next)).toBe([
+      'DROP VIEW IF EXISTS "UserNames";',
+      'CREATE VIEW "UserNames" AS\nSELECT\n  upper(name) as label\nFROM "User";',
+      'DROP VIEW IF EXISTS "UserCount";',
+      'CREATE VIEW "UserCount" AS\nSELECT\n  count(*) as total\nFROM "User";',
+    ].join('\n\n'));
+
+    const dropped = planMigration(next, previous);
+    expect(dropped.droppedViews).toEqual(['UserCount']);
+    expect(renderViewMigration(dropped, previous)).toContain('DROP VIEW IF EXISTS "UserCount";');
+  });
+});
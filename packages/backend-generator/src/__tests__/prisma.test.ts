@@ -1,5 +1,5 @@
 import { generatePrismaSchema } from '../prisma';
-import { IApp } from '@stalmer1/core';
+import { IApp, parseDSL } from '@stalmer1/core';
 
 describe('Prisma Schema Generator', () => {
   it('should generate a prisma schema with a view', () => {
@@ -35,3 +35,104 @@ describe('Prisma Schema Generator', () => {
     expect(schema).toContain('@@map(name: null) /// @db.view');
   });
 });
+
+describe('Prisma Schema Generator enums', () => {
+  const app: IApp = {
+    name: 'TestApp',
+    entities: [
+      {
+        name: 'User',
+        fields: [
+          { name: 'id', type: 'UUID', primaryKey: true },
+          { name: 'role', type: 'UserRole', default: 'VIEWER' },
+        ],
+      },
+    ],
+    pages: [],
+    config: { enums: { UserRole: ['ADMIN', 'EDITOR', 'VIEWER'] } },
+  };
+
+  it('should emit enum blocks and bare enum defaults for postgresql', () => {
+    const schema = generatePrismaSchema(app, 'postgresql');
+
+    expect(schema).toContain('enum UserRole {\n  ADMIN\n  EDITOR\n  VIEWER\n}');
+    expect(schema).toContain('role UserRole @default(VIEWER)');
+  });
+
+  it('should fall back to strings for sqlite', () => {
+    const schema = generatePrismaSchema(app, 'sqlite');
+
+    expect(schema).not.toContain('enum UserRole');
+    expect(schema).toContain('role String @default("VIEWER") /// @enum(UserRole)');
+  });
+});
+
+describe('Prisma Schema Generator relations', () => {
+  const app = parseDSL(`
+    entity User {
+      name: String
+      posts: Post[] @relation(name: "UserPosts")
+    }
+
+    entity Post {
+      title: String
+      author: User @relation(name: "UserPosts")
+      editor: User optional
+      categories: Category[]
+    }
+
+    entity Category {
+      name: String
+      posts: Post[]
+    }
+  `);
+
+  it('should pair named sides and emit the foreign key on the single side', () => {
+    const schema = generatePrismaSchema(app, 'postgresql');
+
+    expect(schema).toContain('posts Post[] @relation("UserPosts")');
+    expect(schema).toContain('authorId String @db.Uuid');
+    expect(schema).toContain('author User @relation("UserPosts", fields: [authorId], references: [id])');
+    expect(schema).toContain('@@index([authorId])');
+    expect(schema).not.toContain('@@index([author])');
+  });
+
+  it('should use an implicit join table for list to list relations', () => {
+    const schema = generatePrismaSchema(app, 'postgresql');
+
+    expect(schema).toContain('categories Category[] @relation("CategoryToPost")');
+    expect(schema).toContain('posts Post[] @relation("CategoryToPost")');
+    expect(schema).not.toContain('categoriesId');
+  });
+
+  it('should add the missing side of a relation declared once', () => {
+    const schema = generatePrismaSchema(app, 'sqlite');
+
+    expect(schema).toContain('editorId String?\n');
+    expect(schema).toContain('editor User? @relation("PostEditor", fields: [editorId], references: [id])');
+    expect(schema).toContain('postEditors Post[] @relation("PostEditor")');
+  });
+});
+
+describe('Prisma Schema Generator entity directives', () => {
+  it('should emit compound uniques, indexes and table and column mapping', () => {
+    const app = parseDSL(`
+      entity Tenant {
+        name: String
+      }
+
+      entity User {
+        email: String @map("email_address")
+        tenant: Tenant
+        createdAt: DateTime
+        @@unique([tenant, email])
+        @@index([createdAt])
+        @@map("users")
+      }
+    `);
+    const schema = generatePrismaSchema(app, 'postgresql');
+
+    expect(schema).toContain('email String @map("email_address")');
+    expect(schema).toContain('@@index([tenantId])\n  @@index([createdAt])\n  @@unique([tenantId, email])\n  @@map("users")');
+  });
+});
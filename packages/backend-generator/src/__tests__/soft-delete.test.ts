@@ -0,0 +1,145 @@
+import * as ts from 'typescript';
+import { createMemoryFileSystem, parseDSL } from '@stalmer1/core';
+import { generateBackend } from '..';
+import { generatePrismaSchema } from '../prisma';
+
+class NotFoundException extends Error {}
+class ConflictException extends Error {}
+
+type Row = Record<string, any>;
+
+/**
+ * Compiles a generated file and loads it with stand-ins for its dependencies
+ */
+function load(source: string, modules: Record<string, unknown>) {
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, experimentalDecorators: true },
+  });
+  const exports: Record<string, any> = {};
+  new Function('require', 'exports', outputText)((name: string) => modules[name] ?? {}, exports);
+  return exports;
+}
+
+/**
+ * An in-memory stand-in for the Prisma delegates the generated service uses, with equality, `not` and `AND` conditions
+ */
+function fakeTable(rows: Row[]) {
+  const matches = (row: Row, where: Row): boolean =>
+    Object.entries(where).every(([key, value]) => {
+      if (key === 'AND') return (value as Row[]).every(clause => matches(row, clause));
+      if (value !== null && typeof value === 'object' && 'not' in value) return (row[key] ?? null) !== value.not;
+      return (row[key] ?? null) === value;
+    });
+  return {
+    rows,
+    count: async ({ where }: Row) => rows.filter(row => matches(row, where)).length,
+    findMany: async ({ where }: Row) => rows.filter(row => matches(row, where)),
+    findFirst: async ({ where }: Row) => rows.find(row => matches(row, where)) ?? null,
+    update: async ({ where, data }: Row) => ({ ...Object.assign(rows.find(row => matches(row, where)) as Row, data) }),
+    delete: async () => {
+      throw new Error('Soft-deleted records are never removed');
+    },
+  };
+}
+
+describe('Soft delete', () => {
+  const app = parseDSL(`
+    enum Role { ADMIN, EDITOR }
+
+    config auth {
+      provider: jwt
+      userEntity: User
+      roles: Role
+    }
+
+    entity User {
+      email: String unique
+      password: Password
+      role: Role default(EDITOR)
+
+      @@softDelete
+    }
+
+    entity Post {
+      title: String
+      access { delete: ADMIN }
+
+      @@softDelete
+    }
+  `);
+
+  it('should add the deletedAt column', () => {
+    expect(generatePrismaSchema(app)).toContain('  title String\n  deletedAt DateTime? // Set when the record is deleted; see @@softDelete\n');
+  });
+
+  it('should hide deleted records unless the user may delete them, and add a restore route', async () => {
+    const vfs = createMemoryFileSystem();
+    await generateBackend(app, '/out', false, { vfs });
+    const controller = vfs.readFile('/out/src/post/post.controller.ts');
+
+    expect(controller).toContain('const { includeDeleted, ...filters } = query;');
+    expect(controller).toContain(
+      'return this.postService.findAll(filters, { ...accessScope(ACCESS.read, req.user), ...this.deletedScope(includeDeleted, req) });'
+    );
+    expect(controller).toContain('return this.postService.remove(id, { ...accessScope(ACCESS.delete, req.user), ...NOT_DELETED });');
+    expect(controller).toContain("@Post(':id/restore')");
+    expect(controller).toContain("return includeDeleted === 'true' ? accessScope(ACCESS.delete, req.user) : NOT_DELETED;");
+    expect(vfs.readFile('/out/src/auth/auth.service.ts')).toContain('user.deletedAt');
+  });
+
+  describe('generated service', () => {
+    let service: any;
+    let table: any;
+    let rows: Row[];
+    const live = { deletedAt: null };
+
+    beforeEach(async () => {
+      const vfs = createMemoryFileSystem();
+      await generateBackend(app, '/out', false, { vfs });
+      const { PostService } = load(vfs.readFile('/out/src/post/post.service.ts'), {
+        '@nestjs/common': { Injectable: () => () => undefined, NotFoundException, ConflictException },
+        '../common/list-query': { parseListQuery: () => ({ where: {} }) },
+      });
+
+      rows = [{ id: 'a', title: 'Kept', deletedAt: null }, { id: 'b', title: 'Gone', deletedAt: null }];
+      table = fakeTable(rows);
+      service = new PostService({ post: table });
+    });
+
+    it('should mark records as deleted instead of removing them', async () => {
+      await service.remove('b', live);
+
+      expect(rows[1].deletedAt).toBeInstanceOf(Date);
+      expect((await service.findAll({}, live)).data.map((row: Row) => row.id)).toEqual(['a']);
+      expect(await service.findOne('b', live)).toBeNull();
+      expect((await service.findAll({}, {})).total).toBe(2);
+      await expect(service.remove('b', live)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should restore deleted records only', async () => {
+      await service.remove('b', live);
+
+      await expect(service.restore('a')).rejects.toThrow(NotFoundException);
+      await service.restore('b');
+      expect(rows[1].deletedAt).toBeNull();
+    });
+
+    it('should answer a unique clash, which may be with a deleted record, with a conflict', async () => {
+      const clash = Object.assign(new Error('Unique constraint failed'), { code: 'P2002', meta: { target: ['title'] } });
+      table.create = async () => {
+        throw clash;
+      };
+      table.update = table.create;
+
+      await expect(service.create({ title: 'Gone' })).rejects.toThrow(
+        new ConflictException('A Post with the same title already exists, possibly a deleted one that can be restored instead')
+      );
+      await expect(service.update('a', { title: 'Gone' }, live)).rejects.toThrow(ConflictException);
+
+      table.create = async () => {
+        throw new Error('Connection lost');
+      };
+      await expect(service.create({ title: 'New' })).rejects.toThrow('Connection lost');
+    });
+  });
+});
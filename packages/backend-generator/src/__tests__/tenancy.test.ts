@@ -0,0 +1,132 @@
+import * as ts from 'typescript';
+import { createMemoryFileSystem, parseDSL } from '@stalmer1/core';
+import { generateBackend } from '..';
+import { buildJwtAuth } from '../auth';
+import { generatePrismaSchema } from '../prisma';
+
+class BadRequestException extends Error {}
+class ForbiddenException extends Error {}
+
+/**
+ * Compiles the generated tenancy.ts and loads it with a stand-in for @nestjs/common
+ */
+function loadTenancy(source: string) {
+  const { outputText } = ts.transpileModule(source, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019 } });
+  const exports: Record<string, any> = {};
+  new Function('require', 'exports', outputText)(() => ({ BadRequestException, ForbiddenException }), exports);
+  return exports;
+}
+
+describe('Tenancy', () => {
+  const app = parseDSL(`
+    config auth {
+      provider: jwt
+      userEntity: User
+    }
+
+    config tenancy {
+      strategy: column
+      tenantEntity: Organization
+      entities: [User, Project, Invoice]
+    }
+
+    entity Organization {
+      id: Int primaryKey
+      name: String
+    }
+
+    entity User {
+      email: String unique
+      password: Password
+    }
+
+    entity Project {
+      code: String
+      title: String
+      @@unique([code])
+    }
+
+    entity Invoice {
+      number: String
+      company: Organization
+      @@unique([company, number])
+    }
+
+    entity Tag {
+      name: String
+    }
+  `);
+
+  it('should add a tenant key to each scoped model and scope its unique constraints', () => {
+    const schema = generatePrismaSchema(app, 'postgresql');
+
+    expect(schema).toContain('  organizationId Int\n  organization Organization @relation("ProjectTenant", fields: [organizationId], references: [id])\n');
+    expect(schema).toContain('  @@unique([organizationId, code])\n');
+    expect(schema).toContain('  companyId Int\n');
+    expect(schema).toContain('  @@unique([companyId, number])\n');
+    expect(schema).not.toContain('InvoiceTenant');
+    expect(schema).not.toMatch(/model Tag \{[^}]*organization/);
+  });
+
+  it('should scope the controllers of tenant-scoped entities', async () => {
+    const vfs = createMemoryFileSystem();
+    await generateBackend(app, '/out', false, { vfs });
+    const files = vfs.readDirectory('/out');
+
+    expect(files.get('src/project/project.controller.ts')).toContain("const TENANT_KEY = 'organizationId';");
+    expect(files.get('src/project/project.controller.ts')).toContain(
+      'return this.projectService.create(createProjectDto, { ...accessScope(ACCESS.create, req.user), ...tenantScope(req, TENANT_KEY) });'
+    );
+    expect(files.get('src/invoice/invoice.controller.ts')).toContain("const TENANT_KEY = 'companyId';");
+    expect(files.get('src/tag/tag.controller.ts')).not.toContain('tenantScope');
+    expect(files.get('src/tag/tag.controller.ts')).toContain('return this.tagService.findAll(query, accessScope(ACCESS.read, req.user));');
+    expect(files.get('src/auth/auth.controller.ts')).toContain(
+      "@Post('register')\n  @UseGuards(AuthGuard('jwt'))\n  register(@Body() body: CreateUserDto, @Request() req: TenantRequest) {\n" +
+        "    return this.authService.register(body, tenantScope(req, 'organizationId'));"
+    );
+    expect(files.get('src/auth/auth.service.ts')).toContain('if (user.organizationId != null) payload.tenantId = String(user.organizationId);');
+    expect(buildJwtAuth(app)?.tenantKey).toBe('organizationId');
+  });
+
+  it('should bind signed-in users to their own tenant, and take the tenant header only without a user', async () => {
+    const vfs = createMemoryFileSystem();
+    await generateBackend(app, '/out', false, { vfs });
+    const { currentTenant, tenantScope } = loadTenancy(vfs.readFile('/out/src/common/tenancy.ts'));
+
+    expect(tenantScope({ user: { tenantId: '3' }, headers: {} }, 'organizationId')).toEqual({ organizationId: 3 });
+    expect(currentTenant({ user: { tenantId: '3' }, headers: { 'x-tenant-id': '3' } })).toBe(3);
+    expect(currentTenant({ headers: { 'x-tenant-id': '5' } })).toBe(5);
+    expect(() => currentTenant({ user: { tenantId: '3' }, headers: { 'x-tenant-id': '5' } })).toThrow(ForbiddenException);
+    expect(() => currentTenant({ user: { sub: '1' }, headers: { 'x-tenant-id': '5' } })).toThrow(ForbiddenException);
+    expect(() => currentTenant({ headers: {} })).toThrow(BadRequestException);
+  });
+
+  it('should limit the tenant entity to the user\'s own tenant, and let new tenants sign up', async () => {
+    const vfs = createMemoryFileSystem();
+    await generateBackend(app, '/out', false, { vfs });
+    const files = vfs.readDirectory('/out');
+    const { ownTenantScope } = loadTenancy(files.get('src/common/tenancy.ts') as string);
+
+    const controller = files.get('src/organization/organization.controller.ts') as string;
+    expect(controller).toContain("const TENANT_KEY = 'id';");
+    expect(controller).toContain('return this.organizationService.findAll(query, { ...accessScope(ACCESS.read, req.user), ...ownTenantScope(req, TENANT_KEY) });');
+    expect(controller).toContain("if (req.user) {\n      throw new ForbiddenException('New Organization records are created through POST /auth/signup');");
+    expect(ownTenantScope({ user: { tenantId: '3' }, headers: {} }, 'id')).toEqual({ id: 3 });
+    expect(ownTenantScope({ headers: {} }, 'id')).toEqual({});
+
+    expect(files.get('src/auth/auth.controller.ts')).toContain(
+      "@Post('signup')\n  signup(@Body() body: SignupDto) {\n    return this.authService.signup(body.tenant, body.user);"
+    );
+    expect(files.get('src/auth/auth.service.ts')).toContain(
+      'const created = await this.prisma.organization.create({ data: tenant });\n    return this.register(data, { organizationId: created.id });'
+    );
+    expect(files.get('src/auth/auth.dto.ts')).toContain('@Type(() => CreateOrganizationDto)\n  tenant: CreateOrganizationDto;');
+  });
+
+  it('should leave apps without a tenancy config as they were', async () => {
+    const vfs = createMemoryFileSystem();
+    await generateBackend(parseDSL('entity Tag {\n  name: String\n}\n'), '/out', false, { vfs });
+
+    expect(vfs.readDirectory('/out').has('src/common/tenancy.ts')).toBe(false);
+  });
+});
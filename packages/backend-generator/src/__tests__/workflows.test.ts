@@ -0,0 +1,131 @@
+import { generateBackend } from '../';
+import { parseDSL } from '@stalmer1/core';
+import * as fs from 'fs';
+import * as ts from 'typescript';
+import * as path from 'path';
+import os from 'os';
+
+describe('Workflows', () => {
+  const dsl = `
+    config integrations {
+      email: {
+        provider: sendgrid
+        apiKey: env(SENDGRID_API_KEY)
+      }
+    }
+
+    entity User {
+      email: String unique
+    }
+
+    entity AuditEntry {
+      message: String
+    }
+
+    workflow UserOnboarding {
+      trigger: {
+        event: "user.created"
+        entity: User
+      }
+      steps: [
+        {
+          action: sendEmail
+          inputs: {
+            template: "welcome"
+            recipient: trigger.entity.email
+          }
+        },
+        {
+          action: createRecord
+          inputs: { entity: AuditEntry, data: { message: "onboarded" } }
+        }
+      ]
+    }
+
+    workflow EntryNotice {
+      trigger: {
+        event: "auditEntry.created"
+        entity: AuditEntry
+      }
+      steps: [
+        { action: callWebhook, inputs: { url: "https://example.com/hooks/audit" } }
+      ]
+    }
+  `;
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflows-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should generate a handler that runs each step in order', async () => {
+    await generateBackend(parseDSL(dsl), tempDir);
+
+    const handler = fs.readFileSync(path.join(tempDir, 'src/workflows/useronboarding.workflow.ts'), 'utf-8');
+    expect(handler).toContain("@OnEvent('user.created', { async: true })");
+    const sendEmail = handler.indexOf('this.actions.sendEmail(resolveInputs({"template":"welcome","recipient":"trigger.entity.email"}, context))');
+    const createRecord = handler.indexOf('this.actions.createRecord(resolveInputs({"entity":"AuditEntry","data":{"message":"onboarded"}}, context))');
+    expect(sendEmail).toBeGreaterThan(-1);
+    expect(createRecord).toBeGreaterThan(sendEmail);
+
+    const actions = fs.readFileSync(path.join(tempDir, 'src/workflows/workflow-actions.service.ts'), 'utf-8');
+    expect(actions).toContain('https://api.sendgrid.com/v3/mail/send');
+    expect(actions).toContain('Bearer ${process.env.SENDGRID_API_KEY}');
+    expect(actions).toContain('async callWebhook(');
+  });
+
+  it('should create and update records through the delegates of multi-word entities', async () => {
+    await generateBackend(parseDSL(dsl), tempDir);
+
+    const source = fs.readFileSync(path.join(tempDir, 'src/workflows/workflow-actions.service.ts'), 'utf-8');
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, experimentalDecorators: true },
+    });
+    const exports: Record<string, any> = {};
+    const nest = { Injectable: () => () => undefined, Logger: class {} };
+    new Function('require', 'exports', outputText)((name: string) => (name === '@nestjs/common' ? nest : {}), exports);
+    const calls: unknown[] = [];
+    const auditEntry = { create: async (args: unknown) => calls.push(['create', args]), update: async (args: unknown) => calls.push(['update', args]) };
+    const actions = new exports.WorkflowActionsService({ auditEntry });
+
+    await actions.createRecord({ entity: 'AuditEntry', data: { message: 'onboarded' } });
+    await actions.updateRecord({ entity: 'AuditEntry', id: 'a1', data: { message: 'done' } });
+    expect(calls).toEqual([
+      ['create', { data: { message: 'onboarded' } }],
+      ['update', { where: { id: 'a1' }, data: { message: 'done' } }],
+    ]);
+    await expect(actions.createRecord({ entity: 'Missing', data: {} })).rejects.toThrow("Unknown entity 'Missing'");
+  });
+
+  it('should emit entity events and register the workflows module', async () => {
+    await generateBackend(parseDSL(dsl), tempDir);
+
+    const service = fs.readFileSync(path.join(tempDir, 'src/user/user.service.ts'), 'utf-8');
+    expect(service).toContain("this.events.emit('user.created', record);");
+    expect(service).toContain("this.events.emit('user.updated', record);");
+    expect(service).toContain("this.events.emit('user.deleted', record);");
+
+    const auditEntries = fs.readFileSync(path.join(tempDir, 'src/auditentry/auditentry.service.ts'), 'utf-8');
+    expect(auditEntries).toContain("this.events.emit('auditEntry.created', record);");
+    expect(auditEntries).toContain('this.prisma.auditEntry.create(');
+
+    const appModule = fs.readFileSync(path.join(tempDir, 'src/app.module.ts'), 'utf-8');
+    expect(appModule).toContain('EventEmitterModule.forRoot()');
+    expect(appModule).toContain('WorkflowsModule');
+
+    const packageJson = JSON.parse(fs.readFileSync(path.join(tempDir, 'package.json'), 'utf-8'));
+    expect(packageJson.dependencies['@nestjs/event-emitter']).toBeDefined();
+  });
+
+  it('should not generate the workflow runtime when there are no workflows', async () => {
+    await generateBackend(parseDSL('entity User {\n  email: String\n}'), tempDir);
+
+    expect(fs.existsSync(path.join(tempDir, 'src/workflows'))).toBe(false);
+    const service = fs.readFileSync(path.join(tempDir, 'src/user/user.service.ts'), 'utf-8');
+    expect(service).not.toContain('EventEmitter2');
+  });
+});
@@ -0,0 +1,73 @@
+import * as ejs from 'ejs';
+import * as path from 'path';
+import { ACCESS_OPERATIONS, AccessOperation, IApp, IREntity, OWNER, TemplateLoader, VirtualFileSystem, diskFileSystem, ownerKey } from '@stalmer1/core';
+import { loadTemplates } from './templates';
+
+export interface AccessRule {
+  roles: string[]; // Roles allowed to do the operation on every record
+  ownerKey?: string; // Set when the owner of a record may do it too: the column holding the owner's id
+}
+
+export type AccessRules = Partial<Record<AccessOperation, AccessRule>>;
+
+/**
+ * Builds the access rules of an entity. Its access section decides each operation it lists.
+ * Without one, the permissions of the pages that show the entity restrict reading (table and
+ * details pages) and creating, updating and deleting (form pages). Reading, creating and
+ * updating that no page restricts are then limited to the roles of all those pages together,
+ * while deleting is left to the form pages alone: seeing records never allows deleting them.
+ * @param app - The entire application IR
+ * @param entity - The IR entity
+ * @returns The rules by operation; operations without a rule are open to every signed-in user
+ */
+export function buildAccessRules(app: IApp, entity: IREntity): AccessRules {
+  const rules: AccessRules = {};
+  const allow = (operation: AccessOperation, roles: string[]) => {
+    rules[operation] = { roles: [...new Set([...(rules[operation]?.roles ?? []), ...roles])] };
+  };
+
+  if (entity.access) {
+    const key = ownerKey(app, entity);
+    for (const operation of ACCESS_OPERATIONS) {
+      const roles = entity.access[operation];
+      if (!roles) continue;
+      allow(operation, roles.filter(role => role !== OWNER));
+      if (roles.includes(OWNER) && key) (rules[operation] as AccessRule).ownerKey = key;
+    }
+    return rules;
+  }
+
+  for (const page of app.pages) {
+    if (page.entity !== entity.name || !page.permissions) continue;
+    if (page.type === 'table' || page.type === 'details') {
+      allow('read', page.permissions);
+    }
+    if (page.type === 'form') {
+      allow('create', page.permissions);
+      allow('update', page.permissions);
+      allow('delete', page.permissions);
+    }
+  }
+  const pageRoles = [...new Set(Object.values(rules).flatMap(rule => rule.roles))];
+  if (pageRoles.length > 0) {
+    for (const operation of ACCESS_OPERATIONS) {
+      if (!rules[operation]) allow(operation, operation === 'delete' ? [] : pageRoles);
+    }
+  }
+  return rules;
+}
+
+/**
+ * Generates the access check shared by the controllers
+ * @param outDir - The output directory
+ * @param verbose - Enable verbose logging
+ * @param vfs - The file system to write to
+ * @param templates - The template loader
+ */
+export function generateAccess(outDir: string, verbose: boolean = false, vfs: VirtualFileSystem = diskFileSystem, templates: TemplateLoader = loadTemplates()): void {
+  const commonDir = path.join(outDir, 'src', 'common');
+  vfs.mkdir(commonDir);
+
+  vfs.writeFile(path.join(commonDir, 'access.ts'), ejs.render(templates.read('access.ejs')));
+  if (verbose) console.log('Generated common/access.ts');
+}
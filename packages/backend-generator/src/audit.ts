@@ -0,0 +1,20 @@
+import * as ejs from 'ejs';
+import * as path from 'path';
+import { IApp, TemplateLoader, VirtualFileSystem, diskFileSystem, hasAuditLog } from '@stalmer1/core';
+import { loadTemplates } from './templates';
+
+/**
+ * Generates the audit log helpers the services of @@audited entities write changes with
+ * @param app - The entire application IR
+ * @param outDir - The output directory
+ * @param verbose - Enable verbose logging
+ * @param vfs - The file system to write to
+ * @param templates - The template loader
+ */
+export function generateAudit(app: IApp, outDir: string, verbose: boolean = false, vfs: VirtualFileSystem = diskFileSystem, templates: TemplateLoader = loadTemplates()): void {
+  if (!hasAuditLog(app)) return;
+  const commonDir = path.join(outDir, 'src', 'common');
+  vfs.mkdir(commonDir);
+  vfs.writeFile(path.join(commonDir, 'audit.ts'), ejs.render(templates.read('audit.ejs')));
+  if (verbose) console.log('Generated common/audit.ts');
+}
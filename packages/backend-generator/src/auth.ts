@@ -0,0 +1,89 @@
+import * as ejs from 'ejs';
+import * as path from 'path';
+import { IApp, TemplateLoader, VirtualFileSystem, authTokenTtl, authUser, diskFileSystem, isTenantScoped, tenantKey } from '@stalmer1/core';
+import { buildEmailIntegration } from './integrations';
+import { loadTemplates } from './templates';
+
+export interface JwtAuth {
+  entity: string; // The user entity
+  primaryKey: string;
+  numericKey: boolean; // Whether the primary key is an Int, which the token subject has to be converted to
+  identityField: string; // The unique field users sign in with
+  passwordField: string; // The field holding the password hash
+  roleField?: string; // The field holding the user's role, if the app has a roles enum
+  roles: string[]; // The values of the roles enum
+  tenantKey?: string; // The column holding the user's tenant, if users are tenant-scoped
+  tenantEntity?: string; // The tenant entity, which POST /auth/signup creates along with its first user
+  tenantPrimaryKey?: string;
+  softDelete?: boolean; // Whether deleted users are kept with deletedAt set, and so have to be turned away
+  accessTokenTtl: number; // Lifetimes of the tokens, in seconds
+  refreshTokenTtl: number;
+  resetTokenTtl: number;
+}
+
+/**
+ * Builds the settings of the generated jwt auth module from `config auth`
+ * @param app - The entire application IR
+ * @returns The settings, or undefined if the app does not use the jwt auth provider
+ */
+export function buildJwtAuth(app: IApp): JwtAuth | undefined {
+  const user = authUser(app);
+  if (app.config?.auth?.provider !== 'jwt' || !user?.identityField || !user.passwordField) return undefined;
+  const roles = app.config.auth.roles;
+  const scoped = isTenantScoped(app, user.entity);
+  const tenant = scoped ? app.entities.find(entity => entity.name === app.config?.tenancy?.tenantEntity) : undefined;
+  return {
+    entity: user.entity.name,
+    primaryKey: user.primaryKey.name,
+    numericKey: user.primaryKey.type.toLowerCase() === 'int',
+    identityField: user.identityField.name,
+    passwordField: user.passwordField.name,
+    roleField: user.roleField?.name,
+    roles: roles ? app.config.enums?.[roles] ?? [] : [],
+    tenantKey: scoped ? tenantKey(app, user.entity) : undefined,
+    tenantEntity: tenant?.name,
+    tenantPrimaryKey: tenant?.fields.find(field => field.primaryKey)?.name,
+    softDelete: user.entity.softDelete,
+    accessTokenTtl: authTokenTtl(app, 'accessTokenTtl'),
+    refreshTokenTtl: authTokenTtl(app, 'refreshTokenTtl'),
+    resetTokenTtl: authTokenTtl(app, 'resetTokenTtl'),
+  };
+}
+
+/**
+ * Generates the auth module of the configured provider. For jwt, that is a service that signs
+ * users in with the user entity, rotating refresh tokens and password reset tokens, and the
+ * routes for them under /auth.
+ * @param app - The entire application IR
+ * @param outDir - The output directory
+ * @param verbose - Enable verbose logging
+ * @param vfs - The file system to write to
+ * @param templates - The template loader
+ */
+export function generateAuth(app: IApp, outDir: string, verbose: boolean = false, vfs: VirtualFileSystem = diskFileSystem, templates: TemplateLoader = loadTemplates()): void {
+  const authProvider = app.config?.auth?.provider;
+  if (!authProvider) return;
+  const authDir = path.join(outDir, 'src', 'auth');
+  vfs.mkdir(authDir);
+
+  const auth = buildJwtAuth(app);
+  const email = buildEmailIntegration(app);
+  const files: Record<string, string> = { 'auth.module.ts': 'auth/auth.module.ejs' };
+  if (authProvider === 'jwt') {
+    Object.assign(files, {
+      'auth.service.ts': 'auth/auth.service.ejs',
+      'auth.controller.ts': 'auth/auth.controller.ejs',
+      'auth.dto.ts': 'auth/auth.dto.ejs',
+      'jwt.strategy.ts': 'auth/jwt.strategy.ejs',
+    });
+  } else if (authProvider === 'clerk') {
+    files['clerk.strategy.ts'] = 'auth-clerk.ts.ejs';
+  } else if (authProvider === 'auth0') {
+    files['auth0.strategy.ts'] = 'auth-auth0.ts.ejs';
+  }
+
+  for (const [file, template] of Object.entries(files)) {
+    vfs.writeFile(path.join(authDir, file), ejs.render(templates.read(template), { authProvider, auth, email }));
+    if (verbose) console.log(`Generated auth/${file}`);
+  }
+}
@@ -0,0 +1,129 @@
+import * as ejs from 'ejs';
+import * as path from 'path';
+import { IApp, IREntity, IRField, TemplateLoader, VirtualFileSystem, diskFileSystem, foreignKeyName, ownsForeignKey } from '@stalmer1/core';
+import { loadTemplates } from './templates';
+
+export interface DtoProperty {
+  name: string;
+  type: string; // TypeScript type
+  optional: boolean;
+  decorators: string[]; // class-validator and class-transformer decorators, e.g. `@IsInt()`
+}
+
+/**
+ * Builds the class-validator decorators and TypeScript type for a field's value
+ * @param field - The IR field
+ * @param enums - The enums defined in the DSL
+ * @returns The type and decorators, without `@IsOptional()`
+ */
+function describeField(field: IRField, enums: Record<string, string[]>): Pick<DtoProperty, 'type' | 'decorators'> {
+  const enumValues = Object.keys(enums).includes(field.type) ? enums[field.type] : undefined;
+  if (enumValues) {
+    return {
+      type: enumValues.map(value => `'${value}'`).join(' | '),
+      decorators: [`@IsIn([${enumValues.map(value => `'${value}'`).join(', ')}])`],
+    };
+  }
+
+  const decorators: string[] = [];
+  const bounds = (minDecorator: string, maxDecorator: string) => {
+    if (field.min !== undefined) decorators.push(`@${minDecorator}(${field.min})`);
+    if (field.max !== undefined) decorators.push(`@${maxDecorator}(${field.max})`);
+  };
+
+  switch (field.type.toLowerCase()) {
+    case 'int':
+      decorators.push('@IsInt()');
+      bounds('Min', 'Max');
+      return { type: 'number', decorators };
+    case 'float':
+    case 'decimal':
+      decorators.push('@IsNumber()');
+      bounds('Min', 'Max');
+      return { type: 'number', decorators };
+    case 'boolean':
+      return { type: 'boolean', decorators: ['@IsBoolean()'] };
+    case 'datetime':
+      return { type: 'Date', decorators: ['@Type(() => Date)', '@IsDate()'] };
+    case 'uuid':
+      return { type: 'string', decorators: ['@IsUUID()'] };
+    case 'json':
+      return { type: 'any', decorators: field.optional ? [] : ['@IsDefined()'] };
+    default:
+      decorators.push('@IsString()');
+      bounds('MinLength', 'MaxLength');
+      if (field.pattern) {
+        decorators.push(`@Matches(/${field.pattern.replace(/\//g, '\\/')}/)`);
+      }
+      return { type: 'string', decorators };
+  }
+}
+
+/**
+ * Builds the properties of an entity's create or update DTO. Virtual fields are left out,
+ * as are generated primary keys. Update DTOs also leave out readonly fields and make every
+ * property optional. Relations that own a foreign key contribute the key column.
+ * @param app - The entire application IR
+ * @param entity - The IR entity
+ * @param kind - Whether to build the create or the update DTO
+ * @returns The DTO properties
+ */
+export function buildDtoProperties(app: IApp, entity: IREntity, kind: 'create' | 'update'): DtoProperty[] {
+  const enums = app.config?.enums ?? {};
+  const properties: DtoProperty[] = [];
+
+  for (const field of entity.fields) {
+    if (field.isVirtual) continue;
+    if (field.primaryKey && ['uuid', 'int'].includes(field.type.toLowerCase())) continue;
+    if (kind === 'update' && (field.readonly || field.primaryKey)) continue;
+
+    const optional = kind === 'update' || !!field.optional || (field.default !== undefined && !field.required);
+    const { type, decorators } = describeField(field, enums);
+    properties.push({ name: field.name, type, optional, decorators: optional ? ['@IsOptional()', ...decorators] : decorators });
+  }
+
+  for (const relation of entity.relations ?? []) {
+    const foreignKey = foreignKeyName(relation);
+    if (!ownsForeignKey(app.entities, entity, relation) || entity.fields.some(f => f.name === foreignKey)) continue;
+
+    const targetKey = app.entities.find(e => e.name === relation.target)?.fields.find(f => f.primaryKey);
+    const optional = kind === 'update' || !!relation.optional;
+    const { type, decorators } = describeField({ name: foreignKey, type: targetKey?.type ?? 'UUID' }, enums);
+    properties.push({ name: foreignKey, type, optional, decorators: optional ? ['@IsOptional()', ...decorators] : decorators });
+  }
+
+  return properties;
+}
+
+/**
+ * Generates the CreateXDto and UpdateXDto classes for an entity
+ * @param app - The entire application IR
+ * @param entity - The IR entity
+ * @param entityDir - The entity's module directory
+ * @param verbose - Enable verbose logging
+ * @param vfs - The file system to write to
+ * @param templates - The template loader
+ */
+export function generateDtos(app: IApp, entity: IREntity, entityDir: string, verbose: boolean = false, vfs: VirtualFileSystem = diskFileSystem, templates: TemplateLoader = loadTemplates()): void {
+  const template = templates.read('dto.ejs');
+  const dtoDir = path.join(entityDir, 'dto');
+  vfs.mkdir(dtoDir);
+
+  for (const kind of ['create', 'update'] as const) {
+    const properties = buildDtoProperties(app, entity, kind);
+    const decoratorNames = new Set(properties.flatMap(p => p.decorators.map(d => (d.match(/^@(\w+)/) as RegExpMatchArray)[1])));
+    const className = `${kind === 'create' ? 'Create' : 'Update'}${entity.name}Dto`;
+    const fileName = `${kind}-${entity.name.toLowerCase()}.dto.ts`;
+
+    vfs.writeFile(
+      path.join(dtoDir, fileName),
+      ejs.render(template, {
+        className,
+        properties,
+        validators: [...decoratorNames].filter(name => name !== 'Type').sort(),
+        usesType: decoratorNames.has('Type'),
+      })
+    );
+    if (verbose) console.log(`Generated dto/${fileName}`);
+  }
+}
@@ -1,7 +1,14 @@
 import * as ejs from 'ejs';
-import { IApp, IRPage, IRViewField } from '@stalmer1/core';
+import { GeneratorOptions, IApp, IRPage, USER_OWNED_MARKER, VirtualFileSystem, diskFileSystem, isTenantScoped, redactedFields, tenantKey } from '@stalmer1/core';
 import { generatePrismaSchema } from './prisma';
-import * as fs from 'fs';
+import { generateWorkflows } from './workflows';
+import { generateDtos } from './dto';
+import { buildListFields, generateListQuery } from './list-query';
+import { buildAccessRules, generateAccess } from './access';
+import { generateAuth } from './auth';
+import { generateTenancy } from './tenancy';
+import { generateAudit } from './audit';
+import { loadTemplates } from './templates';
 import * as path from 'path';
 
 /**
@@ -10,11 +17,12 @@ import * as path from 'path';
  * @param packageName - The name of the package to add
  * @param version - The version of the package
  * @param isDev - Whether the package is a dev dependency
+ * @param vfs - The file system the package.json is written to
  */
-function addDependencyToPackageJson(outDir: string, packageName: string, version: string, isDev: boolean = false): void {
+function addDependencyToPackageJson(outDir: string, packageName: string, version: string, isDev: boolean, vfs: VirtualFileSystem): void {
   const packageJsonPath = path.join(outDir, 'package.json');
   
-  if (!fs.existsSync(packageJsonPath)) {
+  if (!vfs.exists(packageJsonPath)) {
     // Create a basic package.json if it doesn't exist
     const basicPackage = {
       name: path.basename(outDir),
@@ -22,10 +30,10 @@ function addDependencyToPackageJson(outDir: string, packageName: string, version
       dependencies: {},
       devDependencies: {}
     };
-    fs.writeFileSync(packageJsonPath, JSON.stringify(basicPackage, null, 2));
+    vfs.writeFile(packageJsonPath, JSON.stringify(basicPackage, null, 2));
   }
   
-  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+  const packageJson = JSON.parse(vfs.readFile(packageJsonPath));
   
   if (isDev) {
     packageJson.devDependencies = packageJson.devDependencies || {};
@@ -35,91 +43,90 @@ function addDependencyToPackageJson(outDir: string, packageName: string, version
     packageJson.dependencies[packageName] = version;
   }
   
-  fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2));
+  vfs.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
 }
 
 // Re-export generateDockerFiles function
 export { generateDockerFiles } from './docker';
 
-function generateMigrations(app: IApp, outDir: string, verbose: boolean = false) {
-  if (!app.views || app.views.length === 0) {
-    return;
-  }
-
-  const migrationsDir = path.join(outDir, 'prisma/migrations');
-  fs.mkdirSync(migrationsDir, { recursive: true });
-
-  for (const view of app.views) {
-    const timestamp = new Date().toISOString().replace(/[-:.]/g, '').slice(0, 14);
-    const migrationDirName = `${timestamp}_create_view_${view.name.toLowerCase()}`;
-    const migrationDir = path.join(migrationsDir, migrationDirName);
-    fs.mkdirSync(migrationDir, { recursive: true });
+// Migration planning, used by the CLI before it runs Prisma Migrate
+export { MigrationOperation, MigrationOperationKind, MigrationPlan, planMigration, renderViewMigration } from './migrations';
 
-    const fields = view.fields.map((f: IRViewField) => `  ${f.expression} as ${f.name}`).join(',\n');
-    const sql = `CREATE VIEW "${view.name}" AS\nSELECT\n${fields}\nFROM "${view.from}";`;
-
-    fs.writeFileSync(path.join(migrationDir, 'migration.sql'), sql);
-    if (verbose) console.log(`Generated migration for view ${view.name}`);
-  }
-}
+/**
+ * Generates the NestJS backend
+ * @param app - The entire application IR
+ * @param outDir - The backend output directory
+ * @param verbose - Enable verbose logging
+ * @param options - Where to write the files and which templates shadow the built-in ones
+ */
+export async function generateBackend(app: IApp, outDir: string, verbose: boolean = false, options: GeneratorOptions = {}) {
+  const vfs = options.vfs ?? diskFileSystem;
+  const templates = loadTemplates(options.templates);
 
-export async function generateBackend(app: IApp, outDir: string, verbose: boolean = false) {
   // Get database type from app config or default to sqlite
   const dbType = app.config?.db === 'postgresql' ? 'postgresql' : 'sqlite';
   
   // Generate Prisma schema
   const prismaSchema = generatePrismaSchema(app, dbType as 'sqlite' | 'postgresql');
-  fs.mkdirSync(path.join(outDir, 'prisma'), { recursive: true });
-  fs.writeFileSync(path.join(outDir, 'prisma/schema.prisma'), prismaSchema);
-
-  // Generate migrations
-  generateMigrations(app, outDir, verbose);
+  vfs.mkdir(path.join(outDir, 'prisma'));
+  vfs.writeFile(path.join(outDir, 'prisma/schema.prisma'), prismaSchema);
 
   // Generate NestJS modules, controllers, services
-  const templatesDir = path.join(__dirname, '..', 'templates');
   const entities = app.entities;
   const authProvider = app.config?.auth?.provider;
   const sentryDsn = app.config?.integrations?.monitoring?.dsn;
-  const rbac = !!(app.pages && app.pages.some((p: IRPage) => p.permissions));
-  // Build permissions map for controllers
-  const permissions: Record<string, Record<string, string[]>> = {};
-  if (app.pages) {
-    for (const page of app.pages) {
-      if (page.permissions && page.entity) {
-        permissions[page.entity] = permissions[page.entity] || {};
-        // Map page type to CRUD
-        if (page.type === 'table' || page.type === 'details') permissions[page.entity].find = page.permissions;
-        if (page.type === 'form') permissions[page.entity].create = page.permissions;
-      }
-    }
-  }
-  const moduleTemplate = fs.readFileSync(path.join(templatesDir, 'module.ejs'), 'utf-8');
-  const controllerTemplate = fs.readFileSync(path.join(templatesDir, 'controller.ejs'), 'utf-8');
-  const serviceTemplate = fs.readFileSync(path.join(templatesDir, 'service.ejs'), 'utf-8');
-  const rbacGuardTemplate = fs.readFileSync(path.join(templatesDir, 'rbac.guard.ejs'), 'utf-8');
-
-  fs.mkdirSync(path.join(outDir, 'src'), { recursive: true });
+  const rbac = !!(app.pages && app.pages.some((p: IRPage) => p.permissions)) || entities.some(entity => entity.access);
+  const workflows = app.workflows ?? [];
+  const enums = app.config?.enums ?? {};
+  const emitEvents = workflows.length > 0;
+  const moduleTemplate = templates.read('module.ejs');
+  const controllerTemplate = templates.read('controller.ejs');
+  const serviceTemplate = templates.read('service.ejs');
+  const rbacGuardTemplate = templates.read('rbac.guard.ejs');
+
+  vfs.mkdir(path.join(outDir, 'src'));
+  generateListQuery(outDir, verbose, vfs, templates);
+  generateAccess(outDir, verbose, vfs, templates);
+  generateTenancy(app, outDir, verbose, vfs, templates);
+  generateAudit(app, outDir, verbose, vfs, templates);
 
   for (const entity of entities) {
     const entityDir = path.join(outDir, 'src', entity.name.toLowerCase());
-    fs.mkdirSync(entityDir, { recursive: true });
+    vfs.mkdir(entityDir);
 
     const moduleContent = ejs.render(moduleTemplate, { entity });
-    fs.writeFileSync(
+    vfs.writeFile(
       path.join(entityDir, `${entity.name.toLowerCase()}.module.ts`),
       moduleContent
     );
     if (verbose) console.log(`Generated ${entity.name.toLowerCase()}.module.ts`);
 
-    const controllerContent = ejs.render(controllerTemplate, { entity, rbac, permissions, authProvider });
-    fs.writeFileSync(
+    generateDtos(app, entity, entityDir, verbose, vfs, templates);
+
+    const access = buildAccessRules(app, entity);
+    const ownTenant = app.config?.tenancy?.tenantEntity === entity.name;
+    const controllerContent = ejs.render(controllerTemplate, {
+      entity, rbac, access, authProvider, ownTenant,
+      tenantKey: ownTenant ? entity.fields.find(field => field.primaryKey)?.name : isTenantScoped(app, entity) ? tenantKey(app, entity) : undefined,
+    });
+    vfs.writeFile(
       path.join(entityDir, `${entity.name.toLowerCase()}.controller.ts`),
       controllerContent
     );
     if (verbose) console.log(`Generated ${entity.name.toLowerCase()}.controller.ts`);
 
-    const serviceContent = ejs.render(serviceTemplate, { entity });
-    fs.writeFileSync(
+    // SQLite stores enum fields as strings, so the service checks their values
+    const enumFields = dbType === 'sqlite'
+      ? entity.fields.filter(f => enums[f.type]).map(f => ({ name: f.name, values: enums[f.type] }))
+      : [];
+    const serviceContent = ejs.render(serviceTemplate, {
+      entity,
+      emitEvents,
+      enumFields,
+      listFields: buildListFields(app, entity),
+      redacted: entity.audited ? redactedFields(entity) : [],
+    });
+    vfs.writeFile(
       path.join(entityDir, `${entity.name.toLowerCase()}.service.ts`),
       serviceContent
     );
@@ -132,8 +139,9 @@ export async function generateBackend(app: IApp, outDir: string, verbose: boolea
       if (resolverFile) {
         const resolverPath = path.join(entityDir, resolverFile);
 
-        if (!fs.existsSync(resolverPath)) {
-          let resolverContent = `// This file is safe to edit. Once generated, it will not be overwritten.\n\n`;
+        // Marked as user-owned, so regenerating through a staging file system does not overwrite it either
+        if (!vfs.exists(resolverPath)) {
+          let resolverContent = `// ${USER_OWNED_MARKER} This file is safe to edit. Once generated, it will not be overwritten.\n\n`;
           resolverContent += `import { ${entity.name} } from '@prisma/client';\n\n`;
 
           for (const field of virtualFields) {
@@ -146,7 +154,7 @@ export async function generateBackend(app: IApp, outDir: string, verbose: boolea
             }
           }
 
-          fs.writeFileSync(resolverPath, resolverContent);
+          vfs.writeFile(resolverPath, resolverContent);
           if (verbose) console.log(`Generated ${resolverFile}`);
         }
       }
@@ -155,86 +163,57 @@ export async function generateBackend(app: IApp, outDir: string, verbose: boolea
   
   // Generate auth services
   if (rbac) {
-    fs.writeFileSync(
+    vfs.writeFile(
       path.join(outDir, 'src/rbac.guard.ts'), 
       ejs.render(rbacGuardTemplate, { authProvider })
     );
     if (verbose) console.log('Generated rbac.guard.ts');
-
-    const authModuleDir = path.join(outDir, 'src/auth');
-    fs.mkdirSync(authModuleDir, { recursive: true });
-
-    const authModuleTemplate = fs.readFileSync(path.join(templatesDir, 'auth/auth.module.ejs'), 'utf-8');
-    fs.writeFileSync(
-      path.join(authModuleDir, 'auth.module.ts'),
-      ejs.render(authModuleTemplate, { authProvider })
-    );
-    if (verbose) console.log('Generated auth.module.ts');
-
-    if (authProvider === 'jwt') {
-      const jwtAuthTemplate = fs.readFileSync(path.join(templatesDir, 'auth-jwt.ts.ejs'), 'utf-8');
-      fs.writeFileSync(
-        path.join(authModuleDir, 'jwt.strategy.ts'),
-        ejs.render(jwtAuthTemplate)
-      );
-      if (verbose) console.log('Generated jwt.strategy.ts');
-    } else if (authProvider === 'clerk') {
-      const clerkAuthTemplate = fs.readFileSync(path.join(templatesDir, 'auth-clerk.ts.ejs'), 'utf-8');
-      fs.writeFileSync(
-        path.join(authModuleDir, 'clerk.strategy.ts'),
-        ejs.render(clerkAuthTemplate)
-      );
-      if (verbose) console.log('Generated clerk.strategy.ts');
-    } else if (authProvider === 'auth0') {
-      const auth0AuthTemplate = fs.readFileSync(path.join(templatesDir, 'auth-auth0.ts.ejs'), 'utf-8');
-      fs.writeFileSync(
-        path.join(authModuleDir, 'auth0.strategy.ts'),
-        ejs.render(auth0AuthTemplate)
-      );
-      if (verbose) console.log('Generated auth0.strategy.ts');
-    }
   }
+  generateAuth(app, outDir, verbose, vfs, templates);
 
   // Generate main app module, controller, service
-  const appModuleTemplate = fs.readFileSync(path.join(templatesDir, 'app.module.ejs'), 'utf-8');
-  fs.writeFileSync(
+  const appModuleTemplate = templates.read('app.module.ejs');
+  vfs.writeFile(
     path.join(outDir, 'src/app.module.ts'),
-    ejs.render(appModuleTemplate, { entities, authProvider, rbac, sentryDsn })
+    ejs.render(appModuleTemplate, { entities, authProvider, rbac, sentryDsn, workflows })
   );
   if (verbose) console.log('Generated app.module.ts');
 
-  const appControllerTemplate = fs.readFileSync(path.join(templatesDir, 'app.controller.ejs'), 'utf-8');
-  fs.writeFileSync(
+  // Generate workflow runtime and handlers
+  generateWorkflows(app, outDir, verbose, vfs, templates);
+
+  const appControllerTemplate = templates.read('app.controller.ejs');
+  vfs.writeFile(
     path.join(outDir, 'src/app.controller.ts'),
     ejs.render(appControllerTemplate)
   );
   if (verbose) console.log('Generated app.controller.ts');
 
-  const appServiceTemplate = fs.readFileSync(path.join(templatesDir, 'app.service.ejs'), 'utf-8');
-  fs.writeFileSync(
+  const appServiceTemplate = templates.read('app.service.ejs');
+  vfs.writeFile(
     path.join(outDir, 'src/app.service.ts'),
     ejs.render(appServiceTemplate)
   );
   if (verbose) console.log('Generated app.service.ts');
 
   // Generate main.ts
-  const mainTemplate = fs.readFileSync(path.join(templatesDir, 'main.ts.ejs'), 'utf-8');
-  fs.writeFileSync(
+  const mainTemplate = templates.read('main.ts.ejs');
+  vfs.writeFile(
     path.join(outDir, 'src/main.ts'),
-    ejs.render(mainTemplate, { sentryDsn })
+    ejs.render(mainTemplate, { sentryDsn, backendPort: app.config?.ports?.backend ?? 4000 })
   );
   if (verbose) console.log('Generated main.ts');
 
   // Generate Prisma module and service
-  const prismaModuleTemplate = fs.readFileSync(path.join(templatesDir, 'prisma.module.ejs'), 'utf-8');
-  fs.writeFileSync(
+  const prismaModuleTemplate = templates.read('prisma.module.ejs');
+  vfs.writeFile(
     path.join(outDir, 'src/prisma.module.ts'),
     ejs.render(prismaModuleTemplate)
   );
   if (verbose) console.log('Generated prisma.module.ts');
 
-  const prismaServiceTemplate = fs.readFileSync(path.join(templatesDir, 'prisma.service.ejs'), 'utf-8');
-  fs.writeFileSync(
+  const prismaServiceTemplate = templates.read('prisma.service.ejs');
+  vfs.writeFile(
     path.join(outDir, 'src/prisma.service.ts'),
     ejs.render(prismaServiceTemplate)
   );
@@ -260,7 +239,9 @@ export async function generateBackend(app: IApp, outDir: string, verbose: boolea
       "@nestjs/platform-express": "^9.0.0",
       "reflect-metadata": "^0.1.13",
       "rxjs": "^7.2.0",
-      "@prisma/client": "4.15.0"
+      "@prisma/client": "4.15.0",
+      "class-validator": "^0.14.0",
+      "class-transformer": "^0.5.1"
     },
     "devDependencies": {
       "@nestjs/testing": "^9.0.0",
@@ -293,31 +274,42 @@ export async function generateBackend(app: IApp, outDir: string, verbose: boolea
       "testEnvironment": "node"
     }
   };
-  fs.writeFileSync(path.join(outDir, 'package.json'), JSON.stringify(packageJsonTemplate, null, 2));
+  vfs.writeFile(path.join(outDir, 'package.json'), JSON.stringify(packageJsonTemplate, null, 2));
   if (verbose) console.log('Generated package.json');
 
   // Add auth dependencies
   if (authProvider === 'jwt') {
-    addDependencyToPackageJson(outDir, '@nestjs/jwt', '^9.0.0');
-    addDependencyToPackageJson(outDir, '@nestjs/passport', '^9.0.0');
-    addDependencyToPackageJson(outDir, 'passport', '^0.6.0');
-    addDependencyToPackageJson(outDir, 'passport-jwt', '^4.0.0');
-    addDependencyToPackageJson(outDir, '@types/passport-jwt', '^3.0.6', true);
+    addDependencyToPackageJson(outDir, '@nestjs/jwt', '^9.0.0', false, vfs);
+    addDependencyToPackageJson(outDir, '@nestjs/passport', '^9.0.0', false, vfs);
+    addDependencyToPackageJson(outDir, 'passport', '^0.6.0', false, vfs);
+    addDependencyToPackageJson(outDir, 'passport-jwt', '^4.0.0', false, vfs);
+    addDependencyToPackageJson(outDir, '@types/passport-jwt', '^3.0.6', true, vfs);
   } else if (authProvider === 'clerk') {
-    addDependencyToPackageJson(outDir, '@clerk/clerk-sdk-node', '^4.0.0');
+    addDependencyToPackageJson(outDir, '@clerk/clerk-sdk-node', '^4.0.0', false, vfs);
   } else if (authProvider === 'auth0') {
-    addDependencyToPackageJson(outDir, 'passport-auth0', '^1.4.2');
-    addDependencyToPackageJson(outDir, '@types/passport-auth0', '^1.0.5', true);
+    addDependencyToPackageJson(outDir, 'passport-auth0', '^1.4.2', false, vfs);
+    addDependencyToPackageJson(outDir, '@types/passport-auth0', '^1.0.5', true, vfs);
+  }
+
+  // Passwords are hashed with bcrypt
+  if (authProvider === 'jwt' || entities.some(entity => entity.fields.some(field => field.isPassword))) {
+    addDependencyToPackageJson(outDir, 'bcrypt', '^5.1.0', false, vfs);
+    addDependencyToPackageJson(outDir, '@types/bcrypt', '^5.0.0', true, vfs);
   }
 
   // Add Sentry dependency
   if (sentryDsn) {
-    addDependencyToPackageJson(outDir, '@sentry/node', '^7.0.0');
-    addDependencyToPackageJson(outDir, '@sentry/tracing', '^7.0.0');
+    addDependencyToPackageJson(outDir, '@sentry/node', '^7.0.0', false, vfs);
+    addDependencyToPackageJson(outDir, '@sentry/tracing', '^7.0.0', false, vfs);
+  }
+
+  // Add workflow event dependency
+  if (emitEvents) {
+    addDependencyToPackageJson(outDir, '@nestjs/event-emitter', '^1.4.2', false, vfs);
   }
 
   // Add Prisma dev dependency
-  addDependencyToPackageJson(outDir, 'prisma', '4.15.0', true);
+  addDependencyToPackageJson(outDir, 'prisma', '4.15.0', true, vfs);
 
   // Generate tsconfig.json
   const tsconfigTemplate = {
@@ -343,6 +335,6 @@ export async function generateBackend(app: IApp, outDir: string, verbose: boolea
       "useDefineForClassFields": false
     }
   };
-  fs.writeFileSync(path.join(outDir, 'tsconfig.json'), JSON.stringify(tsconfigTemplate, null, 2));
+  vfs.writeFile(path.join(outDir, 'tsconfig.json'), JSON.stringify(tsconfigTemplate, null, 2));
   if (verbose) console.log('Generated tsconfig.json');
 }
@@ -0,0 +1,35 @@
+import { IApp } from '@stalmer1/core';
+
+// The email integration as the generated code uses it; values are TypeScript expressions
+export interface EmailIntegration {
+  provider: string;
+  apiKey: string;
+  defaultFrom: string;
+}
+
+/**
+ * Converts a DSL config value into a TypeScript expression, mapping `env(NAME)` to `process.env.NAME`
+ * @param value - The value from the DSL
+ * @returns A TypeScript expression for the value
+ */
+function toExpression(value: string | undefined): string {
+  const envMatch = value?.match(/^env\((\w+)\)$/);
+  if (envMatch) {
+    return `process.env.${envMatch[1]}`;
+  }
+  return JSON.stringify(value ?? '');
+}
+
+/**
+ * Builds the email integration from `config integrations`
+ * @param app - The entire application IR
+ * @returns The integration, or undefined if none is configured
+ */
+export function buildEmailIntegration(app: IApp): EmailIntegration | undefined {
+  const emailConfig = app.config?.integrations?.email;
+  return emailConfig && {
+    provider: emailConfig.provider,
+    apiKey: toExpression(emailConfig.apiKey),
+    defaultFrom: toExpression(emailConfig.defaultFrom ?? 'noreply@example.com'),
+  };
+}
@@ -0,0 +1,87 @@
+import * as ejs from 'ejs';
+import * as path from 'path';
+import { IApp, IREntity, IRField, TemplateLoader, VirtualFileSystem, diskFileSystem, foreignKeyName, ownsForeignKey } from '@stalmer1/core';
+import { loadTemplates } from './templates';
+
+export type ListFieldKind = 'string' | 'number' | 'date' | 'boolean' | 'enum';
+
+export interface ListField {
+  kind: ListFieldKind;
+  values?: string[]; // allowed values of an enum field
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Maps a field to the kind of filter it supports
+ * @param field - The IR field
+ * @param enums - The enums defined in the DSL
+ * @returns The filter description, or undefined if the field cannot be filtered or sorted
+ */
+function describeListField(field: IRField, enums: Record<string, string[]>): ListField | undefined {
+  if (enums[field.type]) return { kind: 'enum', values: enums[field.type] };
+
+  switch (field.type.toLowerCase()) {
+    case 'int':
+    case 'float':
+    case 'decimal':
+      return { kind: 'number' };
+    case 'datetime':
+    case 'date':
+      return { kind: 'date' };
+    case 'boolean':
+      return { kind: 'boolean' };
+    case 'json':
+      return undefined;
+    default:
+      return { kind: 'string' };
+  }
+}
+
+/**
+ * Builds the fields a list endpoint can be filtered and sorted by. Password, virtual and
+ * Json fields are left out; relations that own a foreign key contribute the key column.
+ * @param app - The entire application IR
+ * @param entity - The IR entity
+ * @returns The filterable fields by name
+ */
+export function buildListFields(app: IApp, entity: IREntity): Record<string, ListField> {
+  const enums = app.config?.enums ?? {};
+  const fields: Record<string, ListField> = {};
+
+  for (const field of entity.fields) {
+    if (field.isPassword || field.isVirtual) continue;
+    const listField = describeListField(field, enums);
+    if (listField) fields[field.name] = listField;
+  }
+
+  for (const relation of entity.relations ?? []) {
+    const foreignKey = foreignKeyName(relation);
+    if (!ownsForeignKey(app.entities, entity, relation) || fields[foreignKey]) continue;
+
+    const targetKey = app.entities.find(e => e.name === relation.target)?.fields.find(f => f.primaryKey);
+    fields[foreignKey] = describeListField(targetKey ?? { name: foreignKey, type: 'UUID' }, enums) as ListField;
+  }
+
+  return fields;
+}
+
+/**
+ * Generates the shared query parser used by the list endpoints
+ * @param outDir - The output directory
+ * @param verbose - Enable verbose logging
+ * @param vfs - The file system to write to
+ * @param templates - The template loader
+ */
+export function generateListQuery(outDir: string, verbose: boolean = false, vfs: VirtualFileSystem = diskFileSystem, templates: TemplateLoader = loadTemplates()): void {
+  const template = templates.read('list-query.ejs');
+  const commonDir = path.join(outDir, 'src', 'common');
+  vfs.mkdir(commonDir);
+
+  vfs.writeFile(
+    path.join(commonDir, 'list-query.ts'),
+    ejs.render(template, { defaultPageSize: DEFAULT_PAGE_SIZE, maxPageSize: MAX_PAGE_SIZE })
+  );
+  if (verbose) console.log('Generated common/list-query.ts');
+}
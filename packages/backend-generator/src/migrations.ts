@@ -0,0 +1,372 @@
+// Plans database migrations by comparing the IR the database was last migrated to with the new one
+import {
+  AUDIT_LOG_MODEL,
+  IApp,
+  IREntity,
+  IRField,
+  IRRelation,
+  IRView,
+  SOFT_DELETE_FIELD,
+  authUser,
+  hasAuditLog,
+  ownsForeignKey,
+} from '@stalmer1/core';
+import { withTenantKey } from './prisma';
+
+export type MigrationOperationKind =
+  | 'add_entity'
+  | 'drop_entity'
+  | 'rename_entity'
+  | 'add_field'
+  | 'drop_field'
+  | 'alter_field'
+  | 'add_relation'
+  | 'drop_relation'
+  | 'add_unique'
+  | 'drop_unique'
+  | 'add_index'
+  | 'drop_index'
+  | 'alter_enum'
+  | 'add_view'
+  | 'drop_view'
+  | 'alter_view';
+
+export interface MigrationOperation {
+  kind: MigrationOperationKind;
+  name: string; // e.g. add_field_user_phone
+  description: string;
+  destructive?: string; // why the operation can lose data or fail on existing rows
+}
+
+export interface MigrationPlan {
+  name: string; // the migration name, or an empty string if nothing changed
+  operations: MigrationOperation[];
+  views: IRView[]; // views to create or recreate
+  droppedViews: string[];
+}
+
+// Type changes that keep every existing value; any other change narrows the column
+const WIDENINGS: Record<string, string[]> = {
+  int: ['float', 'decimal', 'string'],
+  float: ['string'],
+  decimal: ['string'],
+  boolean: ['string'],
+  datetime: ['string'],
+  uuid: ['string'],
+  enum: ['string'],
+};
+
+/**
+ * Turns a name into a migration name segment, e.g. `createdAt` into `created_at`
+ * @param name - An entity, field or view name
+ * @returns The snake-cased name
+ */
+function slug(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+function operation(kind: MigrationOperationKind, names: string[], description: string, destructive?: string): MigrationOperation {
+  return {
+    kind,
+    name: [kind, ...names.map(slug)].join('_'),
+    description,
+    ...(destructive ? { destructive } : {}),
+  };
+}
+
+function byName<T extends { name: string }>(items: T[] | undefined): Map<string, T> {
+  return new Map((items ?? []).map(item => [item.name, item]));
+}
+
+function columnType(field: IRField, enums: Record<string, string[]>): string {
+  if (enums[field.type]) return 'enum';
+  const type = field.type.toLowerCase();
+  return type === 'text' || type === 'password' ? 'string' : type;
+}
+
+/**
+ * Tells why changing a column from one field definition to another loses data, if it does
+ * @param before - The previous field
+ * @param after - The new field
+ * @param enums - The enums of the new IR
+ * @param previousEnums - The enums of the previous IR
+ * @returns The reason, or undefined if every existing value is kept
+ */
+function narrowing(before: IRField, after: IRField, enums: Record<string, string[]>, previousEnums: Record<string, string[]>): string | undefined {
+  const from = columnType(before, previousEnums);
+  const to = columnType(after, enums);
+  if (from !== to && !(WIDENINGS[from] ?? []).includes(to)) {
+    return `changes type from ${before.type} to ${after.type}`;
+  }
+  if (from === 'enum' && to === 'enum') {
+    const removed = (previousEnums[before.type] ?? []).filter(value => !(enums[after.type] ?? []).includes(value));
+    if (removed.length > 0) return `no longer allows ${removed.join(', ')}`;
+  }
+  if (from === 'datetime' && to === 'datetime' && !before.isDateOnly && after.isDateOnly) {
+    return 'drops the time of day';
+  }
+  if (before.optional && !after.optional && after.default === undefined) {
+    return 'becomes required without a default';
+  }
+  return undefined;
+}
+
+function sameField(before: IRField, after: IRField): boolean {
+  const columnKeys: (keyof IRField)[] = [
+    'type', 'optional', 'unique', 'default', 'primaryKey', 'isLongText', 'isDecimal', 'isDateOnly', 'dbName',
+  ];
+  return columnKeys.every(key => before[key] === after[key]);
+}
+
+function diffFields(previous: IREntity, next: IREntity, app: IApp, previousApp: IApp): MigrationOperation[] {
+  const operations: MigrationOperation[] = [];
+  const enums = app.config?.enums ?? {};
+  const previousEnums = previousApp.config?.enums ?? {};
+  const before = byName(previous.fields);
+  const after = byName(next.fields);
+
+  for (const field of next.fields) {
+    const old = before.get(field.name);
+    if (!old) {
+      const destructive = !field.optional && field.default === undefined && !field.primaryKey
+        ? 'adds a required column without a default, which fails if the table has rows'
+        : undefined;
+      operations.push(operation('add_field', [next.name, field.name], `Add field ${next.name}.${field.name}`, destructive));
+    } else if (!sameField(old, field)) {
+      operations.push(operation('alter_field', [next.name, field.name], `Change field ${next.name}.${field.name}`, narrowing(old, field, enums, previousEnums)));
+    }
+  }
+  for (const field of previous.fields) {
+    if (!after.has(field.name)) {
+      operations.push(operation('drop_field', [next.name, field.name], `Drop field ${next.name}.${field.name}`, 'drops the column and its data'));
+    }
+  }
+  return operations;
+}
+
+function relationKey(relation: IRRelation): string {
+  return `${relation.field}:${relation.type}:${relation.target}`;
+}
+
+function diffRelations(previous: IREntity, next: IREntity, app: IApp, previousApp: IApp): MigrationOperation[] {
+  const operations: MigrationOperation[] = [];
+  const before = new Map((previous.relations ?? []).map(relation => [relationKey(relation), relation]));
+  const after = new Map((next.relations ?? []).map(relation => [relationKey(relation), relation]));
+
+  for (const [key, relation] of after) {
+    if (before.has(key)) continue;
+    // A required to-one relation adds a foreign key column that existing rows cannot fill
+    const destructive = ownsForeignKey(app.entities, next, relation) && !relation.optional
+      ? 'adds a required foreign key, which fails if the table has rows'
+      : undefined;
+    operations.push(operation('add_relation', [next.name, relation.field], `Add relation ${next.name}.${relation.field}`, destructive));
+  }
+  for (const [key, relation] of before) {
+    if (after.has(key)) continue;
+    const stored = ownsForeignKey(previousApp.entities, previous, relation) || relation.type === 'many-to-many';
+    operations.push(operation(
+      'drop_relation',
+      [next.name, relation.field],
+      `Drop relation ${next.name}.${relation.field}`,
+      stored ? 'drops the stored links' : undefined,
+    ));
+  }
+  return operations;
+}
+
+function diffConstraints(previous: IREntity, next: IREntity): MigrationOperation[] {
+  const operations: MigrationOperation[] = [];
+  const pairs = [
+    ['unique', previous.uniques, next.uniques],
+    ['index', previous.indexes, next.indexes],
+  ] as const;
+
+  for (const [kind, before = [], after = []] of pairs) {
+    const beforeKeys = new Set(before.map(fields => fields.join(',')));
+    const afterKeys = new Set(after.map(fields => fields.join(',')));
+    for (const fields of after) {
+      if (beforeKeys.has(fields.join(','))) continue;
+      operations.push(operation(`add_${kind}`, [next.name, ...fields], `Add ${kind} on ${next.name}(${fields.join(', ')})`));
+    }
+    for (const fields of before) {
+      if (afterKeys.has(fields.join(','))) continue;
+      operations.push(operation(`drop_${kind}`, [next.name, ...fields], `Drop ${kind} on ${next.name}(${fields.join(', ')})`));
+    }
+  }
+  return operations;
+}
+
+function diffEnums(previousApp: IApp, app: IApp): MigrationOperation[] {
+  const operations: MigrationOperation[] = [];
+  const before = previousApp.config?.enums ?? {};
+  const after = app.config?.enums ?? {};
+
+  for (const [name, values] of Object.entries(after)) {
+    const old = before[name];
+    if (!old || old.join(',') === values.join(',')) continue;
+    const removed = old.filter(value => !values.includes(value));
+    operations.push(operation(
+      'alter_enum',
+      [name],
+      `Change enum ${name}`,
+      removed.length > 0 ? `removes ${removed.join(', ')}` : undefined,
+    ));
+  }
+  return operations;
+}
+
+function sameView(before: IRView, after: IRView, previousApp: IApp, app: IApp): boolean {
+  const table = (ir: IApp, view: IRView) => ir.entities.find(e => e.name === view.from)?.dbName ?? view.from;
+  return before.from === after.from
+    && table(previousApp, before) === table(app, after)
+    && JSON.stringify(before.fields) === JSON.stringify(after.fields);
+}
+
+/**
+ * The entities the generated Prisma schema stores for an IR: the DSL entities with the columns
+ * the generator adds to them, and the models it adds on its own. These mirror prisma.ts, so that
+ * turning on tenancy, @@softDelete, @@audited or jwt auth is migrated like a change to the DSL.
+ * @param app - The entire application IR
+ * @returns The stored entities
+ */
+function storedEntities(app: IApp): IREntity[] {
+  const entities = app.entities.map(entity => {
+    const stored = withTenantKey(app, entity);
+    if (!entity.softDelete) return stored;
+    return { ...stored, fields: [...stored.fields, { name: SOFT_DELETE_FIELD, type: 'DateTime', optional: true }] };
+  });
+  const field = (name: string, type: string, extra: Partial<IRField> = {}): IRField => ({ name, type, ...extra });
+
+  if (hasAuditLog(app)) {
+    entities.push({
+      name: AUDIT_LOG_MODEL,
+      fields: [
+        field('id', 'String', { primaryKey: true, default: 'uuid()' }),
+        field('entity', 'String'),
+        field('entityId', 'String'),
+        field('action', 'String'),
+        field('actorId', 'String', { optional: true }),
+        field('changes', 'String'),
+        field('createdAt', 'DateTime', { default: 'now()' }),
+      ],
+      indexes: [['entity', 'entityId']],
+    });
+  }
+
+  const user = authUser(app);
+  if (app.config?.auth?.provider === 'jwt' && user) {
+    for (const [model, used] of [['RefreshToken', 'revokedAt'], ['PasswordResetToken', 'usedAt']]) {
+      entities.push({
+        name: model,
+        fields: [
+          field('id', 'String', { primaryKey: true, default: 'uuid()' }),
+          field('tokenHash', 'String', { unique: true }),
+          field('expiresAt', 'DateTime'),
+          field(used, 'DateTime', { optional: true }),
+          ...(model === 'RefreshToken' ? [field('replacedById', 'String', { optional: true })] : []),
+          field('createdAt', 'DateTime', { default: 'now()' }),
+        ],
+        relations: [{ type: 'many-to-one', target: user.entity.name, field: 'user', relationName: `${user.entity.name}${model}s` }],
+        indexes: [['userId']],
+      });
+    }
+  }
+  return entities;
+}
+
+/**
+ * Builds a migration name from its operations
+ * @param operations - The operations
+ * @returns The name of the only operation, of the first two joined by `and`, or of the first
+ *   followed by how many more there are
+ */
+function migrationName(operations: MigrationOperation[]): string {
+  if (operations.length <= 2) return operations.map(op => op.name).join('_and_');
+  return `${operations[0].name}_and_${operations.length - 1}_more`;
+}
+
+/**
+ * Compares the IR the database was last migrated to with a new one, and lists the changes
+ * the migration has to make. Operations that can lose data or fail on existing rows are
+ * marked as destructive. Renames cannot be told apart from a drop and an add. The columns and
+ * models the generator adds, such as tenant keys and the audit log, are compared too.
+ * @param previousApp - The IR the database was last migrated to, or undefined for a new database
+ * @param nextApp - The new IR
+ * @returns The migration plan
+ */
+export function planMigration(previousApp: IApp | undefined, nextApp: IApp): MigrationPlan {
+  const app = { ...nextApp, entities: storedEntities(nextApp) };
+  if (!previousApp) {
+    return {
+      name: 'initial',
+      operations: app.entities.map(entity => operation('add_entity', [entity.name], `Create entity ${entity.name}`))
+        .concat((app.views ?? []).map(view => operation('add_view', [view.name], `Create view ${view.name}`))),
+      views: app.views ?? [],
+      droppedViews: [],
+    };
+  }
+
+  const previous = { ...previousApp, entities: storedEntities(previousApp) };
+  const operations: MigrationOperation[] = [];
+  const before = byName(previous.entities);
+  const after = byName(app.entities);
+
+  for (const entity of app.entities) {
+    const old = before.get(entity.name);
+    if (!old) {
+      operations.push(operation('add_entity', [entity.name], `Create entity ${entity.name}`));
+      continue;
+    }
+    if ((old.dbName ?? old.name) !== (entity.dbName ?? entity.name)) {
+      operations.push(operation('rename_entity', [entity.name], `Move ${entity.name} to table ${entity.dbName ?? entity.name}`, 'recreates the table without its data'));
+    }
+    operations.push(
+      ...diffFields(old, entity, app, previous),
+      ...diffRelations(old, entity, app, previous),
+      ...diffConstraints(old, entity),
+    );
+  }
+  for (const entity of previous.entities) {
+    if (!after.has(entity.name)) {
+      operations.push(operation('drop_entity', [entity.name], `Drop entity ${entity.name}`, 'drops the table and its data'));
+    }
+  }
+  operations.push(...diffEnums(previous, app));
+
+  const previousViews = byName(previous.views);
+  const nextViews = byName(app.views);
+  const views: IRView[] = [];
+  for (const view of app.views ?? []) {
+    const old = previousViews.get(view.name);
+    if (old && sameView(old, view, previous, app)) continue;
+    views.push(view);
+    operations.push(old
+      ? operation('alter_view', [view.name], `Change view ${view.name}`)
+      : operation('add_view', [view.name], `Create view ${view.name}`));
+  }
+  const droppedViews = (previous.views ?? []).filter(view => !nextViews.has(view.name)).map(view => view.name);
+  operations.push(...droppedViews.map(name => operation('drop_view', [name], `Drop view ${name}`)));
+
+  return { name: migrationName(operations), operations, views, droppedViews };
+}
+
+/**
+ * Renders the SQL that creates, recreates or drops the views of a migration plan. Prisma does
+ * not manage views, so this is appended to the migration Prisma creates for the schema.
+ * @param plan - The migration plan
+ * @param app - The new IR
+ * @returns The SQL statements, or an empty string if no view changed
+ */
+export function renderViewMigration(plan: MigrationPlan, app: IApp): string {
+  const statements: string[] = [];
+  for (const name of plan.droppedViews) {
+    statements.push(`DROP VIEW IF EXISTS "${name}";`);
+  }
+  for (const view of plan.views) {
+    const fields = view.fields.map(f => `  ${f.expression} as ${f.name}`).join(',\n');
+    const table = app.entities.find(e => e.name === view.from)?.dbName ?? view.from;
+    statements.push(`DROP VIEW IF EXISTS "${view.name}";`);
+    statements.push(`CREATE VIEW "${view.name}" AS\nSELECT\n${fields}\nFROM "${table}";`);
+  }
+  return statements.join('\n\n');
+}
@@ -1,5 +1,25 @@
 // Generates a Prisma schema from IREntity[]
-import { IApp, IREntity, IRField, IRRelation } from '@stalmer1/core';
+import {
+  AUDIT_LOG_MODEL,
+  IApp,
+  authUser,
+  IREntity,
+  IRField,
+  IRRelation,
+  SOFT_DELETE_FIELD,
+  findInverseRelation,
+  foreignKeyName,
+  hasAuditLog,
+  isListRelation,
+  isTenantScoped,
+  ownsForeignKey,
+  tenantRelation,
+} from '@stalmer1/core';
+
+interface RelationLines {
+  fields: string[];
+  indexes: string[];
+}
 
 /**
  * Generates a Prisma schema from the entities defined in the DSL
@@ -8,7 +28,9 @@ import { IApp, IREntity, IRField, IRRelation } from '@stalmer1/core';
  * @returns A string containing the Prisma schema
  */
 export function generatePrismaSchema(app: IApp, dbType: 'sqlite' | 'postgresql' = 'sqlite'): string {
-  const { entities, views } = app;
+  const { views } = app;
+  const entities = app.entities.map(entity => withTenantKey(app, entity));
+  const enums = app.config?.enums ?? {};
   // Generate the Prisma schema header
   let schema = `// This file is generated - DO NOT EDIT\n\n`;
   
@@ -26,28 +48,52 @@ export function generatePrismaSchema(app: IApp, dbType: 'sqlite' | 'postgresql'
   }
   schema += `}\n\n`;
   
-  // Generate enums
-  // TODO: Implement enum handling from IR
+  // Generate enums. SQLite has no enum support, so there enum fields are stored as
+  // strings and the generated services check their values instead.
+  if (dbType !== 'sqlite') {
+    for (const [name, values] of Object.entries(enums)) {
+      schema += `enum ${name} {\n`;
+      for (const value of values) {
+        schema += `  ${value}\n`;
+      }
+      schema += `}\n\n`;
+    }
+  }
   
+  // Relations declared on one side only still need a field on the other side in Prisma
+  const backRelations = generateBackRelations(entities, dbType);
+  const authModels = generateAuthModels(app, dbType, backRelations);
+
   // Generate models from entities
   for (const entity of entities) {
     schema += `model ${entity.name} {\n`;
     
     // Process regular fields
     for (const field of entity.fields || []) {
-      schema += `  ${generateFieldDefinition(field)}\n`;
+      schema += `  ${generateFieldDefinition(field, enums, dbType)}\n`;
+    }
+    if (entity.softDelete) {
+      schema += `  ${SOFT_DELETE_FIELD} DateTime? // Set when the record is deleted; see @@softDelete\n`;
     }
     
     // Process relations
-    if (entity.relations && entity.relations.length > 0) {
+    const relationLines: RelationLines = { fields: [], indexes: [] };
+    for (const relation of entity.relations ?? []) {
+      const lines = generateRelationDefinition(entities, entity, relation, dbType);
+      relationLines.fields.push(...lines.fields);
+      relationLines.indexes.push(...lines.indexes);
+    }
+    relationLines.fields.push(...(backRelations.get(entity.name)?.fields ?? []));
+    relationLines.indexes.push(...(backRelations.get(entity.name)?.indexes ?? []));
+    if (relationLines.fields.length > 0) {
       schema += '\n  // Relations\n';
-      for (const relation of entity.relations) {
-        schema += `  ${generateRelationDefinition(relation)}\n`;
+      for (const line of relationLines.fields) {
+        schema += `  ${line}\n`;
       }
     }
     
     // Add indexes, unique constraints, etc.
-    const indexes = generateIndexes(entity);
+    const indexes = generateIndexes(entity, relationLines.indexes);
     if (indexes) {
       schema += `\n  ${indexes}\n`;
     }
@@ -55,6 +101,9 @@ export function generatePrismaSchema(app: IApp, dbType: 'sqlite' | 'postgresql'
     schema += `}\n\n`;
   }
 
+  schema += authModels;
+  schema += generateAuditModel(app);
+
   // Generate models from views
   if (views) {
     for (const view of views) {
@@ -78,10 +127,13 @@ export function generatePrismaSchema(app: IApp, dbType: 'sqlite' | 'postgresql'
 /**
  * Generates a Prisma field definition from an IR field
  * @param field - The IR field
+ * @param enums - The enums defined in the DSL
+ * @param dbType - The database type (sqlite or postgresql)
  * @returns A string containing the Prisma field definition
  */
-function generateFieldDefinition(field: IRField): string {
-  const prismaType = mapType(field.type);
+function generateFieldDefinition(field: IRField, enums: Record<string, string[]>, dbType: 'sqlite' | 'postgresql'): string {
+  const isEnum = Object.keys(enums).includes(field.type);
+  const prismaType = isEnum && dbType === 'sqlite' ? 'String' : mapType(field.type);
   let fieldDef = `${field.name} ${prismaType}`;
   
   // Add field constraints
@@ -117,7 +169,9 @@ function generateFieldDefinition(field: IRField): string {
   // Add default values
   if (field.default !== undefined && !field.primaryKey) {
     if (typeof field.default === 'string') {
-      if (field.type.toLowerCase() === 'datetime' && field.default === 'now') {
+      if (isEnum && dbType !== 'sqlite') {
+        fieldDef += ` @default(${field.default})`; // Enum values are bare identifiers
+      } else if (field.type.toLowerCase() === 'datetime' && field.default === 'now') {
         fieldDef += ' @default(now())';
       } else {
         fieldDef += ` @default("${field.default}")`;
@@ -127,6 +181,11 @@ function generateFieldDefinition(field: IRField): string {
     }
   }
   
+  // Column name in the database
+  if (field.dbName) {
+    fieldDef += ` @map("${field.dbName}")`;
+  }
+  
   // Special handling for Password type
   if (field.type.toLowerCase() === 'password') {
     fieldDef += ' /// @password';  // Custom annotation for password fields
@@ -137,10 +196,15 @@ function generateFieldDefinition(field: IRField): string {
     fieldDef += ' @db.Text';
   } else if (field.type.toLowerCase() === 'date') {
     fieldDef += ' @db.Date';
-  } else if (field.type.toLowerCase() === 'uuid') {
+  } else if (field.type.toLowerCase() === 'uuid' && dbType === 'postgresql') {
     fieldDef += ' @db.Uuid';
   }
   
+  // Record the enum a string column stands in for
+  if (isEnum && dbType === 'sqlite') {
+    fieldDef += ` /// @enum(${field.type})`;
+  }
+  
   // Add validator comments if present
   if (field.validate) {
     fieldDef += ` /// @validate(${field.validate})`;
@@ -155,42 +219,248 @@ function generateFieldDefinition(field: IRField): string {
 }
 
 /**
- * Generates a Prisma relation definition from an IR relation
+ * Generates the Prisma fields for one side of a relation. The side that owns the foreign key
+ * also gets the scalar column (unless the DSL declares it) and an index on it.
+ * @param entities - All entities in the app
+ * @param entity - The entity the relation is declared on
  * @param relation - The IR relation
- * @returns A string containing the Prisma relation definition
+ * @param dbType - The database type (sqlite or postgresql)
+ * @returns The field definitions and indexes for the relation
  */
-function generateRelationDefinition(relation: IRRelation): string {
-  const isArray = relation.type === 'one-to-many';
-  let relDef = `${relation.field} ${relation.target}${isArray ? '[]' : ''}`;
-  
-  // Add relation directive for the field
-  // Since we don't have explicit relation name in IRRelation, we'll construct one
-  const relationName = `${relation.target}To${relation.field.charAt(0).toUpperCase() + relation.field.slice(1)}`;
-  relDef += ` @relation("${relationName}")`;
-  
-  return relDef;
+function generateRelationDefinition(
+  entities: IREntity[],
+  entity: IREntity,
+  relation: IRRelation,
+  dbType: 'sqlite' | 'postgresql'
+): RelationLines {
+  const inverse = findInverseRelation(entities, entity, relation);
+  const name = relationName(entity, relation, inverse);
+
+  if (isListRelation(relation)) {
+    return { fields: [`${relation.field} ${relation.target}[] @relation("${name}")`], indexes: [] };
+  }
+  if (!ownsForeignKey(entities, entity, relation)) {
+    // The other side of a one-to-one holds the key, so this side is always optional
+    return { fields: [`${relation.field} ${relation.target}? @relation("${name}")`], indexes: [] };
+  }
+  return generateForeignKey(entities, entity, relation.field, relation.target, name, {
+    optional: !!relation.optional,
+    unique: relation.type === 'one-to-one',
+    dbType,
+  });
 }
 
 /**
- * Generates Prisma indexes and constraints from an entity
- * @param entity - The IR entity
- * @returns A string containing the Prisma indexes and constraints
+ * Generates a relation field that stores a foreign key, along with its scalar column
+ * @param entities - All entities in the app
+ * @param entity - The entity the field is on
+ * @param field - The relation field name
+ * @param target - The entity the key refers to
+ * @param name - The Prisma relation name
+ * @param options - Whether the key is optional or unique, and the database type
+ * @returns The field definitions and indexes
  */
-function generateIndexes(entity: IREntity): string | null {
-  const indexes: string[] = [];
-  
-  // Generate indexes for foreign key fields
-  if (entity.relations) {
-    for (const relation of entity.relations) {
-      if (relation.type === 'many-to-one') {
-        // For many-to-one relationships, we typically want an index on the foreign key field
-        indexes.push(`@@index([${relation.field}])`);
+function generateForeignKey(
+  entities: IREntity[],
+  entity: IREntity,
+  field: string,
+  target: string,
+  name: string,
+  options: { optional: boolean; unique: boolean; dbType: 'sqlite' | 'postgresql' }
+): RelationLines {
+  const targetKey = entities.find(e => e.name === target)?.fields.find(f => f.primaryKey) ?? { name: 'id', type: 'UUID' };
+  const foreignKey = foreignKeyName({ field, target, type: 'many-to-one' });
+  const optional = options.optional ? '?' : '';
+  const lines: RelationLines = { fields: [], indexes: [] };
+
+  // The DSL may declare the key column itself
+  const declared = entity.fields.find(f => f.name === foreignKey);
+  if (!declared) {
+    let keyDef = `${foreignKey} ${mapType(targetKey.type)}${optional}`;
+    if (options.unique) keyDef += ' @unique';
+    if (targetKey.type.toLowerCase() === 'uuid' && options.dbType === 'postgresql') keyDef += ' @db.Uuid';
+    lines.fields.push(keyDef);
+  }
+  lines.fields.push(`${field} ${target}${optional} @relation("${name}", fields: [${foreignKey}], references: [${targetKey.name}])`);
+  if (!options.unique && !declared?.unique) {
+    lines.indexes.push(`@@index([${foreignKey}])`);
+  }
+  return lines;
+}
+
+/**
+ * Generates the missing side of relations declared on one entity only. A to-one side gets a
+ * list field back; a list side gets an optional foreign key back.
+ * @param entities - All entities in the app
+ * @param dbType - The database type (sqlite or postgresql)
+ * @returns The extra field definitions and indexes, by entity name
+ */
+function generateBackRelations(entities: IREntity[], dbType: 'sqlite' | 'postgresql'): Map<string, RelationLines> {
+  const backRelations = new Map<string, RelationLines>();
+
+  for (const entity of entities) {
+    for (const relation of entity.relations ?? []) {
+      const target = entities.find(e => e.name === relation.target);
+      if (!target || findInverseRelation(entities, entity, relation)) continue;
+
+      const lines = backRelations.get(target.name) ?? { fields: [], indexes: [] };
+      backRelations.set(target.name, lines);
+      const name = relationName(entity, relation);
+      const taken = new Set([
+        ...target.fields.map(f => f.name),
+        ...(target.relations ?? []).flatMap(r => [r.field, foreignKeyName(r)]),
+        ...lines.fields.map(line => line.split(' ')[0]),
+      ]);
+      const base = entity.name.charAt(0).toLowerCase() + entity.name.slice(1);
+      const finish = (candidate: string) => isListRelation(relation) ? candidate : pluralize(candidate);
+      let field = finish(base);
+      if (taken.has(field) || taken.has(`${field}Id`)) {
+        field = finish(`${base}${relation.field.charAt(0).toUpperCase() + relation.field.slice(1)}`);
       }
+
+      if (isListRelation(relation)) {
+        const foreignKey = generateForeignKey(entities, target, field, entity.name, name, { optional: true, unique: false, dbType });
+        lines.fields.push(...foreignKey.fields);
+        lines.indexes.push(...foreignKey.indexes);
+      } else {
+        lines.fields.push(`${field} ${entity.name}[] @relation("${name}")`);
+      }
+    }
+  }
+  return backRelations;
+}
+
+/**
+ * Adds the tenant key to a tenant-scoped entity, as a relation to the tenant entity unless the
+ * DSL declares one, and makes its compound unique constraints unique within a tenant
+ * @param app - The entire application IR
+ * @param entity - The IR entity
+ * @returns The entity as the schema stores it
+ */
+export function withTenantKey(app: IApp, entity: IREntity): IREntity {
+  if (!isTenantScoped(app, entity)) return entity;
+  const { relation, declared } = tenantRelation(app, entity);
+  const key = [relation.field, foreignKeyName(relation)];
+  return {
+    ...entity,
+    relations: declared ? entity.relations : [...(entity.relations ?? []), relation],
+    uniques: entity.uniques?.map(fields => fields.some(field => key.includes(field)) ? fields : [relation.field, ...fields]),
+  };
+}
+
+/**
+ * Generates the models the jwt auth provider keeps its tokens in. Only hashes of the tokens
+ * are stored; the user entity gets a list field back to each model.
+ * @param app - The entire application IR
+ * @param dbType - The database type (sqlite or postgresql)
+ * @param backRelations - The extra fields of each entity, which the user entity's list fields are added to
+ * @returns The models, or an empty string if the app does not use the jwt auth provider
+ */
+function generateAuthModels(app: IApp, dbType: 'sqlite' | 'postgresql', backRelations: Map<string, RelationLines>): string {
+  const user = authUser(app);
+  if (app.config?.auth?.provider !== 'jwt' || !user) return '';
+
+  const userName = user.entity.name;
+  const keyType = mapType(user.primaryKey.type) + (user.primaryKey.type.toLowerCase() === 'uuid' && dbType === 'postgresql' ? ' @db.Uuid' : '');
+  const lines = backRelations.get(userName) ?? { fields: [], indexes: [] };
+  backRelations.set(userName, lines);
+
+  let models = '';
+  for (const [model, field, used] of [['RefreshToken', 'refreshTokens', 'revokedAt'], ['PasswordResetToken', 'passwordResetTokens', 'usedAt']]) {
+    const name = `${userName}${model}s`;
+    lines.fields.push(`${field} ${model}[] @relation("${name}")`);
+    models += `model ${model} {\n`;
+    models += `  id String @id @default(uuid())\n`;
+    models += `  tokenHash String @unique\n`;
+    models += `  expiresAt DateTime\n`;
+    models += `  ${used} DateTime?\n`;
+    if (model === 'RefreshToken') models += `  replacedById String?\n`;
+    models += `  createdAt DateTime @default(now())\n`;
+    models += `\n  // Relations\n`;
+    models += `  userId ${keyType}\n`;
+    models += `  user ${userName} @relation("${name}", fields: [userId], references: [${user.primaryKey.name}], onDelete: Cascade)\n`;
+    models += `\n  @@index([userId])\n`;
+    models += `}\n\n`;
+  }
+  return models;
+}
+
+/**
+ * Generates the model the audit log of @@audited entities is kept in. Rows name their record by
+ * entity and id rather than by relation, so they outlive the records they describe.
+ * @param app - The entire application IR
+ * @returns The model, or an empty string if no entity is audited
+ */
+function generateAuditModel(app: IApp): string {
+  if (!hasAuditLog(app)) return '';
+  let model = `model ${AUDIT_LOG_MODEL} {\n`;
+  model += `  id String @id @default(uuid())\n`;
+  model += `  entity String\n`;
+  model += `  entityId String\n`;
+  model += `  action String\n`;
+  model += `  actorId String?\n`;
+  model += `  changes String // The before and after values of each changed field, as JSON\n`;
+  model += `  createdAt DateTime @default(now())\n`;
+  model += `\n  @@index([entity, entityId])\n`;
+  model += `}\n\n`;
+  return model;
+}
+
+/**
+ * Names a relation so that both of its sides agree: the DSL name if given, the two entity
+ * names for an inferred pair (as Prisma does), or the declaring entity and field otherwise
+ * @param entity - The entity the relation is declared on
+ * @param relation - The relation side
+ * @param inverse - The other side, if declared
+ * @returns The relation name
+ */
+function relationName(entity: IREntity, relation: IRRelation, inverse?: IRRelation): string {
+  if (relation.relationName) return relation.relationName;
+  if (inverse) return [entity.name, relation.target].sort().join('To');
+  return `${entity.name}${relation.field.charAt(0).toUpperCase() + relation.field.slice(1)}`;
+}
+
+/**
+ * Makes the plural of a field name, such as `posts` or `categories`
+ * @param word - The singular name
+ * @returns The plural name
+ */
+function pluralize(word: string): string {
+  if (/[^aeiou]y$/.test(word)) return `${word.slice(0, -1)}ies`;
+  if (/(s|x|ch|sh)$/.test(word)) return `${word}es`;
+  return `${word}s`;
+}
+
+/**
+ * Generates Prisma indexes, constraints and table mapping for an entity
+ * @param entity - The IR entity
+ * @param relationIndexes - Indexes on the entity's foreign key columns
+ * @returns A string containing the Prisma block attributes
+ */
+function generateIndexes(entity: IREntity, relationIndexes: string[]): string | null {
+  const indexes: string[] = [...relationIndexes];
+  
+  // A to-one relation named in a directive stands for its foreign key column
+  const columns = (fields: string[]) => fields.map(name => {
+    const relation = entity.relations?.find(r => r.field === name && !isListRelation(r));
+    return relation ? foreignKeyName(relation) : name;
+  }).join(', ');
+  
+  for (const fields of entity.indexes ?? []) {
+    const index = `@@index([${columns(fields)}])`;
+    if (!indexes.includes(index)) {
+      indexes.push(index);
     }
   }
   
-  // Generate compound unique constraints if defined
-  // TODO: Implement compound unique constraints
+  // Generate compound unique constraints
+  for (const fields of entity.uniques ?? []) {
+    indexes.push(`@@unique([${columns(fields)}])`);
+  }
+  
+  if (entity.dbName) {
+    indexes.push(`@@map("${entity.dbName}")`);
+  }
   
   return indexes.length > 0 ? indexes.join('\n  ') : null;
 }
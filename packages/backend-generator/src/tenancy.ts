@@ -0,0 +1,24 @@
+import * as ejs from 'ejs';
+import * as path from 'path';
+import { IApp, TENANT_HEADER, TemplateLoader, VirtualFileSystem, diskFileSystem } from '@stalmer1/core';
+import { loadTemplates } from './templates';
+
+/**
+ * Generates the tenant resolution shared by the controllers, if the app has a tenancy config
+ * @param app - The entire application IR
+ * @param outDir - The output directory
+ * @param verbose - Enable verbose logging
+ * @param vfs - The file system to write to
+ * @param templates - The template loader
+ */
+export function generateTenancy(app: IApp, outDir: string, verbose: boolean = false, vfs: VirtualFileSystem = diskFileSystem, templates: TemplateLoader = loadTemplates()): void {
+  const tenancy = app.config?.tenancy;
+  if (!tenancy) return;
+  const tenantEntity = app.entities.find(entity => entity.name === tenancy.tenantEntity);
+  const numericKey = tenantEntity?.fields.find(field => field.primaryKey)?.type.toLowerCase() === 'int';
+
+  const commonDir = path.join(outDir, 'src', 'common');
+  vfs.mkdir(commonDir);
+  vfs.writeFile(path.join(commonDir, 'tenancy.ts'), ejs.render(templates.read('tenancy.ejs'), { header: TENANT_HEADER, numericKey }));
+  if (verbose) console.log('Generated common/tenancy.ts');
+}
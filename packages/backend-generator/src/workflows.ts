@@ -0,0 +1,44 @@
+import * as ejs from 'ejs';
+import * as path from 'path';
+import { IApp, TemplateLoader, VirtualFileSystem, diskFileSystem } from '@stalmer1/core';
+import { buildEmailIntegration } from './integrations';
+import { loadTemplates } from './templates';
+
+/**
+ * Generates the workflow runtime module and one event handler per workflow
+ * @param app - The entire application IR
+ * @param outDir - The backend output directory
+ * @param verbose - Enable verbose logging
+ * @param vfs - The file system to write to
+ * @param templates - The template loader
+ */
+export function generateWorkflows(app: IApp, outDir: string, verbose: boolean = false, vfs: VirtualFileSystem = diskFileSystem, templates: TemplateLoader = loadTemplates()): void {
+  const workflows = app.workflows ?? [];
+  if (workflows.length === 0) {
+    return;
+  }
+
+  const workflowsDir = path.join(outDir, 'src/workflows');
+  vfs.mkdir(workflowsDir);
+
+  const email = buildEmailIntegration(app);
+
+  const moduleTemplate = templates.read('workflows/workflows.module.ejs');
+  vfs.writeFile(path.join(workflowsDir, 'workflows.module.ts'), ejs.render(moduleTemplate, { workflows }));
+  if (verbose) console.log('Generated workflows.module.ts');
+
+  const actionsTemplate = templates.read('workflows/workflow-actions.service.ejs');
+  vfs.writeFile(path.join(workflowsDir, 'workflow-actions.service.ts'), ejs.render(actionsTemplate, { email }));
+  if (verbose) console.log('Generated workflow-actions.service.ts');
+
+  const contextTemplate = templates.read('workflows/workflow-context.ejs');
+  vfs.writeFile(path.join(workflowsDir, 'workflow-context.ts'), ejs.render(contextTemplate));
+  if (verbose) console.log('Generated workflow-context.ts');
+
+  const handlerTemplate = templates.read('workflows/workflow.handler.ejs');
+  for (const workflow of workflows) {
+    const fileName = `${workflow.name.toLowerCase()}.workflow.ts`;
+    vfs.writeFile(path.join(workflowsDir, fileName), ejs.render(handlerTemplate, { workflow }));
+    if (verbose) console.log(`Generated ${fileName}`);
+  }
+}
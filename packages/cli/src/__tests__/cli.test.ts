@@ -1,6 +1,7 @@
 import { generateCommand } from '../generate';
 import { initCommand } from '../init';
 import { Command } from 'commander';
+import { parseDSL } from '@stalmer1/core';
 
 // Mock the fs module
 jest.mock('fs', () => ({
@@ -87,6 +88,25 @@ describe('CLI tests', () => {
     }
   });
 
+  it('should write a schema that parses', () => {
+    const { tmpDir, originalCwd } = setupTestEnvironment(false);
+
+    try {
+      const program = new Command();
+      program.addCommand(initCommand);
+      program.parse(['node', 'stalmer1', 'init']);
+
+      const schemaWriteCall = fs.writeFileSync.mock.calls.find(call =>
+        typeof call[0] === 'string' && call[0].endsWith('schema.dsl')
+      );
+      expect(parseDSL(schemaWriteCall?.[1] as string).entities.map(e => e.name)).toEqual(['User']);
+    } finally {
+      process.chdir(originalCwd);
+      jest.requireActual('fs').rmSync(tmpDir, { recursive: true, force: true });
+      jest.restoreAllMocks();
+    }
+  });
+
   it('should exit if project already initialized', () => {
     const { tmpDir, consoleErrorSpy, processExitSpy, originalCwd } = setupTestEnvironment(true);
 
@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseDSL } from '@stalmer1/core';
+import {
+  applyProjectConfig,
+  getConfigValue,
+  outputDir,
+  readProjectConfig,
+  schemaPaths,
+  setConfigValue,
+  validateProjectConfig,
+} from '../config';
+import { configCommand } from '../commands/config';
+
+describe('project config', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stalmer1-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should validate stalmer1.json against the schema', () => {
+    expect(validateProjectConfig({ name: 'shop', schema: ['a.dsl', 'b.dsl'], ports: { backend: 8080 }, plugins: ['x'] })).toEqual([]);
+    expect(validateProjectConfig({
+      db: 'mysql',
+      schema: 3,
+      ports: { backend: 70000, frontend: '3000' },
+      plugins: ['x', 1],
+      output: 'dist',
+    })).toEqual([
+      'db must be one of sqlite, postgresql',
+      'schema must be a string or a list of strings',
+      'ports.backend must be between 1 and 65535',
+      'ports.frontend must be an integer',
+      'plugins[1] must be a string',
+      'Unknown setting output',
+    ]);
+    expect(validateProjectConfig([])).toEqual(['stalmer1.json must contain an object']);
+  });
+
+  it('should read the project config and fall back to the defaults', () => {
+    expect(readProjectConfig(tmpDir)).toEqual({});
+    expect(schemaPaths(tmpDir, {})).toEqual([path.join(tmpDir, 'schema.dsl')]);
+    expect(outputDir(tmpDir, {})).toBe(path.join(tmpDir, 'src'));
+
+    fs.writeFileSync(path.join(tmpDir, 'stalmer1.json'), JSON.stringify({ schema: ['dsl/a.dsl', 'dsl/b.dsl'], outDir: 'generated' }));
+    const config = readProjectConfig(tmpDir);
+    expect(schemaPaths(tmpDir, config)).toEqual([path.join(tmpDir, 'dsl/a.dsl'), path.join(tmpDir, 'dsl/b.dsl')]);
+    expect(outputDir(tmpDir, config)).toBe(path.join(tmpDir, 'generated'));
+    expect(getConfigValue(config, 'ports.backend')).toBe(4000);
+
+    fs.mkdirSync(path.join(tmpDir, 'dsl'));
+    fs.writeFileSync(path.join(tmpDir, 'dsl/b.dsl'), '');
+    fs.writeFileSync(path.join(tmpDir, 'dsl/a.dsl'), '');
+    expect(schemaPaths(tmpDir, { schema: 'dsl/*.dsl' })).toEqual([path.join(tmpDir, 'dsl/a.dsl'), path.join(tmpDir, 'dsl/b.dsl')]);
+    expect(schemaPaths(tmpDir, { schema: 'none/*.dsl' })).toEqual([path.join(tmpDir, 'none/*.dsl')]);
+    expect(() => getConfigValue(config, 'ports.admin')).toThrow('Unknown setting ports.admin');
+
+    fs.writeFileSync(path.join(tmpDir, 'stalmer1.json'), '{ "db": "mysql" ');
+    expect(() => readProjectConfig(tmpDir)).toThrow(/stalmer1.json is not valid JSON/);
+    fs.writeFileSync(path.join(tmpDir, 'stalmer1.json'), '{ "db": "mysql" }');
+    expect(() => readProjectConfig(tmpDir)).toThrow('Invalid stalmer1.json:\n  db must be one of sqlite, postgresql');
+  });
+
+  it('should convert values given on the command line to the type of the setting', () => {
+    expect(setConfigValue({ name: 'shop' }, 'ports.backend', '8080')).toEqual({ name: 'shop', ports: { backend: 8080 } });
+    expect(setConfigValue({}, 'plugins', 'a, ./b.js')).toEqual({ plugins: ['a', './b.js'] });
+    expect(setConfigValue({}, 'schema', '["a.dsl","b.dsl"]')).toEqual({ schema: ['a.dsl', 'b.dsl'] });
+    expect(setConfigValue({}, 'schema', 'app.dsl')).toEqual({ schema: 'app.dsl' });
+    expect(() => setConfigValue({}, 'ports.backend', 'eighty')).toThrow('ports.backend must be an integer');
+    expect(() => setConfigValue({}, 'database', 'sqlite')).toThrow('Unknown setting database');
+  });
+
+  it('should let config blocks in the schema take precedence over stalmer1.json', () => {
+    const app = parseDSL('config {\n  db: postgresql\n  ports: { backend: 5000 }\n}\n\nentity User {\n  email: String\n}\n');
+
+    const warnings = applyProjectConfig(app, { name: 'Shop', db: 'sqlite', ports: { backend: 5000, frontend: 3000 } });
+
+    expect(app.name).toBe('Shop');
+    expect(app.config?.db).toBe('postgresql');
+    expect(app.config?.ports).toEqual({ backend: 5000, frontend: 3000 });
+    expect(warnings).toEqual(['db is postgresql in the schema and sqlite in stalmer1.json. Using postgresql from the schema.']);
+  });
+
+  it('should get and set settings from the command line', () => {
+    const originalCwd = process.cwd();
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation((() => undefined) as unknown as () => never);
+    process.chdir(tmpDir);
+    try {
+      configCommand().parse(['node', 'config', 'set', 'ports.frontend', '3000'], { from: 'node' });
+      configCommand().parse(['node', 'config', 'get', 'ports'], { from: 'node' });
+      configCommand().parse(['node', 'config', 'get', 'outDir'], { from: 'node' });
+      configCommand().parse(['node', 'config', 'set', 'db', 'mysql'], { from: 'node' });
+
+      expect(JSON.parse(fs.readFileSync('stalmer1.json', 'utf-8'))).toEqual({ ports: { frontend: 3000 } });
+      expect(logSpy.mock.calls.map(call => call[0])).toEqual(['Set ports.frontend to 3000', '{\n  "frontend": 3000\n}', 'src']);
+      expect(errorSpy).toHaveBeenCalledWith('Error: db must be one of sqlite, postgresql');
+      expect(exitSpy).toHaveBeenCalledWith(1);
+    } finally {
+      process.chdir(originalCwd);
+    }
+  });
+});
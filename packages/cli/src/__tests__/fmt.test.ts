@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fmtCommand } from '../commands/fmt';
+
+describe('fmt command', () => {
+  let tmpDir: string;
+  let originalCwd: string;
+  let consoleErrorSpy: jest.SpyInstance;
+  let consoleLogSpy: jest.SpyInstance;
+  let processExitSpy: jest.SpyInstance;
+
+  const unformatted = 'import "./billing.dsl"\nentity User {\n    email:String unique\n}\n';
+  const billing = 'entity Invoice {\n  total: Decimal\n  owner:User\n}\n';
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stalmer1-fmt-'));
+    originalCwd = process.cwd();
+    process.chdir(tmpDir);
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    processExitSpy = jest.spyOn(process, 'exit').mockImplementation((() => {}) as unknown as () => never);
+    fs.writeFileSync('schema.dsl', unformatted);
+    fs.writeFileSync('billing.dsl', billing);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should format the schema and the files it imports', () => {
+    fmtCommand().parse(['node', 'fmt'], { from: 'node' });
+
+    expect(fs.readFileSync('schema.dsl', 'utf-8')).toBe('import "./billing.dsl"\n\nentity User {\n  email: String unique\n}\n');
+    expect(fs.readFileSync('billing.dsl', 'utf-8')).toBe('entity Invoice {\n  total: Decimal\n  owner: User\n}\n');
+    expect(consoleLogSpy.mock.calls.map(call => call[0])).toEqual(['Formatted schema.dsl', 'Formatted billing.dsl']);
+    expect(processExitSpy).not.toHaveBeenCalled();
+  });
+
+  it('should only report unformatted files with --check', () => {
+    fmtCommand().parse(['node', 'fmt', '--check'], { from: 'node' });
+
+    expect(fs.readFileSync('schema.dsl', 'utf-8')).toBe(unformatted);
+    expect(consoleErrorSpy.mock.calls.map(call => call[0])).toEqual([
+      '2 files are not formatted:', '  schema.dsl', '  billing.dsl', 'Run `stalmer1 fmt` to format them.',
+    ]);
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('should pass --check once the files are formatted', () => {
+    fmtCommand().parse(['node', 'fmt'], { from: 'node' });
+    consoleLogSpy.mockClear();
+    fmtCommand().parse(['node', 'fmt', '--check'], { from: 'node' });
+
+    expect(consoleLogSpy).toHaveBeenCalledWith('All 2 files are formatted.');
+    expect(processExitSpy).not.toHaveBeenCalled();
+  });
+
+  it('should leave files with syntax errors unchanged', () => {
+    fs.writeFileSync('broken.dsl', 'entity User {\n  email: String,\n}\n');
+
+    fmtCommand().parse(['node', 'fmt', 'broken.dsl'], { from: 'node' });
+
+    expect(fs.readFileSync('broken.dsl', 'utf-8')).toBe('entity User {\n  email: String,\n}\n');
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Error: Unexpected \',\' in field \'email\'. Expected an attribute at broken.dsl:2:16'));
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+});
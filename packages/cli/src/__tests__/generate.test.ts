@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseDSL } from '@stalmer1/core';
+import { generateCommand } from '../generate';
+import { outputDir } from '../config';
+import { GENERATED_SNAPSHOT, MIGRATED_SNAPSHOT, readSnapshot, writeSnapshot } from '../migrations';
+
+describe('generate command', () => {
+  let tmpDir: string;
+  let originalCwd: string;
+  let outDir: string;
+  let consoleErrorSpy: jest.SpyInstance;
+  let processExitSpy: jest.SpyInstance;
+
+  const schema = (fields: string) => `entity Post {\n  title: String\n${fields}}\n`;
+  const generate = async (...args: string[]) => {
+    // The command keeps the options of the previous run
+    for (const option of generateCommand.options) generateCommand.setOptionValue(option.attributeName(), undefined);
+    await generateCommand.parseAsync(['node', 'generate', ...args], { from: 'node' });
+  };
+  const migration = 'backend/prisma/migrations/20240101000000_init/migration.sql';
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stalmer1-generate-'));
+    originalCwd = process.cwd();
+    process.chdir(tmpDir);
+    outDir = outputDir(tmpDir, {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    processExitSpy = jest.spyOn(process, 'exit').mockImplementation((() => {}) as unknown as () => never);
+
+    // A project whose database has been migrated to the schema, as `generate` leaves it
+    fs.writeFileSync('schema.dsl', schema('  body: Text\n'));
+    await generate('--skip-migrations');
+    writeSnapshot(outDir, MIGRATED_SNAPSHOT, readSnapshot(outDir, GENERATED_SNAPSHOT)!);
+    fs.mkdirSync(path.dirname(path.join(outDir, migration)), { recursive: true });
+    fs.writeFileSync(path.join(outDir, migration), 'CREATE TABLE "Post" ();\n');
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should keep the migration state when cleaning, so destructive migrations are still refused', async () => {
+    fs.writeFileSync(path.join(outDir, 'backend/src/stale.ts'), 'export {};\n');
+    fs.writeFileSync('schema.dsl', schema(''));
+
+    await generate('--clean');
+
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('destructive operation, so no files were written'));
+    expect(fs.existsSync(path.join(outDir, 'backend/src/stale.ts'))).toBe(true);
+  });
+
+  it('should remove the generated files but not the migration state when cleaning', async () => {
+    fs.writeFileSync(path.join(outDir, 'backend/src/stale.ts'), 'export {};\n');
+    fs.writeFileSync('schema.dsl', schema('  body: Text\n  summary: String optional\n'));
+
+    await generate('--clean', '--skip-migrations');
+
+    expect(processExitSpy).not.toHaveBeenCalled();
+    expect(fs.existsSync(path.join(outDir, 'backend/src/stale.ts'))).toBe(false);
+    expect(fs.readFileSync(path.join(outDir, migration), 'utf-8')).toBe('CREATE TABLE "Post" ();\n');
+    expect(readSnapshot(outDir, MIGRATED_SNAPSHOT)).toEqual(parseDSL(schema('  body: Text\n')));
+    expect(fs.readFileSync(path.join(outDir, 'backend/prisma/schema.prisma'), 'utf-8')).toContain('summary String?');
+  });
+});
@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IR_SCHEMA, parseIR } from '@stalmer1/core';
+import { irCommand } from '../commands/ir';
+
+describe('ir command', () => {
+  let tmpDir: string;
+  let originalCwd: string;
+  let consoleErrorSpy: jest.SpyInstance;
+  let consoleLogSpy: jest.SpyInstance;
+  let stdoutSpy: jest.SpyInstance;
+  let processExitSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stalmer1-ir-'));
+    originalCwd = process.cwd();
+    process.chdir(tmpDir);
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    processExitSpy = jest.spyOn(process, 'exit').mockImplementation((() => {}) as unknown as () => never);
+    fs.writeFileSync('schema.dsl', 'import "./billing.dsl"\nentity User {\n  email: String unique\n}\n');
+    fs.writeFileSync('billing.dsl', 'entity Invoice {\n  total: Decimal\n  owner: User\n}\n');
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should print the IR of the schema and the files it imports', () => {
+    irCommand().parse(['node', 'ir', 'export'], { from: 'node' });
+
+    const app = parseIR(stdoutSpy.mock.calls[0][0]);
+    expect(app.entities.map(entity => entity.name)).toEqual(['User', 'Invoice']);
+    expect(processExitSpy).not.toHaveBeenCalled();
+  });
+
+  it('should write the IR to a file with --out', () => {
+    irCommand().parse(['node', 'ir', 'export', '--out', 'build/ir.json'], { from: 'node' });
+
+    expect(parseIR(fs.readFileSync('build/ir.json', 'utf-8')).entities).toHaveLength(2);
+    expect(consoleLogSpy).toHaveBeenCalledWith('Wrote build/ir.json');
+    expect(stdoutSpy).not.toHaveBeenCalled();
+  });
+
+  it('should report schema errors', () => {
+    fs.writeFileSync('billing.dsl', 'entity Invoice {\n  owner: Customer\n}\n');
+
+    irCommand().parse(['node', 'ir', 'export'], { from: 'node' });
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Type \'Customer\' for field \'owner\' is not a defined entity or enum.'));
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('should print the JSON Schema of the IR', () => {
+    irCommand().parse(['node', 'ir', 'schema'], { from: 'node' });
+
+    expect(JSON.parse(stdoutSpy.mock.calls[0][0])).toEqual(IR_SCHEMA);
+  });
+});
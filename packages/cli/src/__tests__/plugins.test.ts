@@ -0,0 +1,70 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createMemoryFileSystem, parseDSL } from '@stalmer1/core';
+import { loadPlugins } from '../plugins';
+import { generateFullProject } from '../full-generator';
+
+describe('loadPlugins', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stalmer1-plugins-'));
+    const packDir = path.join(tmpDir, 'node_modules/stalmer1-plugin-hello');
+    fs.mkdirSync(packDir, { recursive: true });
+    fs.writeFileSync(path.join(packDir, 'package.json'), JSON.stringify({ name: 'stalmer1-plugin-hello', main: 'index.js' }));
+    fs.writeFileSync(path.join(packDir, 'index.js'), `
+      module.exports = {
+        name: 'hello',
+        commands(program) {
+          program.command('hello').description('Say hello');
+        },
+        generate(app, outDir, { vfs }) {
+          vfs.writeFile(outDir + '/HELLO.md', 'Hello from ' + app.name);
+        },
+      };
+    `);
+    fs.mkdirSync(path.join(tmpDir, 'plugins'));
+    fs.writeFileSync(path.join(tmpDir, 'plugins/local.js'), 'exports.default = () => ({ name: "local" });');
+    fs.writeFileSync(path.join(tmpDir, 'plugins/empty.js'), 'module.exports = {};');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should load installed plugins and plugins in the project, in order', () => {
+    const plugins = loadPlugins(tmpDir, ['stalmer1-plugin-hello', './plugins/local.js']);
+
+    expect(plugins.map(plugin => plugin.name)).toEqual(['hello', 'local']);
+    expect(loadPlugins(tmpDir)).toEqual([]);
+  });
+
+  it('should let plugins add commands', () => {
+    const program = new Command();
+    loadPlugins(tmpDir, ['stalmer1-plugin-hello']).forEach(plugin => plugin.commands?.(program));
+
+    expect(program.commands.map(command => command.name())).toEqual(['hello']);
+  });
+
+  it('should write the files of plugins with the generated project', async () => {
+    const vfs = createMemoryFileSystem();
+    const outDir = path.join(tmpDir, 'src');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await generateFullProject(parseDSL('entity User {\n  email: String\n}\n'), outDir, false, {
+      vfs,
+      plugins: loadPlugins(tmpDir, ['stalmer1-plugin-hello']),
+    });
+
+    expect(vfs.readDirectory(outDir).get('HELLO.md')).toBe('Hello from App');
+    jest.restoreAllMocks();
+  });
+
+  it('should report plugins that are missing or export no plugin', () => {
+    expect(() => loadPlugins(tmpDir, ['not-installed'])).toThrow('npm install --save-dev not-installed');
+    expect(() => loadPlugins(tmpDir, ['./plugins/missing.js'])).toThrow(/Plugin module .*missing\.js not found/);
+    expect(() => loadPlugins(tmpDir, ['./plugins/empty.js'])).toThrow('The module does not export a plugin');
+  });
+});
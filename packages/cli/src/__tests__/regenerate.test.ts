@@ -0,0 +1,251 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { USER_OWNED_MARKER } from '@stalmer1/core';
+import { applyGeneratedFiles, formatChanges, formatDiffs, hasChanges, hashGenerated, planGeneratedFiles, readManifest } from '../regenerate';
+import { merge3, unifiedDiff } from '../diff';
+
+describe('regeneration', () => {
+  let tmpDir: string;
+  let generated: Map<string, string>;
+  let outDir: string;
+
+  const generate = (files: Record<string, string>) => {
+    generated = new Map(Object.entries(files));
+  };
+  const read = (relPath: string) => fs.readFileSync(path.join(outDir, relPath), 'utf-8');
+  const edit = (relPath: string, content: string) => fs.writeFileSync(path.join(outDir, relPath), content);
+  const statuses = (changes: ReturnType<typeof applyGeneratedFiles>) =>
+    Object.fromEntries(changes.map(change => [change.path, change.status]));
+
+  const service = (method: string) => [
+    "import { Injectable } from '@nestjs/common';",
+    '// @custom-start imports',
+    '// @custom-end',
+    '',
+    'export class UserService {',
+    `  ${method}() {}`,
+    '',
+    '  // @custom-start methods',
+    '  // @custom-end',
+    '}',
+    '',
+  ].join('\n');
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stalmer1-regenerate-'));
+    outDir = path.join(tmpDir, 'src');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should create files and record them in the manifest', () => {
+    generate({ 'backend/user.service.ts': service('findAll') });
+
+    const changes = applyGeneratedFiles(generated, outDir);
+
+    expect(statuses(changes)).toEqual({ 'backend/user.service.ts': 'created' });
+    expect(read('backend/user.service.ts')).toBe(service('findAll'));
+    expect(readManifest(outDir)).toEqual({
+      version: 1,
+      files: { 'backend/user.service.ts': hashGenerated(service('findAll')) },
+    });
+  });
+
+  it('should overwrite unmodified files and keep custom regions', () => {
+    generate({ 'backend/user.service.ts': service('findAll') });
+    applyGeneratedFiles(generated, outDir);
+    edit('backend/user.service.ts', read('backend/user.service.ts').replace(
+      '  // @custom-start methods\n',
+      '  // @custom-start methods\n  countActive() {\n    return 0;\n  }\n',
+    ));
+
+    generate({ 'backend/user.service.ts': service('findMany') });
+    const changes = applyGeneratedFiles(generated, outDir);
+
+    expect(statuses(changes)).toEqual({ 'backend/user.service.ts': 'updated' });
+    expect(read('backend/user.service.ts')).toContain('  findMany() {}');
+    expect(read('backend/user.service.ts')).toContain('  // @custom-start methods\n  countActive() {\n    return 0;\n  }\n  // @custom-end');
+  });
+
+  it('should merge edits made outside custom regions', () => {
+    generate({ 'backend/user.service.ts': service('findAll') });
+    applyGeneratedFiles(generated, outDir);
+    edit('backend/user.service.ts', read('backend/user.service.ts').replace(
+      "import { Injectable } from '@nestjs/common';",
+      "import { Injectable } from '@nestjs/common';\nimport { Logger } from '@nestjs/common';",
+    ));
+
+    generate({ 'backend/user.service.ts': service('findMany') });
+    const changes = applyGeneratedFiles(generated, outDir);
+
+    expect(statuses(changes)).toEqual({ 'backend/user.service.ts': 'merged' });
+    expect(read('backend/user.service.ts')).toContain("import { Logger } from '@nestjs/common';");
+    expect(read('backend/user.service.ts')).toContain('  findMany() {}');
+
+    // The user's edit is still merged on the next generation
+    generate({ 'backend/user.service.ts': service('list') });
+    expect(statuses(applyGeneratedFiles(generated, outDir))).toEqual({ 'backend/user.service.ts': 'merged' });
+    expect(read('backend/user.service.ts')).toContain("import { Logger } from '@nestjs/common';");
+  });
+
+  it('should report overlapping edits as conflicts and leave the file alone', () => {
+    generate({ 'backend/user.service.ts': service('findAll') });
+    applyGeneratedFiles(generated, outDir);
+    const manifest = readManifest(outDir);
+    const edited = read('backend/user.service.ts').replace('  findAll() {}', '  findAll() { return []; }');
+    edit('backend/user.service.ts', edited);
+
+    generate({ 'backend/user.service.ts': service('findMany') });
+    const changes = applyGeneratedFiles(generated, outDir);
+
+    expect(changes).toEqual([{
+      path: 'backend/user.service.ts',
+      status: 'conflict',
+      conflicts: [{ line: 6, ours: ['  findAll() { return []; }'], theirs: ['  findMany() {}'] }],
+    }]);
+    expect(read('backend/user.service.ts')).toBe(edited);
+    expect(readManifest(outDir)).toEqual(manifest);
+    expect(formatChanges(changes)).toEqual([
+      '  conflict  backend/user.service.ts',
+      '',
+      'Conflict in backend/user.service.ts:',
+      '  at line 6',
+      '  -   findAll() { return []; }',
+      '  +   findMany() {}',
+    ]);
+
+    expect(statuses(applyGeneratedFiles(generated, outDir, { force: true }))).toEqual({ 'backend/user.service.ts': 'updated' });
+    expect(read('backend/user.service.ts')).toBe(service('findMany'));
+  });
+
+  it('should not overwrite existing files that were not generated before', () => {
+    fs.mkdirSync(path.join(outDir, 'backend'), { recursive: true });
+    edit('backend/user.service.ts', '// written by hand\n');
+    generate({ 'backend/user.service.ts': service('findAll'), 'backend/user.module.ts': 'export class UserModule {}\n' });
+
+    const changes = applyGeneratedFiles(generated, outDir);
+
+    expect(statuses(changes)).toEqual({ 'backend/user.module.ts': 'created', 'backend/user.service.ts': 'conflict' });
+    expect(read('backend/user.service.ts')).toBe('// written by hand\n');
+    expect(Object.keys(readManifest(outDir)?.files ?? {})).toEqual(['backend/user.module.ts']);
+  });
+
+  it('should create user-owned files once and never overwrite them, even with --force', () => {
+    const resolver = `// ${USER_OWNED_MARKER} This file is safe to edit.\n\nexport function getFullName() {\n  return null;\n}\n`;
+    generate({ 'backend/user.resolver.ts': resolver });
+    expect(statuses(applyGeneratedFiles(generated, outDir))).toEqual({ 'backend/user.resolver.ts': 'created' });
+
+    const implemented = resolver.replace('return null;', "return 'Ada Lovelace';");
+    edit('backend/user.resolver.ts', implemented);
+    const changes = applyGeneratedFiles(generated, outDir, { force: true });
+
+    expect(statuses(changes)).toEqual({ 'backend/user.resolver.ts': 'unchanged' });
+    expect(read('backend/user.resolver.ts')).toBe(implemented);
+    expect(readManifest(outDir)?.files).toEqual({});
+
+    generate({});
+    expect(statuses(applyGeneratedFiles(generated, outDir, { force: true }))).toEqual({});
+    expect(read('backend/user.resolver.ts')).toBe(implemented);
+  });
+
+  it('should delete files that are no longer generated unless they were modified', () => {
+    generate({
+      'backend/user.service.ts': service('findAll'),
+      'backend/post.service.ts': 'export class PostService {}\n',
+      'backend/tag.service.ts': 'export class TagService {}\n',
+      'backend/prisma/migrations/1_create_view/migration.sql': 'CREATE VIEW "Stats" AS SELECT 1;',
+    });
+    applyGeneratedFiles(generated, outDir);
+    edit('backend/tag.service.ts', 'export class TagService {\n  custom() {}\n}\n');
+
+    generate({ 'backend/user.service.ts': service('findAll') });
+    const changes = applyGeneratedFiles(generated, outDir);
+
+    expect(statuses(changes)).toEqual({
+      'backend/user.service.ts': 'unchanged',
+      'backend/post.service.ts': 'deleted',
+      'backend/tag.service.ts': 'kept',
+    });
+    expect(fs.existsSync(path.join(outDir, 'backend/post.service.ts'))).toBe(false);
+    expect(fs.existsSync(path.join(outDir, 'backend/tag.service.ts'))).toBe(true);
+    expect(fs.existsSync(path.join(outDir, 'backend/prisma/migrations/1_create_view/migration.sql'))).toBe(true);
+  });
+
+  it('should plan changes without writing them', () => {
+    generate({ 'backend/user.service.ts': service('findAll'), 'backend/post.service.ts': 'export class PostService {}\n' });
+    applyGeneratedFiles(generated, outDir);
+    const manifest = readManifest(outDir);
+
+    generate({ 'backend/user.service.ts': service('findMany'), 'backend/tag.service.ts': 'export class TagService {}\n' });
+    const plan = planGeneratedFiles(generated, outDir);
+
+    expect(statuses(plan.changes)).toEqual({
+      'backend/user.service.ts': 'updated',
+      'backend/tag.service.ts': 'created',
+      'backend/post.service.ts': 'deleted',
+    });
+    expect(hasChanges(plan.changes)).toBe(true);
+    expect(read('backend/user.service.ts')).toBe(service('findAll'));
+    expect(fs.existsSync(path.join(outDir, 'backend/tag.service.ts'))).toBe(false);
+    expect(readManifest(outDir)).toEqual(manifest);
+    expect(formatDiffs(plan, outDir)).toEqual([
+      '--- /dev/null',
+      '+++ b/backend/tag.service.ts',
+      '@@ -0,0 +1,1 @@',
+      '+export class TagService {}',
+      '--- a/backend/user.service.ts',
+      '+++ b/backend/user.service.ts',
+      '@@ -3,7 +3,7 @@',
+      ' // @custom-end',
+      ' ',
+      ' export class UserService {',
+      '-  findAll() {}',
+      '+  findMany() {}',
+      ' ',
+      '   // @custom-start methods',
+      '   // @custom-end',
+      '--- a/backend/post.service.ts',
+      '+++ /dev/null',
+      '@@ -1,1 +0,0 @@',
+      '-export class PostService {}',
+    ]);
+
+    generate({ 'backend/user.service.ts': service('findAll'), 'backend/post.service.ts': 'export class PostService {}\n' });
+    expect(hasChanges(planGeneratedFiles(generated, outDir).changes)).toBe(false);
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].join('\n') + '\n';
+    const after = ['A', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k'].join('\n') + '\n';
+    expect(unifiedDiff('list.txt', before, after, 1)).toEqual([
+      '--- a/list.txt',
+      '+++ b/list.txt',
+      '@@ -1,2 +1,2 @@',
+      '-a',
+      '+A',
+      ' b',
+      '@@ -10,1 +10,2 @@',
+      ' j',
+      '+k',
+    ]);
+    expect(unifiedDiff('list.txt', before, before)).toEqual([]);
+  });
+
+  it('should merge changes from both sides against the base', () => {
+    const base = ['a', 'b', 'c', 'd', 'e'];
+    expect(merge3(base, ['a', 'B', 'c', 'd', 'e'], ['a', 'b', 'c', 'D', 'e'])).toEqual({
+      lines: ['a', 'B', 'c', 'D', 'e'],
+      conflicts: [],
+    });
+    expect(merge3(base, ['a', 'b', 'x', 'd', 'e'], ['a', 'b', 'x', 'd', 'e', 'f'])).toEqual({
+      lines: ['a', 'b', 'x', 'd', 'e', 'f'],
+      conflicts: [],
+    });
+    expect(merge3(base, ['a', 'b', 'mine', 'd', 'e'], ['a', 'b', 'theirs', 'd', 'e']).conflicts).toEqual([
+      { line: 3, ours: ['mine'], theirs: ['theirs'] },
+    ]);
+  });
+});
@@ -0,0 +1,42 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resolveTemplateSources } from '../templates';
+
+describe('resolveTemplateSources', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stalmer1-template-sources-'));
+    fs.mkdirSync(path.join(tmpDir, 'templates/backend'), { recursive: true });
+    const packDir = path.join(tmpDir, 'node_modules/@acme/stalmer1-templates');
+    fs.mkdirSync(path.join(packDir, 'dist/templates'), { recursive: true });
+    fs.writeFileSync(path.join(packDir, 'package.json'), JSON.stringify({
+      name: '@acme/stalmer1-templates',
+      stalmer1: { templates: 'dist/templates', contextVersion: 1 },
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should list the override directory before the template packs', () => {
+    const sources = resolveTemplateSources(tmpDir, { dir: 'templates', contextVersion: 1, packs: ['@acme/stalmer1-templates'] });
+
+    expect(sources).toEqual([
+      { name: 'templates', dir: path.join(tmpDir, 'templates'), contextVersion: 1 },
+      {
+        name: '@acme/stalmer1-templates',
+        dir: fs.realpathSync(path.join(tmpDir, 'node_modules/@acme/stalmer1-templates/dist/templates')),
+        contextVersion: 1,
+      },
+    ]);
+    expect(resolveTemplateSources(tmpDir)).toEqual([]);
+  });
+
+  it('should report missing directories and packs', () => {
+    expect(() => resolveTemplateSources(tmpDir, { dir: 'missing' })).toThrow(/does not exist/);
+    expect(() => resolveTemplateSources(tmpDir, { packs: ['not-installed'] })).toThrow('npm install --save-dev not-installed');
+  });
+});
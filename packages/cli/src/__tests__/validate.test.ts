@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { validateCommand, formatDiagnostic } from '../commands/validate';
+
+describe('validate command', () => {
+  let tmpDir: string;
+  let originalCwd: string;
+  let consoleErrorSpy: jest.SpyInstance;
+  let consoleLogSpy: jest.SpyInstance;
+  let processExitSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stalmer1-validate-'));
+    originalCwd = process.cwd();
+    process.chdir(tmpDir);
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    processExitSpy = jest.spyOn(process, 'exit').mockImplementation((() => {}) as unknown as () => never);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should have the correct options', () => {
+    const command = validateCommand();
+    expect(command.name()).toBe('validate');
+    expect(command.options.some(opt => opt.long === '--templates')).toBe(true);
+  });
+
+  it('should print every diagnostic in the schema and exit with an error', () => {
+    fs.writeFileSync('schema.dsl', [
+      'entity User {',
+      '  1stName: String',
+      '  age: Intt',
+      '}',
+    ].join('\n'));
+
+    validateCommand().parse(['node', 'validate'], { from: 'node' });
+
+    const errors = consoleErrorSpy.mock.calls.map(call => call[0]);
+    expect(errors).toEqual([
+      expect.stringContaining('schema.dsl:2:3 - error invalid-field-name:'),
+      expect.stringContaining("schema.dsl:3:8 - error unknown-type: Type 'Intt' for field 'age' is not a defined entity or enum."),
+    ]);
+    expect(consoleLogSpy).toHaveBeenCalledWith('\nFound 2 errors and 0 warnings.');
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('should accept a valid schema at a custom path', () => {
+    fs.writeFileSync('app.dsl', 'entity User {\n  email: String\n}\n');
+
+    validateCommand().parse(['node', 'validate', 'app.dsl'], { from: 'node' });
+
+    expect(consoleLogSpy).toHaveBeenCalledWith('Schema is valid.');
+    expect(processExitSpy).not.toHaveBeenCalled();
+  });
+
+  it('should point at the reported column', () => {
+    const output = formatDiagnostic({
+      severity: 'error',
+      code: 'unknown-type',
+      message: "Type 'Intt' for field 'age' is not a defined entity or enum.",
+      filePath: 'schema.dsl',
+      line: 3,
+      column: 8,
+      context: '  age: Intt',
+    });
+    expect(output).toBe([
+      "schema.dsl:3:8 - error unknown-type: Type 'Intt' for field 'age' is not a defined entity or enum.",
+      '      age: Intt',
+      '           ^',
+    ].join('\n'));
+  });
+});
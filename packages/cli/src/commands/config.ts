@@ -0,0 +1,57 @@
+import { Command } from 'commander';
+import { ConfigError, getConfigValue, readProjectConfig, setConfigValue, writeProjectConfig } from '../config';
+
+/**
+ * Formats a setting for printing: strings and numbers as they are, lists and objects as JSON
+ * @param value - The value
+ * @returns The formatted value
+ */
+function formatValue(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value);
+}
+
+/**
+ * Runs a config subcommand, reporting configuration errors instead of throwing them
+ * @param action - The subcommand
+ */
+function withConfigErrors(action: () => void) {
+  try {
+    action();
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Command to read and change the settings in stalmer1.json
+ */
+export function configCommand() {
+  const command = new Command('config');
+  command.description('Read or change the project settings in stalmer1.json');
+
+  command
+    .command('get')
+    .description('Print a setting, or every setting that is set')
+    .argument('[key]', 'The setting, such as outDir or ports.backend')
+    .action((key?: string) => withConfigErrors(() => {
+      const config = readProjectConfig(process.cwd());
+      const value = key ? getConfigValue(config, key) : config;
+      if (value !== undefined) console.log(formatValue(value));
+    }));
+
+  command
+    .command('set')
+    .description('Change a setting. Lists are given as JSON or separated by commas.')
+    .argument('<key>', 'The setting, such as outDir or ports.backend')
+    .argument('<value>', 'The new value')
+    .action((key: string, value: string) => withConfigErrors(() => {
+      const cwd = process.cwd();
+      const config = setConfigValue(readProjectConfig(cwd), key, value);
+      writeProjectConfig(cwd, config);
+      console.log(`Set ${key} to ${formatValue(getConfigValue(config, key))}`);
+    }));
+
+  return command;
+}
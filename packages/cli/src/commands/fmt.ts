@@ -0,0 +1,108 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DSLParsingError, PluginError, formatDSL, parseAST, pluginBlocks, resolveImport } from '@stalmer1/core';
+import { ConfigError, readProjectConfig, schemaPaths } from '../config';
+import { loadPlugins } from '../plugins';
+
+/**
+ * Lists DSL files and the files they import, each once. Files that do not parse are listed
+ * without following their imports.
+ * @param entries - The absolute paths of the entry files
+ * @param keywords - Block keywords added by plugins
+ * @returns The absolute paths of the files that exist
+ */
+function withImports(entries: string[], keywords: string[]): string[] {
+  const files: string[] = [];
+  const visit = (file: string) => {
+    if (files.includes(file) || !fs.existsSync(file)) return;
+    files.push(file);
+    try {
+      for (const node of parseAST(fs.readFileSync(file, 'utf-8'), file, keywords).declarations) {
+        if (node.kind === 'Import') resolveImport(node.path.value, path.dirname(file)).forEach(visit);
+      }
+    } catch (error) {
+      if (!(error instanceof DSLParsingError)) throw error;
+    }
+  };
+  entries.forEach(visit);
+  return files;
+}
+
+/**
+ * Formats DSL files, or checks that they are formatted
+ * @param fileArgs - The files to format, or none for the schema files of the project and the files they import
+ * @param check - Only report the files that are not formatted
+ * @returns Whether every file could be formatted, and with `check`, was already formatted
+ */
+function formatFiles(fileArgs: string[], check: boolean): boolean {
+  const cwd = process.cwd();
+  let keywords: string[];
+  let files: string[];
+  try {
+    const config = readProjectConfig(cwd);
+    keywords = Object.keys(pluginBlocks(loadPlugins(cwd, config.plugins)));
+    files = fileArgs.length > 0 ? fileArgs.map(file => path.resolve(cwd, file)) : withImports(schemaPaths(cwd, config), keywords);
+  } catch (error) {
+    if (!(error instanceof PluginError || error instanceof ConfigError)) throw error;
+    console.error(`${error instanceof PluginError ? 'Plugin error' : 'Error'}: ${error.message}`);
+    return false;
+  }
+
+  const missing = files.filter(file => !fs.existsSync(file));
+  if (missing.length > 0 || files.length === 0) {
+    console.error(`Error: ${missing.length > 0 ? `${missing.map(file => path.relative(cwd, file)).join(', ')} not found` : 'No DSL files found'}.`);
+    return false;
+  }
+
+  let ok = true;
+  const unformatted: string[] = [];
+  for (const file of files) {
+    const relative = path.relative(cwd, file);
+    const source = fs.readFileSync(file, 'utf-8');
+    let formatted: string;
+    try {
+      formatted = formatDSL(source, { filePath: relative, keywords });
+    } catch (error) {
+      if (!(error instanceof DSLParsingError)) throw error;
+      console.error(`Error: ${error.message}`);
+      ok = false;
+      continue;
+    }
+    if (formatted === source) continue;
+    unformatted.push(relative);
+    if (!check) {
+      fs.writeFileSync(file, formatted);
+      console.log(`Formatted ${relative}`);
+    }
+  }
+
+  if (check && unformatted.length > 0) {
+    console.error(`${unformatted.length} file${unformatted.length === 1 ? ' is' : 's are'} not formatted:`);
+    unformatted.forEach(file => console.error(`  ${file}`));
+    console.error('Run `stalmer1 fmt` to format them.');
+    return false;
+  }
+  if (ok && unformatted.length === 0) {
+    console.log(`${files.length === 1 ? 'The file is' : `All ${files.length} files are`} formatted.`);
+  }
+  return ok;
+}
+
+/**
+ * Command to print DSL files in their canonical layout
+ */
+export function fmtCommand() {
+  const command = new Command('fmt');
+  command
+    .description('Format DSL files: consistent indentation, aligned field types and attributes, attributes in a fixed order')
+    .argument('[files...]', 'The DSL files to format, instead of the schema files in stalmer1.json and the files they import')
+    .option('--check', 'Report the files that are not formatted and exit with an error, without changing them')
+    .action((files: string[], options: { check?: boolean }) => {
+      if (!formatFiles(files, Boolean(options.check))) {
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
@@ -0,0 +1,72 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DSLParsingError, IApp, IR_SCHEMA, PluginError, exportIR, parseDSLFiles, pluginBlocks } from '@stalmer1/core';
+import { ConfigError, readProjectConfig, schemaPaths } from '../config';
+import { loadPlugins } from '../plugins';
+
+/**
+ * Parses the schema files of the project, with the blocks its plugins add
+ * @param cwd - The project directory
+ * @returns The application IR, as the DSL describes it
+ * @throws ConfigError, PluginError or DSLParsingError if the project cannot be read
+ */
+function parseProject(cwd: string): IApp {
+  const config = readProjectConfig(cwd);
+  const blocks = pluginBlocks(loadPlugins(cwd, config.plugins));
+  const schemaFiles = schemaPaths(cwd, config);
+  const missing = schemaFiles.filter(file => !fs.existsSync(file));
+  if (missing.length > 0) {
+    throw new ConfigError(`${missing.map(file => path.relative(cwd, file)).join(', ')} not found.`);
+  }
+  const files = schemaFiles.map(file => ({ filePath: path.relative(cwd, file), source: fs.readFileSync(file, 'utf-8') }));
+  return parseDSLFiles(files, { blocks });
+}
+
+/**
+ * Prints JSON, or writes it to a file
+ * @param json - The JSON
+ * @param out - The file, relative to the working directory, or undefined to print the JSON
+ */
+function output(json: string, out: string | undefined): void {
+  if (!out) {
+    process.stdout.write(json);
+    return;
+  }
+  const file = path.resolve(process.cwd(), out);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, json);
+  console.log(`Wrote ${out}`);
+}
+
+/**
+ * Command to export the IR of the schema as JSON, for tools that read the IR instead of the DSL
+ */
+export function irCommand() {
+  const command = new Command('ir');
+  command.description('Export the intermediate representation (IR) of the schema as JSON, or its JSON Schema');
+
+  command
+    .command('export')
+    .description('Write the IR of the schema files as JSON. `stalmer1 generate --ir` reads it back.')
+    .option('-o, --out <file>', 'Write the IR to a file instead of printing it')
+    .action((options: { out?: string }) => {
+      try {
+        output(exportIR(parseProject(process.cwd())), options.out);
+      } catch (error) {
+        if (!(error instanceof DSLParsingError || error instanceof PluginError || error instanceof ConfigError)) throw error;
+        console.error(`${error instanceof PluginError ? 'Plugin error' : 'Error'}: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  command
+    .command('schema')
+    .description('Write the JSON Schema that IR files conform to')
+    .option('-o, --out <file>', 'Write the schema to a file instead of printing it')
+    .action((options: { out?: string }) => {
+      output(`${JSON.stringify(IR_SCHEMA, null, 2)}\n`, options.out);
+    });
+
+  return command;
+}
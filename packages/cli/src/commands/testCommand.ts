@@ -3,17 +3,18 @@ import { spawnSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import { exec } from 'child_process';
+import { outputDir, readProjectConfig } from '../config';
 
 /**
  * Finds the test directories in the generated project
- * @param baseDir - The base directory of the generated project
+ * @param baseDir - The output directory of the generated project
  * @returns An object containing the paths to the backend and frontend directories if they exist
  */
 function findTestDirectories(baseDir: string): { backend?: string, frontend?: string } {
   const result: { backend?: string, frontend?: string } = {};
   
   // Check for backend tests
-  const backendDir = path.join(baseDir, 'src', 'backend');
+  const backendDir = path.join(baseDir, 'backend');
   if (fs.existsSync(backendDir) && 
       (fs.existsSync(path.join(backendDir, 'jest.config.js')) || 
        fs.existsSync(path.join(backendDir, 'package.json')))) {
@@ -21,7 +22,7 @@ function findTestDirectories(baseDir: string): { backend?: string, frontend?: st
   }
   
   // Check for frontend tests
-  const frontendDir = path.join(baseDir, 'src', 'frontend');
+  const frontendDir = path.join(baseDir, 'frontend');
   if (fs.existsSync(frontendDir) && 
       (fs.existsSync(path.join(frontendDir, 'vitest.config.ts')) || 
        fs.existsSync(path.join(frontendDir, 'vitest.config.js')) || 
@@ -76,7 +77,7 @@ export const testCommand = new Command('test')
   .option('--verbose', 'Show verbose test output')
   .action(async (opts) => {
     const cwd = process.cwd();
-    const testDirs = findTestDirectories(cwd);
+    const testDirs = findTestDirectories(outputDir(cwd, readProjectConfig(cwd)));
     
     if (!testDirs.backend && !testDirs.frontend) {
       console.error('Error: No test directories found in the generated project.');
@@ -2,59 +2,141 @@ import { Command } from 'commander';
 import { spawn } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
+import { BlockParser, Diagnostic, PluginError, parseDSLFiles, pluginBlocks } from '@stalmer1/core';
+import { ConfigError, ProjectConfig, readProjectConfig, schemaPaths } from '../config';
+import { loadPlugins } from '../plugins';
 
 /**
- * Command to validate EJS templates in the project
+ * Formats a diagnostic as `file:line:column - severity code: message`, followed by the
+ * offending source line and a caret under the reported column
+ * @param diagnostic - The diagnostic to format
+ * @returns The formatted diagnostic
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const location = diagnostic.line > 0
+    ? `${diagnostic.filePath ?? '<input>'}:${diagnostic.line}:${diagnostic.column}`
+    : diagnostic.filePath ?? '<input>';
+  let output = `${location} - ${diagnostic.severity} ${diagnostic.code}: ${diagnostic.message}`;
+  if (diagnostic.context !== undefined && diagnostic.column > 0) {
+    output += `\n    ${diagnostic.context}\n    ${' '.repeat(diagnostic.column - 1)}^`;
+  }
+  return output;
+}
+
+/**
+ * Parses DSL files in recovery mode and prints every diagnostic found
+ * @param schema - The DSL file to validate, or undefined for the schema files of the project
+ * @returns Whether the files have no errors
+ */
+function validateSchema(schema: string | undefined): boolean {
+  const cwd = process.cwd();
+  let config: ProjectConfig;
+  // Blocks added by the project's plugins are part of its DSL
+  let blocks: Record<string, BlockParser>;
+  try {
+    config = readProjectConfig(cwd);
+    blocks = pluginBlocks(loadPlugins(cwd, config.plugins));
+  } catch (error) {
+    if (!(error instanceof PluginError || error instanceof ConfigError)) throw error;
+    console.error(`${error instanceof PluginError ? 'Plugin error' : 'Error'}: ${error.message}`);
+    return false;
+  }
+
+  const schemaFiles = schema ? [path.resolve(cwd, schema)] : schemaPaths(cwd, config);
+  const missing = schemaFiles.filter(file => !fs.existsSync(file));
+  if (missing.length > 0) {
+    console.error(`Error: ${missing.map(file => path.relative(cwd, file) || file).join(', ')} not found.`);
+    console.error('Please create a schema.dsl file or run `stalmer1 init` to generate one.');
+    return false;
+  }
+
+  const files = schemaFiles.map(file => ({ filePath: path.relative(cwd, file), source: fs.readFileSync(file, 'utf-8') }));
+  const { diagnostics } = parseDSLFiles(files, { recover: true, blocks });
+  for (const diagnostic of diagnostics) {
+    const output = formatDiagnostic(diagnostic);
+    if (diagnostic.severity === 'error') {
+      console.error(output);
+    } else {
+      console.warn(output);
+    }
+  }
+
+  const errors = diagnostics.filter(d => d.severity === 'error').length;
+  const warnings = diagnostics.length - errors;
+  if (diagnostics.length === 0) {
+    console.log('Schema is valid.');
+  } else {
+    console.log(`\nFound ${errors} error${errors === 1 ? '' : 's'} and ${warnings} warning${warnings === 1 ? '' : 's'}.`);
+  }
+  return errors === 0;
+}
+
+/**
+ * Runs the validate-templates.sh script over the built-in EJS templates
+ */
+function validateTemplates() {
+  console.log('Validating EJS templates...');
+
+  // Find the validate-templates.sh script
+  const scriptPath = path.join(__dirname, '..', '..', '..', 'scripts', 'validate-templates.sh');
+  const fallbackPath = path.join(__dirname, '..', '..', 'scripts', 'validate-templates.sh');
+  
+  let validScriptPath;
+  if (fs.existsSync(scriptPath)) {
+    validScriptPath = scriptPath;
+  } else if (fs.existsSync(fallbackPath)) {
+    validScriptPath = fallbackPath;
+  } else {
+    console.error('Error: Could not find validate-templates.sh script');
+    process.exit(1);
+  }
+  
+  // Make sure the script is executable
+  try {
+    fs.chmodSync(validScriptPath, '755');
+  } catch (error: unknown) {
+    if (error instanceof Error) {
+      console.error(`Error making script executable: ${error.message}`);
+    } else {
+      console.error('Unknown error making script executable');
+    }
+  }
+  
+  // Run the validation script
+  const validate = spawn(validScriptPath, [], {
+    stdio: 'inherit',
+    shell: true
+  });
+  
+  validate.on('close', (code) => {
+    if (code === 0) {
+      console.log('All templates validated successfully!');
+    } else {
+      console.error('Template validation failed!');
+      process.exit(1);
+    }
+  });
+}
+
+/**
+ * Command to validate the DSL schema, or the EJS templates with --templates
  */
 export function validateCommand() {
   const command = new Command('validate');
   command
-    .description('Validate EJS templates for compilation errors')
+    .description('Validate the DSL schema and report every error, or the EJS templates with --templates')
+    .argument('[schema]', 'The DSL file to validate, instead of the schema files in stalmer1.json')
+    .option('--templates', 'Validate EJS templates for compilation errors instead')
     .option('-v, --verbose', 'Output more detailed information')
-    .action((options) => {
-      const _verbose = options.verbose; // Available for future use
-      console.log('Validating EJS templates...');
-      
-      // Find the validate-templates.sh script
-      const scriptPath = path.join(__dirname, '..', '..', '..', 'scripts', 'validate-templates.sh');
-      const fallbackPath = path.join(__dirname, '..', '..', 'scripts', 'validate-templates.sh');
-      
-      let validScriptPath;
-      if (fs.existsSync(scriptPath)) {
-        validScriptPath = scriptPath;
-      } else if (fs.existsSync(fallbackPath)) {
-        validScriptPath = fallbackPath;
-      } else {
-        console.error('Error: Could not find validate-templates.sh script');
-        process.exit(1);
+    .action((schema: string | undefined, options) => {
+      if (options.templates) {
+        validateTemplates();
+        return;
       }
-      
-      // Make sure the script is executable
-      try {
-        fs.chmodSync(validScriptPath, '755');
-      } catch (error: unknown) {
-        if (error instanceof Error) {
-          console.error(`Error making script executable: ${error.message}`);
-        } else {
-          console.error('Unknown error making script executable');
-        }
+      if (!validateSchema(schema)) {
+        process.exit(1);
       }
-      
-      // Run the validation script
-      const validate = spawn(validScriptPath, [], {
-        stdio: 'inherit',
-        shell: true
-      });
-      
-      validate.on('close', (code) => {
-        if (code === 0) {
-          console.log('All templates validated successfully!');
-        } else {
-          console.error('Template validation failed!');
-          process.exit(1);
-        }
-      });
     });
-    
+
   return command;
 }
@@ -0,0 +1,318 @@
+// Reads, validates and writes stalmer1.json, the configuration file at the root of a project
+import * as fs from 'fs';
+import * as path from 'path';
+import { IApp, isGlob, matchFiles } from '@stalmer1/core';
+import { TemplatesConfig } from './templates';
+
+export const PROJECT_CONFIG_FILE = 'stalmer1.json';
+
+export interface ProjectConfig {
+  name?: string; // the app name, shown in page titles and package names
+  version?: string;
+  schema?: string | string[]; // the DSL files, relative to the project
+  outDir?: string; // where the code is generated, relative to the project
+  db?: 'sqlite' | 'postgresql';
+  ports?: {
+    backend?: number;
+    frontend?: number;
+  };
+  templates?: TemplatesConfig;
+  plugins?: string[]; // npm packages or paths relative to the project, applied in order
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/** The subset of JSON Schema that the project configuration schema uses */
+export interface ConfigSchema {
+  type?: 'string' | 'integer' | 'array' | 'object';
+  description?: string;
+  default?: unknown;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+  items?: ConfigSchema;
+  properties?: Record<string, ConfigSchema>;
+  anyOf?: ConfigSchema[];
+}
+
+const port = (description: string, defaultPort: number): ConfigSchema => ({
+  type: 'integer', description, default: defaultPort, minimum: 1, maximum: 65535,
+});
+
+/**
+ * The JSON Schema of stalmer1.json. Objects do not allow properties other than the listed ones.
+ */
+export const PROJECT_CONFIG_SCHEMA: ConfigSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'The app name', default: 'App' },
+    version: { type: 'string', description: 'The project version' },
+    schema: {
+      description: 'The DSL file, or a list of DSL files, relative to the project',
+      default: 'schema.dsl',
+      anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+    },
+    outDir: { type: 'string', description: 'Where the code is generated, relative to the project', default: 'src' },
+    db: { type: 'string', description: 'The database provider', enum: ['sqlite', 'postgresql'], default: 'sqlite' },
+    ports: {
+      type: 'object',
+      properties: {
+        backend: port('The port the API listens on', 4000),
+        frontend: port('The port of the frontend development server', 5173),
+      },
+    },
+    templates: {
+      type: 'object',
+      properties: {
+        dir: { type: 'string', description: 'A directory of template overrides, relative to the project' },
+        contextVersion: { type: 'integer', description: 'The template context version the overrides were written for', minimum: 1 },
+        packs: { type: 'array', description: 'npm packages with templates', items: { type: 'string' } },
+      },
+    },
+    plugins: { type: 'array', description: 'npm packages or paths relative to the project', items: { type: 'string' } },
+  },
+};
+
+function describe(schema: ConfigSchema): string {
+  if (schema.anyOf) return schema.anyOf.map(describe).join(' or ');
+  if (schema.enum) return `one of ${schema.enum.join(', ')}`;
+  switch (schema.type) {
+    case 'string':
+      return 'a string';
+    case 'integer':
+      return 'an integer';
+    case 'array':
+      return `a list of ${schema.items ? describe(schema.items).replace(/^an? /, '') : 'value'}s`;
+    default:
+      return 'an object';
+  }
+}
+
+function matchesType(value: unknown, schema: ConfigSchema): boolean {
+  switch (schema.type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'integer':
+      return Number.isInteger(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Checks a value against a schema
+ * @param value - The value
+ * @param schema - The schema
+ * @param key - The dotted key of the value, used in messages
+ * @returns The problems found
+ */
+function check(value: unknown, schema: ConfigSchema, key: string): string[] {
+  if (schema.anyOf) {
+    const options = schema.anyOf.map(option => check(value, option, key));
+    return options.some(problems => problems.length === 0) ? [] : [`${key} must be ${describe(schema)}`];
+  }
+  if (!matchesType(value, schema)) return [`${key} must be ${describe(schema)}`];
+  if (schema.enum && !schema.enum.includes(value as string)) return [`${key} must be ${describe(schema)}`];
+  if (typeof value === 'number' && (value < (schema.minimum ?? -Infinity) || value > (schema.maximum ?? Infinity))) {
+    return [schema.maximum === undefined
+      ? `${key} must be at least ${schema.minimum}`
+      : `${key} must be between ${schema.minimum} and ${schema.maximum}`];
+  }
+  if (Array.isArray(value) && schema.items) {
+    return value.flatMap((item, index) => check(item, schema.items as ConfigSchema, `${key}[${index}]`));
+  }
+  if (schema.properties) {
+    const properties = schema.properties;
+    return Object.entries(value as Record<string, unknown>).flatMap(([name, item]) => {
+      const itemKey = key ? `${key}.${name}` : name;
+      return properties[name] ? check(item, properties[name], itemKey) : [`Unknown setting ${itemKey}`];
+    });
+  }
+  return [];
+}
+
+/**
+ * Validates a project configuration against PROJECT_CONFIG_SCHEMA
+ * @param config - The parsed content of stalmer1.json
+ * @returns The problems found, or an empty list if the configuration is valid
+ */
+export function validateProjectConfig(config: unknown): string[] {
+  if (!matchesType(config, PROJECT_CONFIG_SCHEMA)) return [`${PROJECT_CONFIG_FILE} must contain an object`];
+  return check(config, PROJECT_CONFIG_SCHEMA, '');
+}
+
+/**
+ * Reads and validates the configuration of a project
+ * @param projectDir - The project directory
+ * @returns The configuration, or an empty one if the project has no stalmer1.json
+ * @throws ConfigError if the file is not valid JSON or does not match the schema
+ */
+export function readProjectConfig(projectDir: string): ProjectConfig {
+  const configPath = path.join(projectDir, PROJECT_CONFIG_FILE);
+  if (!fs.existsSync(configPath)) return {};
+  let config: unknown;
+  try {
+    config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    throw new ConfigError(`${PROJECT_CONFIG_FILE} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  const problems = validateProjectConfig(config);
+  if (problems.length > 0) {
+    throw new ConfigError(`Invalid ${PROJECT_CONFIG_FILE}:\n${problems.map(problem => `  ${problem}`).join('\n')}`);
+  }
+  return config as ProjectConfig;
+}
+
+/**
+ * Writes the configuration of a project
+ * @param projectDir - The project directory
+ * @param config - The configuration
+ */
+export function writeProjectConfig(projectDir: string, config: ProjectConfig): void {
+  fs.writeFileSync(path.join(projectDir, PROJECT_CONFIG_FILE), `${JSON.stringify(config, null, 2)}\n`);
+}
+
+/**
+ * Finds the schema of a setting
+ * @param key - A dotted key such as `ports.backend`
+ * @returns The schema, or undefined if there is no such setting
+ */
+function settingSchema(key: string): ConfigSchema | undefined {
+  let schema: ConfigSchema | undefined = PROJECT_CONFIG_SCHEMA;
+  for (const name of key.split('.')) {
+    schema = schema?.properties?.[name];
+  }
+  return schema;
+}
+
+/**
+ * Reads a setting, falling back to its default
+ * @param config - The configuration
+ * @param key - A dotted key such as `ports.backend`
+ * @returns The value, or undefined if it is not set and has no default
+ * @throws ConfigError if there is no such setting
+ */
+export function getConfigValue(config: ProjectConfig, key: string): unknown {
+  const schema = settingSchema(key);
+  if (!schema) throw new ConfigError(`Unknown setting ${key}`);
+  let value: unknown = config;
+  for (const name of key.split('.')) {
+    value = (value as Record<string, unknown> | undefined)?.[name];
+  }
+  return value ?? schema.default;
+}
+
+/**
+ * Converts a value given on the command line to the type of a setting. Lists are given as
+ * JSON or separated by commas.
+ */
+function parseSettingValue(raw: string, schema: ConfigSchema): unknown {
+  const list = () => (raw.trim().startsWith('[') ? JSON.parse(raw) : raw.split(',').map(item => item.trim()).filter(Boolean));
+  if (schema.anyOf) {
+    return raw.trim().startsWith('[') || raw.includes(',') ? list() : raw;
+  }
+  switch (schema.type) {
+    case 'integer':
+      return /^-?\d+$/.test(raw.trim()) ? Number(raw) : raw;
+    case 'array':
+      return list();
+    case 'object':
+      return JSON.parse(raw);
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Changes a setting
+ * @param config - The configuration
+ * @param key - A dotted key such as `ports.backend`
+ * @param raw - The value as given on the command line
+ * @returns The changed configuration
+ * @throws ConfigError if there is no such setting or the value does not match its schema
+ */
+export function setConfigValue(config: ProjectConfig, key: string, raw: string): ProjectConfig {
+  const schema = settingSchema(key);
+  if (!schema) throw new ConfigError(`Unknown setting ${key}`);
+  let value: unknown;
+  try {
+    value = parseSettingValue(raw, schema);
+  } catch {
+    throw new ConfigError(`${key} must be ${describe(schema)}`);
+  }
+
+  const result = JSON.parse(JSON.stringify(config)) as Record<string, unknown>;
+  const names = key.split('.');
+  let target = result;
+  for (const name of names.slice(0, -1)) {
+    target = (target[name] ??= {}) as Record<string, unknown>;
+  }
+  target[names[names.length - 1]] = value;
+
+  const problems = validateProjectConfig(result);
+  if (problems.length > 0) throw new ConfigError(problems.join('\n'));
+  return result as ProjectConfig;
+}
+
+/**
+ * Lists the DSL entry files of a project. Glob patterns such as `schema/*.dsl` are expanded.
+ * @param projectDir - The project directory
+ * @param config - The configuration
+ * @returns The absolute paths of the DSL files; a pattern that matches nothing is returned as
+ *   it is, so that it is reported as missing
+ */
+export function schemaPaths(projectDir: string, config: ProjectConfig): string[] {
+  const schema = getConfigValue(config, 'schema') as string | string[];
+  return (Array.isArray(schema) ? schema : [schema]).flatMap(file => {
+    const matches = isGlob(file) ? matchFiles(projectDir, file) : [];
+    return matches.length > 0 ? matches : [path.resolve(projectDir, file)];
+  });
+}
+
+/**
+ * Finds the output directory of a project
+ * @param projectDir - The project directory
+ * @param config - The configuration
+ * @returns The absolute path of the output directory
+ */
+export function outputDir(projectDir: string, config: ProjectConfig): string {
+  return path.resolve(projectDir, getConfigValue(config, 'outDir') as string);
+}
+
+/**
+ * Applies the project configuration to the IR. Settings from `config` blocks in the schema
+ * take precedence over stalmer1.json, which takes precedence over the defaults.
+ * @param app - The application IR, changed in place
+ * @param config - The configuration
+ * @returns Warnings about settings that the schema and stalmer1.json both set, to different values
+ */
+export function applyProjectConfig(app: IApp, config: ProjectConfig): string[] {
+  const warnings: string[] = [];
+  const irConfig = (app.config ??= {});
+  const conflict = (key: string, schemaValue: unknown, configValue: unknown) => {
+    if (schemaValue !== undefined && configValue !== undefined && schemaValue !== configValue) {
+      warnings.push(`${key} is ${schemaValue} in the schema and ${configValue} in ${PROJECT_CONFIG_FILE}. Using ${schemaValue} from the schema.`);
+    }
+  };
+
+  if (config.name) app.name = config.name;
+
+  conflict('db', irConfig.db, config.db);
+  if (!irConfig.db && config.db) irConfig.db = config.db;
+
+  for (const side of ['backend', 'frontend'] as const) {
+    conflict(`ports.${side}`, irConfig.ports?.[side], config.ports?.[side]);
+    const value = irConfig.ports?.[side] ?? config.ports?.[side];
+    if (value !== undefined) irConfig.ports = { ...irConfig.ports, [side]: value };
+  }
+  return warnings;
+}
@@ -0,0 +1,175 @@
+// Line-based diffing and three-way merging of generated files
+
+export interface MergeResult {
+  lines: string[];
+  conflicts: MergeConflict[];
+}
+
+export interface MergeConflict {
+  line: number; // 1-based line in the merged output where the conflict starts
+  ours: string[]; // the user's version of the region
+  theirs: string[]; // the newly generated version of the region
+}
+
+/**
+ * Splits file content into lines, keeping a trailing newline as a final empty line
+ * @param content - The file content
+ * @returns The lines
+ */
+export function splitLines(content: string): string[] {
+  return content.split(/\r?\n/);
+}
+
+/**
+ * Finds the longest common subsequence of two line arrays
+ * @param a - The first lines
+ * @param b - The second lines
+ * @returns For each line of `a`, the index of its matching line in `b`, or -1
+ */
+export function matchLines(a: string[], b: string[]): number[] {
+  const n = a.length;
+  const m = b.length;
+  // lengths[i * (m + 1) + j] is the LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = a[i] === b[j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const matches = new Array<number>(n).fill(-1);
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      matches[i++] = j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Merges two edited versions of a file against their common base. Regions changed on one
+ * side only take that side's change; regions changed identically on both sides are kept once;
+ * regions changed differently on both sides are conflicts, for which the merged output keeps
+ * the user's version.
+ * @param base - The previously generated content
+ * @param ours - The content on disk, possibly edited by the user
+ * @param theirs - The newly generated content
+ * @returns The merged lines and any conflicts
+ */
+export function merge3(base: string[], ours: string[], theirs: string[]): MergeResult {
+  const oursMatches = matchLines(base, ours);
+  const theirsMatches = matchLines(base, theirs);
+  const lines: string[] = [];
+  const conflicts: MergeConflict[] = [];
+
+  let baseStart = 0;
+  let oursStart = 0;
+  let theirsStart = 0;
+
+  const resolve = (baseEnd: number, oursEnd: number, theirsEnd: number) => {
+    const baseChunk = base.slice(baseStart, baseEnd);
+    const oursChunk = ours.slice(oursStart, oursEnd);
+    const theirsChunk = theirs.slice(theirsStart, theirsEnd);
+    if (sameLines(oursChunk, baseChunk) || sameLines(oursChunk, theirsChunk)) {
+      lines.push(...theirsChunk);
+    } else if (sameLines(theirsChunk, baseChunk)) {
+      lines.push(...oursChunk);
+    } else {
+      conflicts.push({ line: lines.length + 1, ours: oursChunk, theirs: theirsChunk });
+      lines.push(...oursChunk);
+    }
+  };
+
+  // Lines of the base kept by both sides anchor the chunks that are merged in between
+  for (let i = 0; i < base.length; i++) {
+    if (oursMatches[i] === -1 || theirsMatches[i] === -1) continue;
+    resolve(i, oursMatches[i], theirsMatches[i]);
+    lines.push(base[i]);
+    baseStart = i + 1;
+    oursStart = oursMatches[i] + 1;
+    theirsStart = theirsMatches[i] + 1;
+  }
+  resolve(base.length, ours.length, theirs.length);
+
+  return { lines, conflicts };
+}
+
+interface DiffLine {
+  kind: ' ' | '-' | '+';
+  text: string;
+  oldLine: number; // lines of the old content before this one
+  newLine: number; // lines of the new content before this one
+}
+
+function contentLines(content: string | undefined): string[] {
+  if (content === undefined || content === '') return [];
+  const lines = splitLines(content);
+  // A trailing newline ends the last line rather than starting an empty one
+  return lines[lines.length - 1] === '' ? lines.slice(0, -1) : lines;
+}
+
+function hunkRange(start: number, count: number): string {
+  // An empty range is numbered after the line it follows, as in `diff -u`
+  return `${count === 0 ? start : start + 1},${count}`;
+}
+
+/**
+ * Formats the differences between two versions of a file as a unified diff
+ * @param filePath - The file path shown in the headers
+ * @param before - The old content, or undefined if the file is being created
+ * @param after - The new content, or undefined if the file is being deleted
+ * @param context - The number of unchanged lines shown around each change
+ * @returns The diff lines, or no lines if the contents are equal
+ */
+export function unifiedDiff(filePath: string, before: string | undefined, after: string | undefined, context: number = 3): string[] {
+  const a = contentLines(before);
+  const b = contentLines(after);
+  const matches = matchLines(a, b);
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && matches[i] === -1) {
+      lines.push({ kind: '-', text: a[i], oldLine: i++, newLine: j });
+    } else if (j < b.length && (i === a.length || matches[i] !== j)) {
+      lines.push({ kind: '+', text: b[j], oldLine: i, newLine: j++ });
+    } else {
+      lines.push({ kind: ' ', text: a[i], oldLine: i++, newLine: j++ });
+    }
+  }
+
+  const changed = lines.flatMap((line, index) => (line.kind === ' ' ? [] : [index]));
+  if (changed.length === 0) return [];
+
+  const output = [
+    `--- ${before === undefined ? '/dev/null' : `a/${filePath}`}`,
+    `+++ ${after === undefined ? '/dev/null' : `b/${filePath}`}`,
+  ];
+  let first = 0;
+  while (first < changed.length) {
+    // Changes separated by no more than twice the context share a hunk
+    let last = first;
+    while (last + 1 < changed.length && changed[last + 1] - changed[last] <= 2 * context + 1) last++;
+
+    const hunk = lines.slice(Math.max(0, changed[first] - context), Math.min(lines.length, changed[last] + context + 1));
+    const oldCount = hunk.filter(line => line.kind !== '+').length;
+    const newCount = hunk.filter(line => line.kind !== '-').length;
+    output.push(`@@ -${hunkRange(hunk[0].oldLine, oldCount)} +${hunkRange(hunk[0].newLine, newCount)} @@`);
+    output.push(...hunk.map(line => `${line.kind}${line.text}`));
+    first = last + 1;
+  }
+  return output;
+}
@@ -1,43 +1,54 @@
 import { generateBackend } from '@stalmer1/backend-generator';
 import { generateFrontend } from '@stalmer1/frontend-generator';
 import { generateDockerFiles } from '@stalmer1/backend-generator';
-import { IApp } from '@stalmer1/core';
+import { GeneratorOptions, IApp, Stalmer1Plugin, VirtualFileSystem, diskFileSystem } from '@stalmer1/core';
 import * as path from 'path';
 import { generateGitHubActions } from './github-actions';
-import * as fs from 'fs';
+
+export interface FullProjectOptions extends GeneratorOptions {
+  plugins?: Stalmer1Plugin[]; // run after the built-in generators, in order
+}
 
 /**
  * Generates the complete project based on the application IR
  * @param app - The application IR
  * @param outDir - The output directory for the generated files
  * @param verbose - Enable verbose logging
+ * @param options - Where to write the files, which templates shadow the built-in ones and
+ *   which plugins add their own files
  * @returns A promise that resolves when the generation is complete
  */
-export async function generateFullProject(app: IApp, outDir: string, verbose: boolean = false) {
+export async function generateFullProject(app: IApp, outDir: string, verbose: boolean = false, options: FullProjectOptions = {}) {
+  const vfs = options.vfs ?? diskFileSystem;
   // Create output directory if it doesn't exist
-  if (!fs.existsSync(outDir)) {
-    fs.mkdirSync(outDir, { recursive: true });
-  }
+  vfs.mkdir(outDir);
   
   // Generate backend code
   console.log('Generating backend code...');
-  await generateBackend(app, path.join(outDir, 'backend'), verbose);
+  await generateBackend(app, path.join(outDir, 'backend'), verbose, options);
   
   // Generate frontend code
   console.log('Generating frontend code...');
-  await generateFrontend(app, path.join(outDir, 'frontend'), verbose);
+  await generateFrontend(app, path.join(outDir, 'frontend'), verbose, options);
   
   // Generate Docker files
   console.log('Generating Docker files...');
   const db = app.config?.db === 'postgresql' ? 'postgresql' : 'sqlite';
-  generateDockerFiles(app, outDir, db);
+  generateDockerFiles(app, outDir, db, app.config?.ports?.backend, options);
   
   // Generate GitHub Actions workflows
   console.log('Generating CI/CD workflows...');
-  generateGitHubActions(app, outDir);
+  generateGitHubActions(app, outDir, vfs);
   
   // Generate package.json for the root directory
-  generateRootPackageJson(outDir, app.name || 'stalmer1-app');
+  generateRootPackageJson(outDir, app.name || 'stalmer1-app', vfs);
+
+  // Let plugins add their own files
+  for (const plugin of options.plugins ?? []) {
+    if (!plugin.generate) continue;
+    console.log(`Generating ${plugin.name} files...`);
+    await plugin.generate(app, outDir, { vfs, templates: options.templates ?? [], verbose });
+  }
   
   console.log('Project generation complete.');
 }
@@ -46,8 +57,9 @@ export async function generateFullProject(app: IApp, outDir: string, verbose: bo
  * Generates a package.json file for the root directory with scripts for the entire application
  * @param outDir - The output directory
  * @param appName - The name of the application
+ * @param vfs - The file system to write to
  */
-function generateRootPackageJson(outDir: string, appName: string): void {
+function generateRootPackageJson(outDir: string, appName: string, vfs: VirtualFileSystem): void {
   const packageJson = {
     name: appName,
     version: '0.1.0',
@@ -69,7 +81,7 @@ function generateRootPackageJson(outDir: string, appName: string): void {
     }
   };
   
-  fs.writeFileSync(
+  vfs.writeFile(
     path.join(outDir, 'package.json'),
     JSON.stringify(packageJson, null, 2)
   );
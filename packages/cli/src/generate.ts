@@ -1,103 +1,149 @@
 import { Command } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
-import { parseDSL, DSLParsingError } from '@stalmer1/core';
+import {
+  IApp,
+  IRError,
+  parseDSLFiles,
+  pluginBlocks,
+  transformIR,
+  DSLParsingError,
+  PluginError,
+  TEMPLATE_CONTEXT_VERSION,
+  TemplateError,
+  createMemoryFileSystem,
+  readIR,
+} from '@stalmer1/core';
 import { generateFullProject } from './full-generator';
+import { applyPlan, formatChanges, formatDiffs, hasChanges, planGeneratedFiles } from './regenerate';
+import { MigrationPlan, planMigration, renderViewMigration } from '@stalmer1/backend-generator';
+import {
+  GENERATED_SNAPSHOT,
+  MIGRATED_SNAPSHOT,
+  cleanOutputDir,
+  destructiveOperations,
+  formatMigrationPlan,
+  readSnapshot,
+  writeSnapshot,
+} from './migrations';
+import { resolveTemplateSources } from './templates';
+import { ProjectConfig, applyProjectConfig, outputDir, readProjectConfig, schemaPaths } from './config';
+import { loadPlugins } from './plugins';
 import { spawn } from 'child_process';
 
 /**
- * Runs Prisma database migrations
+ * Runs a command and waits for it to exit
+ * @param command - The command
+ * @param args - The command arguments
+ * @param cwd - The working directory
+ * @param env - Extra environment variables
+ * @returns A promise that resolves with the exit code
+ */
+function runCommand(command: string, args: string[], cwd: string, env: Record<string, string> = {}): Promise<number | null> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { cwd, stdio: 'inherit', env: { ...process.env, ...env } });
+    child.on('error', reject);
+    child.on('close', resolve);
+  });
+}
+
+/**
+ * Appends the view SQL of a migration plan to the migration Prisma created for it, or to a new
+ * migration if Prisma did not create one
+ * @param backendDir - The backend directory
+ * @param plan - The migration plan
+ * @param sql - The view SQL
+ */
+function addViewMigration(backendDir: string, plan: MigrationPlan, sql: string): void {
+  const migrationsDir = path.join(backendDir, 'prisma', 'migrations');
+  const created = fs.existsSync(migrationsDir)
+    ? fs.readdirSync(migrationsDir).filter(name => name.endsWith(`_${plan.name}`)).sort().pop()
+    : undefined;
+  const timestamp = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  const migrationDir = path.join(migrationsDir, created ?? `${timestamp}_${plan.name}`);
+  const migrationPath = path.join(migrationDir, 'migration.sql');
+
+  fs.mkdirSync(migrationDir, { recursive: true });
+  const existing = fs.existsSync(migrationPath) ? fs.readFileSync(migrationPath, 'utf-8').trimEnd() : '';
+  fs.writeFileSync(migrationPath, `${existing ? `${existing}\n\n` : ''}-- Views\n${sql}\n`);
+}
+
+/**
+ * Migrates the database from the IR it was last migrated to to the IR the code was last
+ * generated from. The migration is named after the changes, and destructive changes are
+ * refused unless they are allowed.
  * @param outDir - The output directory where the backend code is generated
+ * @param allowDestructive - Run migrations that can lose data or fail on existing rows
  * @returns A promise that resolves when the migrations are complete
  */
-async function runDatabaseMigrations(outDir: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    console.log('Running database migrations...');
-    const backendDir = path.join(outDir, 'backend');
-    
-    // Initialize steps for progress tracking
-    const steps = [
-      { name: 'Installing Prisma client', done: false },
-      { name: 'Initializing database', done: false },
-      { name: 'Running migrations', done: false },
-      { name: 'Generating Prisma client', done: false }
-    ];
-    
-    function updateProgress(stepIndex: number) {
-      steps[stepIndex].done = true;
-      const completedSteps = steps.filter(step => step.done).length;
-      const totalSteps = steps.length;
-      const percent = Math.round((completedSteps / totalSteps) * 100);
-      console.log(`[${percent}%] ${steps[stepIndex].name} - Completed`);
-    }
-    
-    // Step 1: Ensure that prisma client is installed
-    console.log(`[0%] ${steps[0].name}...`);
-    const npmInstall = spawn('npm', ['install', '@prisma/client'], {
-      cwd: backendDir,
-      stdio: 'inherit'
-    });
-    
-    npmInstall.on('close', (code) => {
-      if (code !== 0) {
-        reject(new Error('Failed to install @prisma/client. Please check your npm configuration and try again.'));
-        return;
-      }
-      
-      updateProgress(0);
-      
-      // Step 2: Initialize the database
-      console.log(`[25%] ${steps[1].name}...`);
-      const prismaInit = spawn('npx', ['prisma', 'db', 'push', '--preview-feature'], {
-        cwd: backendDir,
-        stdio: 'inherit'
-      });
-      
-      prismaInit.on('close', (code) => {
-        if (code !== 0) {
-          reject(new Error('Failed to initialize the database. Please check your database configuration and permissions.'));
-          return;
-        }
-        
-        updateProgress(1);
-        
-        // Step 3: Run prisma migrate dev
-        console.log(`[50%] ${steps[2].name}...`);
-        const prisma = spawn('npx', ['prisma', 'migrate', 'dev', '--name', 'initial'], {
-          cwd: backendDir,
-          stdio: 'inherit',
-          env: { ...process.env, PRISMA_MIGRATION_SKIP_GENERATE: '1' } // Skip client generation during migration
-        });
-        
-        prisma.on('close', (code) => {
-          if (code !== 0) {
-            reject(new Error('Failed to run prisma migrations. The schema may have validation errors or the database may be inaccessible.'));
-            return;
-          }
-          
-          updateProgress(2);
-          
-          // Step 4: Generate Prisma client
-          console.log(`[75%] ${steps[3].name}...`);
-          const prismaGenerate = spawn('npx', ['prisma', 'generate'], {
-            cwd: backendDir,
-            stdio: 'inherit'
-          });
-          
-          prismaGenerate.on('close', (code) => {
-            if (code !== 0) {
-              reject(new Error('Failed to generate Prisma client. The schema may have validation errors.'));
-              return;
-            }
-            
-            updateProgress(3);
-            console.log('[100%] Database migrations completed successfully.');
-            resolve();
-          });
-        });
-      });
+async function runDatabaseMigrations(outDir: string, allowDestructive: boolean = false): Promise<void> {
+  const generated = readSnapshot(outDir, GENERATED_SNAPSHOT);
+  if (!generated) {
+    throw new Error('No IR snapshot found. Please run `stalmer1 generate` first.');
+  }
+  const plan = planMigration(readSnapshot(outDir, MIGRATED_SNAPSHOT), generated);
+  formatMigrationPlan(plan).forEach(line => console.log(line));
+
+  const destructive = destructiveOperations(plan);
+  if (destructive.length > 0 && !allowDestructive) {
+    throw new Error(`The migration has ${destructive.length} destructive operation${destructive.length === 1 ? '' : 's'}. Review ${destructive.length === 1 ? 'it' : 'them'} and run again with --allow-destructive.`);
+  }
+
+  console.log('Running database migrations...');
+  const backendDir = path.join(outDir, 'backend');
+
+  // Initialize steps for progress tracking
+  const steps = [
+    { name: 'Installing Prisma client', done: false },
+    { name: `Creating migration ${plan.name || '(no changes)'}`, done: false },
+    { name: 'Applying migrations', done: false },
+    { name: 'Generating Prisma client', done: false }
+  ];
+
+  function updateProgress(stepIndex: number) {
+    steps[stepIndex].done = true;
+    const completedSteps = steps.filter(step => step.done).length;
+    const totalSteps = steps.length;
+    const percent = Math.round((completedSteps / totalSteps) * 100);
+    console.log(`[${percent}%] ${steps[stepIndex].name} - Completed`);
+  }
+
+  // Step 1: Ensure that prisma client is installed
+  console.log(`[0%] ${steps[0].name}...`);
+  if (await runCommand('npm', ['install', '@prisma/client'], backendDir) !== 0) {
+    throw new Error('Failed to install @prisma/client. Please check your npm configuration and try again.');
+  }
+  updateProgress(0);
+
+  // Step 2: Create a migration named after the changes, without applying it yet
+  console.log(`[25%] ${steps[1].name}...`);
+  if (plan.operations.length > 0) {
+    const code = await runCommand('npx', ['prisma', 'migrate', 'dev', '--create-only', '--name', plan.name], backendDir, {
+      PRISMA_MIGRATION_SKIP_GENERATE: '1', // Skip client generation during migration
     });
-  });
+    if (code !== 0) {
+      throw new Error('Failed to create the migration. The schema may have validation errors or the database may be inaccessible.');
+    }
+    const viewSql = renderViewMigration(plan, generated);
+    if (viewSql) addViewMigration(backendDir, plan, viewSql);
+  }
+  updateProgress(1);
+
+  // Step 3: Apply the pending migrations
+  console.log(`[50%] ${steps[2].name}...`);
+  if (await runCommand('npx', ['prisma', 'migrate', 'deploy'], backendDir) !== 0) {
+    throw new Error('Failed to apply the migrations. The database may be inaccessible.');
+  }
+  updateProgress(2);
+  writeSnapshot(outDir, MIGRATED_SNAPSHOT, generated);
+
+  // Step 4: Generate Prisma client
+  console.log(`[75%] ${steps[3].name}...`);
+  if (await runCommand('npx', ['prisma', 'generate'], backendDir) !== 0) {
+    throw new Error('Failed to generate Prisma client. The schema may have validation errors.');
+  }
+  updateProgress(3);
+  console.log('[100%] Database migrations completed successfully.');
 }
 
 export const generateCommand = new Command('generate')
@@ -105,11 +151,23 @@ export const generateCommand = new Command('generate')
   .option('--clean', 'Perform a clean build, removing all existing generated files.')
   .option('--skip-migrations', 'Skip running database migrations after code generation.')
   .option('--migrations-only', 'Only run database migrations without generating code.')
+  .option('--force', 'Overwrite files you have modified instead of merging your changes.')
+  .option('--allow-destructive', 'Run migrations that drop columns or tables, narrow column types or add required fields without defaults.')
+  .option('--dry-run', 'Show the files that would be added, changed or deleted, with diffs, without writing them. Exits with a non-zero code if the output would change.')
+  .option('--ir <file>', 'Generate from an IR JSON file, as written by `stalmer1 ir export`, instead of the .dsl files.')
   .option('--verbose', 'Enable verbose logging', false)
   .action(async (options) => {
     const cwd = process.cwd();
-    const schemaPath = path.join(cwd, 'schema.dsl');
-    const outDir = path.join(cwd, 'src'); // Default output directory
+    let projectConfig: ProjectConfig;
+    try {
+      projectConfig = readProjectConfig(cwd);
+    } catch (configError) {
+      console.error(`Error: ${configError instanceof Error ? configError.message : configError}`);
+      process.exit(1);
+      return;
+    }
+    const schemaFiles = schemaPaths(cwd, projectConfig);
+    const outDir = outputDir(cwd, projectConfig);
     
     // Handle migrations-only case first
     if (options.migrationsOnly) {
@@ -118,7 +176,7 @@ export const generateCommand = new Command('generate')
           console.error('Error: No schema.prisma found. Please generate the code first.');
           process.exit(1);
         }
-        await runDatabaseMigrations(outDir);
+        await runDatabaseMigrations(outDir, options.allowDestructive);
         process.exit(0);
       } catch (migrateError) {
         console.error('Error during database migration:', migrateError instanceof Error ? migrateError.message : "Unknown error occurred");
@@ -126,32 +184,103 @@ export const generateCommand = new Command('generate')
       }
     }
 
-    if (!fs.existsSync(schemaPath)) {
-      console.error('Error: No schema.dsl found in the current directory.');
-      console.error('Please create a schema.dsl file or run `stalmer1 init` to generate one.');
+    if (options.dryRun && options.clean) {
+      console.error('Error: --clean cannot be combined with --dry-run.');
       process.exit(1);
     }
 
-    const dsl = fs.readFileSync(schemaPath, 'utf-8');
+    const missing = options.ir ? [] : schemaFiles.filter(file => !fs.existsSync(file));
+    if (missing.length > 0) {
+      console.error(`Error: ${missing.map(file => path.relative(cwd, file)).join(', ')} not found.`);
+      console.error('Please create a schema.dsl file or run `stalmer1 init` to generate one.');
+      process.exit(1);
+      return;
+    }
 
     try {
-      console.log('Parsing DSL schema...');
-      const ir = parseDSL(dsl, schemaPath);
-      console.log('Schema parsed successfully.');
+      const plugins = loadPlugins(cwd, projectConfig.plugins);
+      for (const plugin of plugins) {
+        console.log(`Using plugin ${plugin.name}`);
+      }
+
+      let parsed: IApp;
+      if (options.ir) {
+        console.log(`Reading IR from ${options.ir}...`);
+        parsed = readIR(path.resolve(cwd, options.ir));
+      } else {
+        console.log('Parsing DSL schema...');
+        const files = schemaFiles.map(file => ({ filePath: file, source: fs.readFileSync(file, 'utf-8') }));
+        parsed = parseDSLFiles(files, { blocks: pluginBlocks(plugins) });
+      }
+      applyProjectConfig(parsed, projectConfig).forEach(warning => console.warn(`Warning: ${warning}`));
+      const ir = transformIR(parsed, plugins);
+      console.log(options.ir ? 'IR read successfully.' : 'Schema parsed successfully.');
+
+      const templates = resolveTemplateSources(cwd, projectConfig.templates);
+      for (const source of templates) {
+        console.log(`Using templates from ${source.name}`);
+        if (source.contextVersion === undefined) {
+          console.warn(`Warning: ${source.name} does not declare a template context version. It is assumed to be ${TEMPLATE_CONTEXT_VERSION}.`);
+        }
+      }
+
+      console.log(`Generating application code to: ${outDir}`);
+      // Generate in memory, then apply the files without losing hand edits
+      const vfs = createMemoryFileSystem();
+      await generateFullProject(ir, outDir, options.verbose, { vfs, templates, plugins });
+      const migration = planMigration(readSnapshot(outDir, MIGRATED_SNAPSHOT), ir);
+
+      // Refuse before writing anything, so the code never runs ahead of a migration that cannot run
+      const destructive = destructiveOperations(migration);
+      if (!options.dryRun && !options.skipMigrations && destructive.length > 0 && !options.allowDestructive) {
+        formatMigrationPlan(migration).forEach(line => console.log(line));
+        console.error(`\nThe database migration has ${destructive.length} destructive operation${destructive.length === 1 ? '' : 's'}, so no files were written.`);
+        console.error('Review the changes and run again with --allow-destructive, or with --skip-migrations to only update the code.');
+        process.exit(1);
+        return;
+      }
 
       if (options.clean) {
         console.log(`Cleaning output directory: ${outDir}`);
-        fs.rmSync(outDir, { recursive: true, force: true });
+        cleanOutputDir(outDir);
       }
+      const plan = planGeneratedFiles(vfs.readDirectory(outDir), outDir, { force: options.force });
+      const changes = plan.changes;
 
-      console.log(`Generating application code to: ${outDir}`);
-      await generateFullProject(ir, outDir, options.verbose);
+      if (options.dryRun) {
+        console.log('\nDry run: no files were written.');
+        formatChanges(changes).forEach(line => console.log(line));
+        const diffs = formatDiffs(plan, outDir);
+        if (diffs.length > 0) console.log('');
+        diffs.forEach(line => console.log(line));
+        console.log('');
+        formatMigrationPlan(migration).forEach(line => console.log(line));
+        if (hasChanges(changes)) {
+          console.error('\nThe generated code is out of date. Run `stalmer1 generate` to update it.');
+          process.exit(1);
+          return;
+        }
+        console.log('The generated code is up to date.');
+        return;
+      }
+
+      applyPlan(plan, outDir);
+      writeSnapshot(outDir, GENERATED_SNAPSHOT, ir);
+      formatChanges(changes).forEach(line => console.log(line));
+
+      const conflicts = changes.filter(change => change.status === 'conflict');
+      if (conflicts.length > 0) {
+        console.error(`\n${conflicts.length} file${conflicts.length === 1 ? '' : 's'} could not be updated because your changes overlap with the regenerated code.`);
+        console.error('Resolve the conflicts by hand, move your code into // @custom-start and // @custom-end regions, or run with --force to overwrite your changes.');
+        process.exit(1);
+        return;
+      }
       console.log('Code generation complete.');
       
       // Run database migrations unless skipped
       if (!options.skipMigrations) {
         try {
-          await runDatabaseMigrations(outDir);
+          await runDatabaseMigrations(outDir, options.allowDestructive);
         } catch (migrateError) {
           console.error('Error during database migration:', migrateError instanceof Error ? migrateError.message : "Unknown error occurred");
           console.log('You can skip migrations next time using the --skip-migrations flag');
@@ -167,6 +296,12 @@ export const generateCommand = new Command('generate')
     } catch (err) {
       if (err instanceof DSLParsingError) {
         console.error(`\nError parsing DSL file: ${err.message}`);
+      } else if (err instanceof IRError) {
+        console.error(`\nError reading IR: ${err.message}`);
+      } else if (err instanceof TemplateError) {
+        console.error(`\nTemplate error: ${err.message}`);
+      } else if (err instanceof PluginError) {
+        console.error(`\nPlugin error: ${err.message}`);
       } else if (err instanceof Error) {
         console.error(`\nError during code generation: ${err.message}`);
       } else {
@@ -1,15 +1,15 @@
-import * as fs from 'fs';
 import * as path from 'path';
-import { IApp } from '@stalmer1/core';
+import { IApp, VirtualFileSystem, diskFileSystem } from '@stalmer1/core';
 
 /**
  * Generates GitHub Actions workflow files for CI/CD
  * @param app - The application IR
  * @param outDir - The output directory for the generated files
+ * @param vfs - The file system to write the workflows to
  */
-export function generateGitHubActions(app: IApp, outDir: string): void {
+export function generateGitHubActions(app: IApp, outDir: string, vfs: VirtualFileSystem = diskFileSystem): void {
   const actionsDir = path.join(outDir, '.github', 'workflows');
-  fs.mkdirSync(actionsDir, { recursive: true });
+  vfs.mkdir(actionsDir);
   
   // Determine database type
   const dbType = app.config?.db === 'postgresql' ? 'postgresql' : 'sqlite';
@@ -20,11 +20,11 @@ export function generateGitHubActions(app: IApp, outDir: string): void {
   
   // Generate CI workflow
   const ciWorkflow = generateCIWorkflow(dbType, hasAuth, authProvider);
-  fs.writeFileSync(path.join(actionsDir, 'ci.yml'), ciWorkflow);
+  vfs.writeFile(path.join(actionsDir, 'ci.yml'), ciWorkflow);
   
   // Generate CD workflow
   const cdWorkflow = generateCDWorkflow(dbType);
-  fs.writeFileSync(path.join(actionsDir, 'deploy.yml'), cdWorkflow);
+  vfs.writeFile(path.join(actionsDir, 'deploy.yml'), cdWorkflow);
 }
 
 /**
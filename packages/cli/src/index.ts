@@ -5,6 +5,11 @@ import { generateCommand } from './generate';
 import { testCommand } from './commands/testCommand';
 import { serveCommand } from './serve';
 import { validateCommand } from './commands/validate';
+import { configCommand } from './commands/config';
+import { fmtCommand } from './commands/fmt';
+import { irCommand } from './commands/ir';
+import { readProjectConfig } from './config';
+import { loadPlugins } from './plugins';
 import { version } from '../package.json';
 
 const program = new Command();
@@ -19,5 +24,17 @@ program.addCommand(generateCommand);
 program.addCommand(testCommand);
 program.addCommand(serveCommand);
 program.addCommand(validateCommand());
+program.addCommand(configCommand());
+program.addCommand(fmtCommand());
+program.addCommand(irCommand());
+
+// Plugins configured in the project can add their own commands
+try {
+  for (const plugin of loadPlugins(process.cwd(), readProjectConfig(process.cwd()).plugins)) {
+    plugin.commands?.(program);
+  }
+} catch (error) {
+  console.error(`Warning: plugin commands are unavailable: ${error instanceof Error ? error.message : error}`);
+}
 
 program.parse(process.argv);
@@ -1,6 +1,7 @@
 import { Command } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
+import { PROJECT_CONFIG_FILE, ProjectConfig, writeProjectConfig } from './config';
 
 export const initCommand = new Command('init')
   .description('Initialize a new Stalmer1 project')
@@ -10,17 +11,14 @@ export const initCommand = new Command('init')
 export function initAction(opts: { db?: string }) {
   const cwd = process.cwd();
   const schemaPath = path.join(cwd, 'schema.dsl');
-  const configPath = path.join(cwd, 'stalmer1.json');
+  const configPath = path.join(cwd, PROJECT_CONFIG_FILE);
   if (fs.existsSync(schemaPath) || fs.existsSync(configPath)) {
     console.error('Project already initialized in this directory.');
     process.exit(1);
     return;
   }
-  fs.writeFileSync(schemaPath, `# Example Stalmer1 DSL\nentity User {\n  id: ID!\n  name: String!\n}\n`);
-  const db = opts.db && ['sqlite', 'postgresql'].includes(opts.db) ? opts.db : 'sqlite';
-  fs.writeFileSync(
-    configPath,
-    JSON.stringify({ name: 'stalmer1-app', version: '0.1.0', db }, null, 2)
-  );
+  fs.writeFileSync(schemaPath, `// Example Stalmer1 DSL\nentity User {\n  email: String unique\n  name: String\n}\n`);
+  const db: ProjectConfig['db'] = opts.db === 'postgresql' ? 'postgresql' : 'sqlite';
+  writeProjectConfig(cwd, { name: 'stalmer1-app', version: '0.1.0', schema: 'schema.dsl', outDir: 'src', db });
   console.log(`Initialized new Stalmer1 project with database: ${db}`);
 }
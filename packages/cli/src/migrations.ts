@@ -0,0 +1,79 @@
+// Keeps the IR snapshots that database migrations are planned from
+import * as fs from 'fs';
+import * as path from 'path';
+import { IApp } from '@stalmer1/core';
+import { MigrationPlan } from '@stalmer1/backend-generator';
+import { MANIFEST_DIR } from './regenerate';
+
+export const GENERATED_SNAPSHOT = 'ir.json'; // the IR the code was last generated from
+export const MIGRATED_SNAPSHOT = 'migrated-ir.json'; // the IR the database was last migrated to
+
+// The paths under the output directory that record the state of the database, which --clean keeps
+const DATABASE_STATE = [`${MANIFEST_DIR}/${GENERATED_SNAPSHOT}`, `${MANIFEST_DIR}/${MIGRATED_SNAPSHOT}`, 'backend/prisma/migrations'];
+
+/**
+ * Reads an IR snapshot from the output directory
+ * @param outDir - The output directory
+ * @param fileName - GENERATED_SNAPSHOT or MIGRATED_SNAPSHOT
+ * @returns The IR, or undefined if there is no snapshot yet
+ */
+export function readSnapshot(outDir: string, fileName: string): IApp | undefined {
+  const snapshotPath = path.join(outDir, MANIFEST_DIR, fileName);
+  if (!fs.existsSync(snapshotPath)) return undefined;
+  return JSON.parse(fs.readFileSync(snapshotPath, 'utf-8')) as IApp;
+}
+
+/**
+ * Writes an IR snapshot to the output directory
+ * @param outDir - The output directory
+ * @param fileName - GENERATED_SNAPSHOT or MIGRATED_SNAPSHOT
+ * @param app - The IR
+ */
+export function writeSnapshot(outDir: string, fileName: string, app: IApp): void {
+  fs.mkdirSync(path.join(outDir, MANIFEST_DIR), { recursive: true });
+  fs.writeFileSync(path.join(outDir, MANIFEST_DIR, fileName), JSON.stringify(app, null, 2));
+}
+
+/**
+ * Removes the generated files from the output directory, but keeps the IR snapshots and the
+ * migrations, so that the next migration is still planned against the database as it is
+ * @param outDir - The output directory
+ */
+export function cleanOutputDir(outDir: string): void {
+  const clean = (dir: string, relDir: string) => {
+    if (!fs.existsSync(dir)) return;
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const relPath = relDir ? `${relDir}/${entry.name}` : entry.name;
+      if (DATABASE_STATE.includes(relPath)) continue;
+      if (entry.isDirectory() && DATABASE_STATE.some(kept => kept.startsWith(`${relPath}/`))) {
+        clean(path.join(dir, entry.name), relPath);
+      } else {
+        fs.rmSync(path.join(dir, entry.name), { recursive: true, force: true });
+      }
+    }
+  };
+  clean(outDir, '');
+}
+
+/**
+ * Formats a migration plan: its name, then one line per operation with the reason it is
+ * destructive, if it is
+ * @param plan - The migration plan
+ * @returns The report lines
+ */
+export function formatMigrationPlan(plan: MigrationPlan): string[] {
+  if (plan.operations.length === 0) return ['The database schema is up to date.'];
+  return [
+    `Migration ${plan.name}:`,
+    ...plan.operations.map(op => `  ${op.description}${op.destructive ? ` (destructive: ${op.destructive})` : ''}`),
+  ];
+}
+
+/**
+ * Lists the destructive operations of a migration plan
+ * @param plan - The migration plan
+ * @returns The operations that can lose data or fail on existing rows
+ */
+export function destructiveOperations(plan: MigrationPlan) {
+  return plan.operations.filter(op => op.destructive);
+}
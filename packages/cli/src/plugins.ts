@@ -0,0 +1,50 @@
+// Loads the plugins configured in stalmer1.json
+import { Command } from 'commander';
+import * as path from 'path';
+import { PluginError, Stalmer1Plugin } from '@stalmer1/core';
+
+export interface CliPlugin extends Stalmer1Plugin {
+  /**
+   * Adds subcommands to the CLI
+   * @param program - The `stalmer1` command
+   */
+  commands?(program: Command): void;
+}
+
+/**
+ * Finds the module of a plugin
+ * @param projectDir - The project directory
+ * @param name - An npm package installed in the project, or a path relative to it
+ * @returns The module path
+ */
+function resolvePlugin(projectDir: string, name: string): string {
+  const request = name.startsWith('.') ? path.resolve(projectDir, name) : name;
+  try {
+    return require.resolve(request, { paths: [projectDir] });
+  } catch {
+    throw new PluginError(
+      name.startsWith('.') ? `Plugin module ${request} not found` : `Plugin not found. Install it with \`npm install --save-dev ${name}\``,
+      name,
+    );
+  }
+}
+
+/**
+ * Loads plugins. A plugin module exports the plugin, as its default export or as the module
+ * itself, or a function that returns it.
+ * @param projectDir - The project directory
+ * @param names - The `plugins` section of stalmer1.json
+ * @returns The plugins, in the order they are listed
+ */
+export function loadPlugins(projectDir: string, names: string[] = []): CliPlugin[] {
+  return names.map(name => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const exported = require(resolvePlugin(projectDir, name));
+    const candidate = exported?.default ?? exported;
+    const plugin = typeof candidate === 'function' ? candidate() : candidate;
+    if (!plugin || typeof plugin.name !== 'string') {
+      throw new PluginError('The module does not export a plugin, an object with a `name`', name);
+    }
+    return plugin as CliPlugin;
+  });
+}
@@ -0,0 +1,300 @@
+// Applies freshly generated files to an output directory without losing hand edits
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { diskFileSystem, isUserOwned } from '@stalmer1/core';
+import { MergeConflict, merge3, splitLines, unifiedDiff } from './diff';
+
+export const MANIFEST_DIR = '.stalmer1';
+export const MANIFEST_FILE = 'manifest.json';
+
+export interface Manifest {
+  version: 1;
+  files: Record<string, string>; // relative path -> hash of the generated content
+}
+
+export type FileStatus = 'created' | 'updated' | 'unchanged' | 'merged' | 'conflict' | 'deleted' | 'kept';
+
+export interface FileChange {
+  path: string; // relative to the output directory, with forward slashes
+  status: FileStatus;
+  conflicts?: MergeConflict[];
+}
+
+export interface ApplyOptions {
+  force?: boolean; // overwrite modified files instead of merging them
+}
+
+export interface GenerationPlan {
+  changes: FileChange[];
+  writes: Map<string, string>; // relative path -> content, including the files under MANIFEST_DIR
+  removals: string[]; // relative paths
+}
+
+const REGION_START = /@custom-start(?:\s+([\w.-]+))?/;
+const REGION_END = /@custom-end/;
+
+// Generated migrations are a history that may already be applied, so they are never deleted
+const KEEP_WHEN_STALE = /(^|\/)prisma\/migrations\//;
+
+/**
+ * Collects the bodies of the `@custom-start`/`@custom-end` regions in a file. Regions are
+ * keyed by the name after `@custom-start`, or by their position among unnamed regions.
+ * @param content - The file content
+ * @returns The region bodies by key
+ */
+export function extractCustomRegions(content: string): Map<string, string[]> {
+  const regions = new Map<string, string[]>();
+  let unnamed = 0;
+  let current: { key: string; body: string[] } | undefined;
+
+  for (const line of splitLines(content)) {
+    if (current) {
+      if (REGION_END.test(line)) {
+        regions.set(current.key, current.body);
+        current = undefined;
+      } else {
+        current.body.push(line);
+      }
+      continue;
+    }
+    const start = line.match(REGION_START);
+    if (start) {
+      current = { key: start[1] ?? `#${unnamed++}`, body: [] };
+    }
+  }
+  return regions;
+}
+
+/**
+ * Replaces the bodies of the custom regions in generated content with the given bodies
+ * @param content - The generated content
+ * @param regions - Region bodies by key, usually taken from the file on disk
+ * @returns The content with the regions filled in
+ */
+export function restoreCustomRegions(content: string, regions: Map<string, string[]>): string {
+  if (regions.size === 0) return content;
+
+  const output: string[] = [];
+  let unnamed = 0;
+  let skipping = false;
+  for (const line of splitLines(content)) {
+    if (skipping) {
+      if (!REGION_END.test(line)) continue;
+      skipping = false;
+    }
+    output.push(line);
+    const start = line.match(REGION_START);
+    const body = start && regions.get(start[1] ?? `#${unnamed++}`);
+    if (body) {
+      output.push(...body);
+      skipping = true;
+    }
+  }
+  return output.join('\n');
+}
+
+/**
+ * Hashes generated content with its custom region bodies left out, so that edits inside
+ * custom regions do not count as modifications
+ * @param content - The file content
+ * @returns The hex-encoded SHA-256 hash
+ */
+export function hashGenerated(content: string): string {
+  const emptyRegions = new Map([...extractCustomRegions(content).keys()].map(key => [key, [] as string[]]));
+  return crypto.createHash('sha256').update(restoreCustomRegions(content, emptyRegions)).digest('hex');
+}
+
+/**
+ * Reads the manifest of previously generated files
+ * @param outDir - The output directory
+ * @returns The manifest, or undefined if the directory has not been generated with one
+ */
+export function readManifest(outDir: string): Manifest | undefined {
+  const manifestPath = path.join(outDir, MANIFEST_DIR, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) return undefined;
+  return JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as Manifest;
+}
+
+/**
+ * Works out how generated files would be applied to an output directory, without writing
+ * anything. Files the user has not modified since the last generation are overwritten, keeping
+ * the bodies of their custom regions. Modified files are merged with the new version against
+ * the previously generated one; when the changes overlap, the file is left as it is and the
+ * conflict is reported. Files that are no longer generated are deleted unless the user
+ * modified them. User-owned files (see isUserOwned) are created once and never touched again.
+ * @param generated - The generated file contents by path relative to the output directory
+ * @param outDir - The output directory
+ * @param options - Apply options
+ * @returns What would happen to each file, and the writes and removals that do it
+ */
+export function planGeneratedFiles(generated: Map<string, string>, outDir: string, options: ApplyOptions = {}): GenerationPlan {
+  const previous = readManifest(outDir)?.files ?? {};
+  const files: Record<string, string> = {};
+  const changes: FileChange[] = [];
+  const writes = new Map<string, string>();
+  const removals: string[] = [];
+  const basePath = (relPath: string) => `${MANIFEST_DIR}/base/${relPath}`;
+  const readCurrent = (relPath: string) => fs.readFileSync(path.join(outDir, relPath), 'utf-8');
+
+  for (const relPath of [...generated.keys()].sort()) {
+    const content = generated.get(relPath) as string;
+    const hash = hashGenerated(content);
+
+    // User-owned files are only ever created, even with --force, and are not recorded in the manifest
+    if (isUserOwned(content)) {
+      if (fs.existsSync(path.join(outDir, relPath))) {
+        changes.push({ path: relPath, status: 'unchanged' });
+      } else {
+        writes.set(relPath, content);
+        changes.push({ path: relPath, status: 'created' });
+      }
+      continue;
+    }
+
+    if (!fs.existsSync(path.join(outDir, relPath))) {
+      writes.set(relPath, content);
+      changes.push({ path: relPath, status: 'created' });
+    } else {
+      const current = readCurrent(relPath);
+      const next = restoreCustomRegions(content, extractCustomRegions(current));
+
+      if (next === current) {
+        changes.push({ path: relPath, status: 'unchanged' });
+      } else if (options.force || previous[relPath] === hashGenerated(current)) {
+        writes.set(relPath, next);
+        changes.push({ path: relPath, status: 'updated' });
+      } else {
+        // The user modified the file: merge against the version generated last time. A file
+        // that no previous generation wrote has no base and is never overwritten.
+        if (!previous[relPath] || !fs.existsSync(path.join(outDir, basePath(relPath)))) {
+          changes.push({ path: relPath, status: 'conflict', conflicts: [] });
+          continue;
+        }
+        const base = readCurrent(basePath(relPath));
+        const result = merge3(splitLines(base), splitLines(current), splitLines(next));
+        if (result.conflicts.length > 0) {
+          changes.push({ path: relPath, status: 'conflict', conflicts: result.conflicts });
+          // Keep the previous record so the next run merges against the same base
+          files[relPath] = previous[relPath];
+          continue;
+        }
+        const merged = result.lines.join('\n');
+        if (merged === current) {
+          changes.push({ path: relPath, status: 'unchanged' });
+        } else {
+          writes.set(relPath, merged);
+          changes.push({ path: relPath, status: 'merged' });
+        }
+      }
+    }
+
+    files[relPath] = hash;
+    writes.set(basePath(relPath), content);
+  }
+
+  for (const relPath of Object.keys(previous)) {
+    if (files[relPath] || changes.some(change => change.path === relPath)) continue;
+    const targetPath = path.join(outDir, relPath);
+    if (KEEP_WHEN_STALE.test(relPath)) {
+      files[relPath] = previous[relPath];
+      continue;
+    }
+    if (fs.existsSync(targetPath)) {
+      if (options.force || hashGenerated(readCurrent(relPath)) === previous[relPath]) {
+        removals.push(relPath);
+        changes.push({ path: relPath, status: 'deleted' });
+      } else {
+        changes.push({ path: relPath, status: 'kept' });
+      }
+    }
+    removals.push(basePath(relPath));
+  }
+
+  const manifest: Manifest = {
+    version: 1,
+    files: Object.fromEntries(Object.entries(files).sort(([a], [b]) => a.localeCompare(b))),
+  };
+  writes.set(`${MANIFEST_DIR}/${MANIFEST_FILE}`, JSON.stringify(manifest, null, 2));
+  return { changes, writes, removals };
+}
+
+/**
+ * Carries out a plan made by planGeneratedFiles
+ * @param plan - The plan
+ * @param outDir - The output directory
+ */
+export function applyPlan(plan: GenerationPlan, outDir: string): void {
+  for (const [relPath, content] of plan.writes) {
+    diskFileSystem.writeFile(path.join(outDir, relPath), content);
+  }
+  for (const relPath of plan.removals) {
+    fs.rmSync(path.join(outDir, relPath), { force: true });
+  }
+}
+
+/**
+ * Applies generated files to an output directory without losing hand edits
+ * (see planGeneratedFiles)
+ * @param generated - The generated file contents by path relative to the output directory
+ * @param outDir - The output directory
+ * @param options - Apply options
+ * @returns What happened to each file
+ */
+export function applyGeneratedFiles(generated: Map<string, string>, outDir: string, options: ApplyOptions = {}): FileChange[] {
+  const plan = planGeneratedFiles(generated, outDir, options);
+  applyPlan(plan, outDir);
+  return plan.changes;
+}
+
+/**
+ * Tells whether applying the changes would modify the output directory
+ * @param changes - The file changes
+ * @returns True if any file would be created, updated, merged or deleted, or is in conflict
+ */
+export function hasChanges(changes: FileChange[]): boolean {
+  return changes.some(change => change.status !== 'unchanged' && change.status !== 'kept');
+}
+
+/**
+ * Formats the result of applying generated files: one line per changed file, followed by the
+ * overlapping lines of each conflict
+ * @param changes - The file changes
+ * @returns The report lines
+ */
+export function formatChanges(changes: FileChange[]): string[] {
+  const output: string[] = [];
+  for (const change of changes) {
+    if (change.status === 'unchanged') continue;
+    output.push(`  ${change.status.padEnd(9)} ${change.path}`);
+  }
+
+  for (const change of changes.filter(c => c.status === 'conflict')) {
+    output.push('', `Conflict in ${change.path}:`);
+    if (!change.conflicts?.length) {
+      output.push('  The file exists but was not written by a previous generation.');
+    }
+    for (const conflict of change.conflicts ?? []) {
+      output.push(`  at line ${conflict.line}`);
+      output.push(...conflict.ours.map(line => `  - ${line}`));
+      output.push(...conflict.theirs.map(line => `  + ${line}`));
+    }
+  }
+  return output;
+}
+
+/**
+ * Formats the unified diffs of the files a plan would write or delete
+ * @param plan - The plan
+ * @param outDir - The output directory
+ * @returns The diff lines
+ */
+export function formatDiffs(plan: GenerationPlan, outDir: string): string[] {
+  const output: string[] = [];
+  for (const change of plan.changes) {
+    if (!['created', 'updated', 'merged', 'deleted'].includes(change.status)) continue;
+    const before = change.status === 'created' ? undefined : fs.readFileSync(path.join(outDir, change.path), 'utf-8');
+    output.push(...unifiedDiff(change.path, before, plan.writes.get(change.path)));
+  }
+  return output;
+}
@@ -1,7 +1,7 @@
 import { Command } from 'commander';
 import { spawnSync } from 'child_process';
-import * as path from 'path';
 import * as fs from 'fs';
+import { outputDir, readProjectConfig } from './config';
 
 export const serveCommand = new Command('serve')
   .description('Run the generated application locally')
@@ -9,7 +9,7 @@ export const serveCommand = new Command('serve')
   .option('--frontend-only', 'Start only the frontend server')
   .action((options) => {
     const cwd = process.cwd();
-    const srcDir = path.join(cwd, 'src');
+    const srcDir = outputDir(cwd, readProjectConfig(cwd));
     
     // Check if project has been generated
     if (!fs.existsSync(srcDir)) {
@@ -22,14 +22,14 @@ export const serveCommand = new Command('serve')
       // Run only backend
       console.log('Starting backend server...');
       spawnSync('npm', ['run', 'start:backend'], {
-        cwd,
+        cwd: srcDir,
         stdio: 'inherit'
       });
     } else if (options.frontendOnly) {
       // Run only frontend
       console.log('Starting frontend server...');
       spawnSync('npm', ['run', 'start:frontend'], {
-        cwd,
+        cwd: srcDir,
         stdio: 'inherit'
       });
     } else {
@@ -38,7 +38,7 @@ export const serveCommand = new Command('serve')
       console.log('Press Ctrl+C to stop the application');
       
       spawnSync('docker-compose', ['up'], {
-        cwd,
+        cwd: srcDir,
         stdio: 'inherit',
       });
     }
@@ -0,0 +1,60 @@
+// Resolves the template override directory and template packs configured in stalmer1.json
+import * as fs from 'fs';
+import * as path from 'path';
+import { TemplateError, TemplateSource } from '@stalmer1/core';
+
+export interface TemplatesConfig {
+  dir?: string; // project-local override directory, relative to the project
+  contextVersion?: number; // the template context version the local templates were written for
+  packs?: string[]; // npm packages with templates, highest precedence first
+}
+
+// The `stalmer1` field of a template pack's package.json
+interface TemplatePackManifest {
+  templates?: string; // the templates directory in the package, `templates` by default
+  contextVersion?: number;
+}
+
+/**
+ * Finds the templates of an installed template pack
+ * @param projectDir - The project directory the pack is installed in
+ * @param pack - The package name
+ * @returns The template source
+ */
+function resolveTemplatePack(projectDir: string, pack: string): TemplateSource {
+  let packageJsonPath: string;
+  try {
+    packageJsonPath = require.resolve(`${pack}/package.json`, { paths: [projectDir] });
+  } catch {
+    throw new TemplateError(`Template pack not found. Install it with \`npm install --save-dev ${pack}\``, pack);
+  }
+  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+  const manifest: TemplatePackManifest = packageJson.stalmer1 ?? {};
+  return {
+    name: pack,
+    dir: path.join(path.dirname(packageJsonPath), manifest.templates ?? 'templates'),
+    contextVersion: manifest.contextVersion,
+  };
+}
+
+/**
+ * Lists the template sources configured for a project: the override directory first, then
+ * the template packs in the order they are listed
+ * @param projectDir - The project directory
+ * @param config - The `templates` section of stalmer1.json
+ * @returns The template sources, highest precedence first
+ */
+export function resolveTemplateSources(projectDir: string, config: TemplatesConfig = {}): TemplateSource[] {
+  const sources: TemplateSource[] = [];
+  if (config.dir) {
+    const dir = path.resolve(projectDir, config.dir);
+    if (!fs.existsSync(dir)) {
+      throw new TemplateError(`Template directory ${dir} does not exist`, 'stalmer1.json');
+    }
+    sources.push({ name: config.dir, dir, contextVersion: config.contextVersion });
+  }
+  for (const pack of config.packs ?? []) {
+    sources.push(resolveTemplatePack(projectDir, pack));
+  }
+  return sources;
+}
@@ -0,0 +1,137 @@
+import { DSLParsingError, formatDSL, parseDSL } from '../src/index';
+
+describe('DSL formatter', () => {
+  it('should indent consistently and align field types and attributes', () => {
+    const dsl = `entity User {
+      id: UUID primaryKey
+    email:String unique
+  displayName : String   optional
+  posts: Post[]
+}
+entity Post {
+  title: String
+  author: User
+}
+`;
+    expect(formatDSL(dsl)).toBe(`entity User {
+  id:          UUID   primaryKey
+  email:       String unique
+  displayName: String optional
+  posts:       Post[]
+}
+
+entity Post {
+  title:  String
+  author: User
+}
+`);
+  });
+
+  it('should sort attributes into a fixed order', () => {
+    const dsl = 'entity User {\n  email: String @map("email_address") default("a@b.c") validate(pattern: ".+@.+") readonly unique\n}\n';
+    expect(formatDSL(dsl)).toBe('entity User {\n  email: String unique readonly default("a@b.c") validate(pattern: ".+@.+") @map("email_address")\n}\n');
+  });
+
+  it('should keep comments and single blank lines', () => {
+    const dsl = `// The schema
+
+import './billing.dsl'
+import "./auth.dsl"
+// Users of the app
+entity User {
+  // Login
+  email: String unique   // must be unique
+
+
+  name: String
+  // to do: phone
+} // end of User
+enum Role {
+  ADMIN, // can do anything
+  MEMBER
+}
+// the end
+`;
+    expect(formatDSL(dsl)).toBe(`// The schema
+
+import "./billing.dsl"
+import "./auth.dsl"
+
+// Users of the app
+entity User {
+  // Login
+  email: String unique // must be unique
+
+  name:  String
+  // to do: phone
+} // end of User
+
+enum Role {
+  ADMIN // can do anything
+  MEMBER
+}
+
+// the end
+`);
+  });
+
+  it('should print short values on one line and long ones over several', () => {
+    const dsl = `page UserList {
+type: table
+    entity: User
+  columns: [{ field: email, label: "Email" }, { field: name, label: "Name" }, { field: role, label: "Role" }]
+  onSuccess: {action: navigate,
+     target: "/users"}
+}
+config integrations {
+  email { provider: sendgrid, apiKey: env(SENDGRID_API_KEY), headers: { 'Content-Type': "json" } }
+}
+`;
+    expect(formatDSL(dsl)).toBe(`page UserList {
+  type: table
+  entity: User
+  columns: [
+    { field: email, label: "Email" },
+    { field: name, label: "Name" },
+    { field: role, label: "Role" }
+  ]
+  onSuccess: { action: navigate, target: "/users" }
+}
+
+config integrations {
+  email: {
+    provider: sendgrid
+    apiKey: env(SENDGRID_API_KEY)
+    headers: { "Content-Type": "json" }
+  }
+}
+`);
+  });
+
+  it('should be stable and keep the meaning of the schema', () => {
+    const dsl = `enum Status { DRAFT, PUBLISHED }
+entity Post {
+  title: String validate(min: 1, max: 200)
+  status: Status default(DRAFT)
+  price: Decimal default(9.50)
+  @@index([title])
+}
+workflow Notify {
+  trigger: {
+    // when a post is published
+    event: "post.created",
+    entity: Post
+  }
+  steps: [{ action: sendEmail, inputs: { to: "a@b.c", subject: "New post" } }]
+}
+`;
+    const formatted = formatDSL(dsl);
+    expect(formatDSL(formatted)).toBe(formatted);
+    expect(formatted).toContain('price:  Decimal default(9.50)');
+    expect(parseDSL(formatted)).toEqual(parseDSL(dsl));
+  });
+
+  it('should refuse to format source with syntax errors', () => {
+    expect(() => formatDSL('entity User {\n  email: String,\n}\n', { filePath: 'schema.dsl' })).toThrow(DSLParsingError);
+  });
+});
@@ -0,0 +1,75 @@
+import { IRError, checkIRSchema, exportIR, parseDSL, parseIR } from '../src/index';
+
+describe('IR JSON', () => {
+  const dsl = `enum Role { ADMIN, MEMBER }
+entity User {
+  email: String unique
+  password: Password
+  role: Role default(MEMBER)
+  posts: Post[]
+  @@index([email])
+}
+entity Post {
+  title: String validate(min: 1, max: 200)
+  author: User
+}
+view PostCounts {
+  from: Post
+  fields: [{ name: "total", type: Int, expression: "count(id)" }]
+}
+page Posts {
+  type: table
+  entity: Post
+  permissions: ["admin"]
+}
+config {
+  db: postgresql
+  ports { backend: 4000 }
+  auth { provider: jwt, userEntity: User, roles: Role }
+}
+workflow Welcome {
+  trigger: { event: "user.created", entity: User }
+  steps: [{ action: sendEmail, inputs: { to: "a@b.c" } }]
+}
+`;
+
+  it('should read back the IR it exports', () => {
+    const app = parseDSL(dsl);
+    const json = exportIR(app);
+
+    expect(JSON.parse(json).$schema).toBe('https://github.com/PlustOrg/stalmer1/blob/main/packages/core/src/ir.schema.json');
+    expect(checkIRSchema(JSON.parse(json))).toEqual([]);
+    expect(parseIR(json)).toEqual(JSON.parse(JSON.stringify(app)));
+  });
+
+  it('should report every place the JSON does not match the schema', () => {
+    const app = JSON.parse(exportIR(parseDSL(dsl)));
+    app.entities[0].fields[0].unique = 'yes';
+    app.pages[0].type = 'grid';
+    delete app.entities[1].name;
+    app.entities[1].label = 'Posts';
+
+    expect(checkIRSchema(app)).toEqual([
+      'entities[0].fields[0].unique must be a boolean',
+      'entities[1] is missing \'name\'',
+      'Unknown property entities[1].label',
+      'pages[0].type must be one of: table, form, details, dashboard, custom',
+    ]);
+    expect(() => parseIR(JSON.stringify(app), 'app.json')).toThrow(
+      'The IR does not match the schema (in app.json)\n  entities[0].fields[0].unique must be a boolean',
+    );
+  });
+
+  it('should apply the same checks as the parser', () => {
+    const app = JSON.parse(exportIR(parseDSL(dsl)));
+    app.entities[1].fields.find((field: { name: string }) => field.name === 'title').type = 'Title';
+
+    expect(() => parseIR(JSON.stringify(app))).toThrow(IRError);
+    expect(() => parseIR(JSON.stringify(app))).toThrow('Type \'Title\' for field \'title\' is not a defined entity or enum.');
+  });
+
+  it('should refuse JSON that is not an IR', () => {
+    expect(() => parseIR('{ "name": ', 'app.json')).toThrow(/^Invalid JSON: .* \(in app\.json\)$/);
+    expect(() => parseIR('[]')).toThrow('The IR does not match the schema\n  The IR must be an object');
+  });
+});
@@ -0,0 +1,118 @@
+import { DSLParsingError, checkIRSchema, formatDSL, ownerKey, parseDSL } from '../src/index';
+
+describe('DSL Parser - Access Sections', () => {
+  const filePath = 'test.dsl';
+  const auth = `
+    enum Role { ADMIN, EDITOR, VIEWER }
+    config auth {
+      provider: jwt
+      userEntity: User
+      roles: Role
+    }
+    entity User {
+      email: String unique
+      password: Password
+      role: Role default(VIEWER)
+    }
+  `;
+
+  it('should parse the roles of each operation and the owner relation', () => {
+    const app = parseDSL(`${auth}
+      entity Post {
+        title: String
+        author: User
+        reviewer: User optional
+        access {
+          read: [VIEWER, owner]
+          create: EDITOR
+          update: [EDITOR, owner]
+          delete: [ADMIN]
+          owner: author
+        }
+      }
+    `);
+    const post = app.entities.find(e => e.name === 'Post')!;
+
+    expect(post.access).toEqual({
+      read: ['VIEWER', 'owner'],
+      create: ['EDITOR'],
+      update: ['EDITOR', 'owner'],
+      delete: ['ADMIN'],
+      owner: 'author',
+    });
+    expect(post.fields.map(f => f.name)).toEqual(['id', 'title']);
+    expect(ownerKey(app, post)).toBe('authorId');
+    expect(checkIRSchema(JSON.parse(JSON.stringify(app)))).toEqual([]);
+  });
+
+  it('should make records of the user entity belong to the user they describe', () => {
+    const app = parseDSL(auth.replace('role: Role default(VIEWER)', 'role: Role default(VIEWER)\n      access: { update: [ADMIN, owner] }'));
+
+    expect(ownerKey(app, app.entities[0])).toBe('id');
+  });
+
+  it('should still allow a field named access', () => {
+    const app = parseDSL('entity Door {\n  access: String\n}');
+
+    expect(app.entities[0].fields.map(f => f.name)).toEqual(['id', 'access']);
+    expect(app.entities[0].access).toBeUndefined();
+  });
+
+  it('should reject roles that are not values of the roles enum', () => {
+    const dsl = `${auth}
+      entity Post {
+        access { delete: [ADMIN, OWNER] }
+      }
+    `;
+    expect(() => parseDSL(dsl, filePath)).toThrow(
+      new DSLParsingError("Unknown role 'OWNER' in 'delete' of entity 'Post'. Must be one of: ADMIN, EDITOR, VIEWER, owner", filePath, 15, 34, '        access { delete: [ADMIN, OWNER] }', 'unknown-role')
+    );
+  });
+
+  it('should reject owner without a relation to the user entity', () => {
+    expect(() => parseDSL(`${auth}
+      entity Tag {
+        access { update: [owner] }
+      }
+    `)).toThrow("'owner' in entity 'Tag' requires a relation to the user entity 'User', such as user: User");
+    expect(() => parseDSL(`${auth}
+      entity Post {
+        author: User
+        editor: User
+        access { update: [owner] }
+      }
+    `)).toThrow("'owner' in entity 'Post' is ambiguous: it has several relations to 'User'. Name one with owner, such as owner: author");
+    expect(() => parseDSL(`${auth}
+      entity Post {
+        author: User
+        access { owner: writer }
+      }
+    `)).toThrow("'writer' is not a relation to the user entity 'User' that holds its key in entity 'Post'");
+  });
+
+  it('should require an auth provider', () => {
+    expect(() => parseDSL('entity Post {\n  access { read: [ADMIN] }\n}', filePath)).toThrow(
+      "Entity 'Post' has an access section, but no auth provider is configured. Add a 'config auth' block. at test.dsl:2:3"
+    );
+  });
+
+  it('should reject unknown properties and duplicate sections', () => {
+    const { diagnostics } = parseDSL(`${auth}
+      entity Post {
+        access { list: [ADMIN] }
+        access { read: [ADMIN] }
+      }
+    `, { recover: true });
+
+    expect(diagnostics.map(d => [d.code, d.message])).toEqual([
+      ['invalid-access', "Unknown property 'list' in the access section of entity 'Post'. Must be one of: read, create, update, delete, owner"],
+      ['invalid-access', "Duplicate access section in entity 'Post'"],
+    ]);
+  });
+
+  it('should format access sections', () => {
+    const dsl = 'entity Post {\n  title: String\n  access {read: [VIEWER,owner]\n    delete:ADMIN}\n}\n';
+
+    expect(formatDSL(dsl)).toBe('entity Post {\n  title: String\n  access {\n    read: [VIEWER, owner]\n    delete: ADMIN\n  }\n}\n');
+  });
+});
@@ -0,0 +1,224 @@
+import { parseAST, parseDSL, DSLParsingError, EntityNode, BlockNode } from '../src/index';
+
+describe('DSL Parser - AST and source spans', () => {
+  it('should record start and end positions on every node', () => {
+    const dsl = `entity User {
+  email: String unique
+}`;
+    const document = parseAST(dsl);
+    const entity = document.declarations[0] as EntityNode;
+
+    expect(entity.span.start).toEqual({ line: 1, column: 1, offset: 0 });
+    expect(entity.span.end).toEqual({ line: 3, column: 2, offset: dsl.length });
+    expect(entity.name.span.start).toMatchObject({ line: 1, column: 8 });
+
+    const field = entity.fields[0];
+    expect(field.name.name).toBe('email');
+    expect(field.span.start).toMatchObject({ line: 2, column: 3 });
+    expect(field.span.end).toMatchObject({ line: 2, column: 23 });
+    expect(field.type.span.start).toMatchObject({ line: 2, column: 10 });
+    expect(field.attributes[0].name.name).toBe('unique');
+    expect(field.attributes[0].span.start).toMatchObject({ line: 2, column: 17 });
+  });
+
+  it('should collect comments without treating // inside strings as comments', () => {
+    const dsl = `
+      // Users of the app
+      entity User {
+        website: String default("https://example.com") // trailing comment
+      }
+    `;
+    const document = parseAST(dsl);
+    expect(document.comments.map(c => c.text)).toEqual([' Users of the app', ' trailing comment']);
+
+    const app = parseDSL(dsl);
+    expect(app.entities[0].fields.find(f => f.name === 'website')?.default).toBe('https://example.com');
+  });
+
+  it('should handle escaped quotes inside strings', () => {
+    const dsl = `
+      entity Dummy {}
+      page QuotePage {
+        type: details
+        entity: Dummy
+        title: "The \\"best\\" page"
+      }
+    `;
+    const app = parseDSL(dsl);
+    expect(app.pages[0].title).toBe('The "best" page');
+  });
+
+  it('should parse nested objects inside arrays and inline objects', () => {
+    const dsl = `
+      entity User {
+        email: String
+      }
+      page UserForm {
+        type: form
+        entity: User
+        route: "/users/:id/edit"
+        fields: [
+          { field: email, type: email, meta: { hint: "Work address" } }
+        ]
+        onSuccess: { action: navigate, target: "/users" }
+      }
+    `;
+    const app = parseDSL(dsl);
+    const page = app.pages[0];
+    expect(page.route).toBe('/users/:id/edit');
+    expect(page.props?.fields).toEqual([{ field: 'email', type: 'email', meta: { hint: 'Work address' } }]);
+    expect(page.props?.onSuccess).toEqual({ action: 'navigate', target: '/users' });
+  });
+
+  it('should parse multi-line objects regardless of indentation', () => {
+    const dsl = `
+entity User {
+email: String
+}
+page UserForm {
+type: form
+entity: User
+onSuccess: {
+      action: navigate,
+  target: "/users"
+}
+}
+    `;
+    const app = parseDSL(dsl);
+    expect(app.pages[0].props?.onSuccess).toEqual({ action: 'navigate', target: '/users' });
+  });
+
+  it('should keep validate() arguments and call-like config values verbatim', () => {
+    const dsl = `
+      config integrations {
+        email: {
+          provider: sendgrid
+          apiKey: env(SENDGRID_API_KEY)
+        }
+      }
+      entity User {
+        handle: String validate(min: 3, max: 20, pattern: "^[a-z(]+$")
+      }
+    `;
+    const app = parseDSL(dsl);
+    const handle = app.entities[0].fields.find(f => f.name === 'handle');
+    expect(handle?.validate).toBe('min: 3, max: 20, pattern: "^[a-z(]+$"');
+    expect(handle?.min).toBe(3);
+    expect(handle?.max).toBe(20);
+    expect(handle?.pattern).toBe('^[a-z(]+$');
+    expect(app.config?.integrations?.email?.apiKey).toBe('env(SENDGRID_API_KEY)');
+  });
+
+  it('should parse an unnamed config block', () => {
+    const dsl = `
+      entity User {
+        email: String unique
+        password: Password
+      }
+      config {
+        db: postgresql
+        auth {
+          provider: jwt
+          userEntity: User
+        }
+      }
+    `;
+    const app = parseDSL(dsl);
+    expect(app.config?.db).toBe('postgresql');
+    expect(app.config?.auth?.provider).toBe('jwt');
+    const config = parseAST(dsl).declarations[1] as BlockNode;
+    expect(config.keyword).toBe('config');
+    expect(config.name).toBeUndefined();
+  });
+
+  it('should point at the exact token of a syntax error', () => {
+    const dsl = `
+      entity User {
+        email: String unique
+        name: String "oops"
+      }
+    `;
+    expect(() => parseDSL(dsl, 'app.dsl')).toThrow(
+      new DSLParsingError(`Unexpected string "oops" in field 'name'. Expected an attribute`, 'app.dsl', 4, 22, '        name: String "oops"')
+    );
+  });
+
+  it('should reject unterminated strings and unknown attributes', () => {
+    expect(() => parseDSL('entity User {\n  name: String default("x)\n}', 'app.dsl')).toThrow(
+      new DSLParsingError('Unterminated string literal', 'app.dsl', 2, 24, '  name: String default("x)')
+    );
+    expect(() => parseDSL('entity User {\n  name: String uniqe\n}', 'app.dsl')).toThrow(
+      new DSLParsingError("Unknown attribute 'uniqe' on field 'name' in entity 'User'", 'app.dsl', 2, 16, '  name: String uniqe')
+    );
+  });
+
+  it('should reject unknown top-level blocks', () => {
+    expect(() => parseDSL('model User {}', 'app.dsl')).toThrow(
+      new DSLParsingError("Unknown block type 'model'. Must be one of: entity, page, workflow, config, enum, view", 'app.dsl', 1, 1, 'model User {}')
+    );
+  });
+
+  it('should parse entity directives and field column mapping', () => {
+    const dsl = `
+      entity Tenant {
+        name: String
+      }
+
+      entity User {
+        email: String @map("email_address")
+        tenant: Tenant
+        createdAt: DateTime
+
+        @@unique([tenant, email])
+        @@index([createdAt])
+        @@map("users")
+      }
+    `;
+    const entity = parseAST(dsl).declarations[1] as EntityNode;
+    expect(entity.directives.map(d => d.name.name)).toEqual(['unique', 'index', 'map']);
+    expect(entity.directives[0].span.start).toMatchObject({ line: 11, column: 9 });
+
+    const user = parseDSL(dsl).entities[1];
+    expect(user.uniques).toEqual([['tenant', 'email']]);
+    expect(user.indexes).toEqual([['createdAt']]);
+    expect(user.dbName).toBe('users');
+    expect(user.fields.find(f => f.name === 'email')?.dbName).toBe('email_address');
+  });
+
+  it('should report unknown fields and directives', () => {
+    const dsl = `
+      entity User {
+        email: String
+        @@unique([emial])
+        @@sharded
+        @ index([email])
+      }
+    `;
+    const { diagnostics } = parseDSL(dsl, { recover: true });
+    expect(diagnostics.map(d => [d.code, d.message, d.line, d.column])).toEqual([
+      ['unknown-field', "Unknown field 'emial' in @@unique on entity 'User'", 4, 19],
+      ['unknown-attribute', "Unknown directive '@@sharded' on entity 'User'", 5, 11],
+      ['syntax-error', "Unexpected '@' in entity 'User'. Entity directives start with '@@'", 6, 9],
+    ]);
+  });
+
+  it('should pass syntax errors to onError and keep parsing', () => {
+    const dsl = `entity User {
+  email: String unique
+  name: String,
+}
+
+entity Post {
+  title: String
+`;
+    const errors: DSLParsingError[] = [];
+    const document = parseAST(dsl, 'schema.dsl', [], error => errors.push(error));
+    expect(errors.map(e => [e.reason, e.lineNumber])).toEqual([
+      ["Unexpected ',' in field 'name'. Expected an attribute", 3],
+      ["Missing closing '}' for entity 'Post'", 6],
+    ]);
+    const entities = document.declarations as EntityNode[];
+    expect(entities.map(e => e.name.name)).toEqual(['User', 'Post']);
+    expect(entities[1].fields.map(f => f.name.name)).toEqual(['title']);
+  });
+});
@@ -0,0 +1,42 @@
+import { hasAuditLog, parseDSL, redactedFields } from '../src/index';
+
+describe('DSL Parser - Audited Entities', () => {
+  it('should mark entities with @@audited and redact their Password fields', () => {
+    const app = parseDSL(`
+      entity User {
+        email: String unique
+        password: Password
+
+        @@audited
+      }
+
+      entity Tag {
+        name: String
+      }
+    `);
+
+    expect(app.entities.map(entity => entity.audited)).toEqual([true, undefined]);
+    expect(hasAuditLog(app)).toBe(true);
+    expect(redactedFields(app.entities[0])).toEqual(['password']);
+  });
+
+  it('should accept @audited as a spelling of @@audited', () => {
+    const app = parseDSL('entity Post {\n  title: String\n  @audited\n}\n');
+
+    expect(app.entities[0].audited).toBe(true);
+    expect(() => parseDSL('entity Post {\n  title: String\n  @map("posts")\n}\n')).toThrow(
+      "Unexpected '@' in entity 'Post'. Entity directives start with '@@'"
+    );
+  });
+
+  it('should check the directive and reserve the name of the audit log model', () => {
+    const { diagnostics } = parseDSL('entity Post {\n  title: String\n  @@audited(true)\n}\n', { recover: true });
+    expect(diagnostics.map(d => [d.code, d.message, d.line])).toEqual([
+      ['invalid-attribute', "@@audited on entity 'Post' takes no arguments", 3],
+    ]);
+
+    expect(() => parseDSL('entity Post {\n  title: String\n  @@audited\n}\nentity AuditLog {\n  note: String\n}\n')).toThrow(
+      "Entity name 'AuditLog' is reserved by @@audited"
+    );
+  });
+});
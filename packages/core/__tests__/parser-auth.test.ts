@@ -0,0 +1,52 @@
+import { DSLParsingError, authTokenTtl, authUser, parseDSL } from '../src/index';
+
+describe('DSL Parser - JWT Auth Config', () => {
+  const filePath = 'test.dsl';
+  const dsl = (auth: string, user = 'email: String unique\n  password: Password') =>
+    `config auth {\n  provider: jwt\n${auth}}\nentity User {\n  ${user}\n}\n`;
+
+  it('should pick the identity and password fields of the user entity', () => {
+    const app = parseDSL(dsl('  userEntity: User\n  props: { accessTokenTtl: "10m" }\n'));
+    const user = authUser(app);
+
+    expect(user?.identityField?.name).toBe('email');
+    expect(user?.passwordField?.name).toBe('password');
+    expect(user?.primaryKey).toMatchObject({ name: 'id' });
+    expect(authTokenTtl(app, 'accessTokenTtl')).toBe(600);
+    expect(authTokenTtl(app, 'refreshTokenTtl')).toBe(30 * 86400);
+  });
+
+  it('should require a user entity', () => {
+    expect(() => parseDSL(dsl(''), filePath)).toThrow(
+      new DSLParsingError("The jwt auth provider requires 'userEntity' in the auth config", filePath, 2, 13, '  provider: jwt', 'invalid-auth')
+    );
+  });
+
+  it('should require fields to sign in with', () => {
+    expect(() => parseDSL(dsl('  userEntity: User\n', 'name: String'))).toThrow(
+      "User entity 'User' has no unique field to sign in with. Add one, such as email: String unique, or name one with 'identityField' in the auth props"
+    );
+    expect(() => parseDSL(dsl('  userEntity: User\n', 'email: String unique'))).toThrow(
+      "User entity 'User' has no Password field to sign in with. Add one, such as password: Password"
+    );
+  });
+
+  it('should check the fields and durations named in the auth props', () => {
+    const { diagnostics } = parseDSL(
+      dsl('  userEntity: User\n  props: { identityField: name, passwordField: email, refreshTokenTtl: "a week" }\n', 'name: String\n  email: String unique'),
+      { recover: true }
+    );
+
+    expect(diagnostics.map(d => [d.code, d.message, d.line])).toEqual([
+      ['invalid-auth', "Identity field 'name' of user entity 'User' must be unique", 4],
+      ['invalid-auth', "Password field 'email' of user entity 'User' must be a Password field", 4],
+      ['invalid-auth', "'refreshTokenTtl' in the auth props must be a duration, such as 15m, 12h or 30d", 4],
+    ]);
+  });
+
+  it('should reserve the names of the token models', () => {
+    expect(() => parseDSL(`${dsl('  userEntity: User\n')}entity RefreshToken {\n  value: String\n}\n`)).toThrow(
+      "Entity name 'RefreshToken' is reserved by the jwt auth provider"
+    );
+  });
+});
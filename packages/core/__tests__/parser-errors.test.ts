@@ -51,7 +51,23 @@ describe('DSL Parser Error Handling', () => {
       }
     `;
     expect(() => parseDSL(dsl, filePath)).toThrow(
-      new DSLParsingError("Type 'InvalidType' for field 'name' is not a defined entity or enum.", filePath, 1, 9, '        name: InvalidType')
+      new DSLParsingError("Type 'InvalidType' for field 'name' is not a defined entity or enum.", filePath, 3, 15, '        name: InvalidType')
+    );
+  });
+
+  it('should throw an error for an enum default that is not a value of the enum', () => {
+    const dsl = `
+      enum UserRole {
+        ADMIN
+        VIEWER
+      }
+
+      entity User {
+        role: UserRole default(GUEST)
+      }
+    `;
+    expect(() => parseDSL(dsl, filePath)).toThrow(
+      new DSLParsingError("Default value 'GUEST' for field 'role' is not a value of enum 'UserRole'. Must be one of: ADMIN, VIEWER", filePath, 8, 32, '        role: UserRole default(GUEST)')
     );
   });
 
@@ -63,7 +79,7 @@ describe('DSL Parser Error Handling', () => {
       }
     `;
     expect(() => parseDSL(dsl, filePath)).toThrow(
-      new DSLParsingError("Entity or View 'NonExistentEntity' not found for page 'UserList'", filePath, 2, 7, '      page UserList {')
+      new DSLParsingError("Entity or View 'NonExistentEntity' not found for page 'UserList'", filePath, 4, 17, '        entity: NonExistentEntity')
     );
   });
 
@@ -75,7 +91,7 @@ describe('DSL Parser Error Handling', () => {
       }
     `;
     expect(() => parseDSL(dsl, filePath)).toThrow(
-      new DSLParsingError("Entity 'NonExistentEntity' not found for view 'UserView'", filePath, 2, 7, '      view UserView {')
+      new DSLParsingError("Entity 'NonExistentEntity' not found for view 'UserView'", filePath, 3, 15, '        from: NonExistentEntity')
     );
   });
 
@@ -86,7 +102,62 @@ describe('DSL Parser Error Handling', () => {
       }
     `;
     expect(() => parseDSL(dsl, filePath)).toThrow(
-      new DSLParsingError("Entity 'Post' not found for relation 'posts' in entity 'User'", filePath, 1, 9, '        posts: Post[] @relation(name: "UserPosts")')
+      new DSLParsingError("Entity 'Post' not found for relation 'posts' in entity 'User'", filePath, 3, 16, '        posts: Post[] @relation(name: "UserPosts")')
     );
   });
-});
\ No newline at end of file
+
+  it('should throw an error for an unknown workflow action', () => {
+    const dsl = `
+      entity User {
+        email: String
+      }
+      workflow Notify {
+        trigger: {
+          event: "user.created"
+          entity: User
+        }
+        steps: [
+          { action: sendFax, inputs: { to: trigger.entity.email } }
+        ]
+      }
+    `;
+    expect(() => parseDSL(dsl, filePath)).toThrow(
+      new DSLParsingError("Unknown action 'sendFax' in workflow 'Notify'. Must be one of: sendEmail, createRecord, updateRecord, callWebhook", filePath, 11, 21, '          { action: sendFax, inputs: { to: trigger.entity.email } }')
+    );
+  });
+
+  it('should throw an error for a workflow event that does not match its entity', () => {
+    const dsl = `
+      entity User {
+        email: String
+      }
+      workflow Notify {
+        trigger: {
+          event: "user.archived"
+          entity: User
+        }
+      }
+    `;
+    expect(() => parseDSL(dsl, filePath)).toThrow(
+      new DSLParsingError("Invalid trigger event 'user.archived' in workflow 'Notify'. Must be one of: user.created, user.updated, user.deleted", filePath, 7, 18, '          event: "user.archived"')
+    );
+  });
+
+  it('should name the entity of a workflow event in lower camel case', () => {
+    const dsl = (event: string) => `entity BlogPost {\n  title: String\n}\nworkflow Notify {\n  trigger: { event: "${event}", entity: BlogPost }\n}\n`;
+
+    expect(parseDSL(dsl('blogPost.created')).workflows?.[0].trigger.event).toBe('blogPost.created');
+    expect(() => parseDSL(dsl('blogpost.created'))).toThrow(
+      "Invalid trigger event 'blogpost.created' in workflow 'Notify'. Must be one of: blogPost.created, blogPost.updated, blogPost.deleted"
+    );
+  });
+
+  it('should throw an error for an email provider the generated code cannot deliver through', () => {
+    const dsl = 'config integrations {\n  email: {\n    provider: mailgun\n    apiKey: env(MAILGUN_API_KEY)\n  }\n}\nentity User {\n  email: String\n}\n';
+    const { diagnostics } = parseDSL(dsl, { recover: true });
+
+    expect(diagnostics.map(d => [d.code, d.message, d.line])).toEqual([
+      ['invalid-integration', "Unknown email provider 'mailgun'. Must be one of: sendgrid", 3],
+    ]);
+  });
+});
@@ -0,0 +1,25 @@
+import { parseDSLFiles } from '../src/parser';
+
+describe('DSL Parser - Multiple Files', () => {
+  const users = { filePath: 'users.dsl', source: 'entity User {\n  email: String\n  posts: Post[]\n}\n' };
+  const posts = { filePath: 'posts.dsl', source: 'entity Post {\n  title: String\n  author: User\n}\n' };
+
+  it('should build one IR from several files', () => {
+    const app = parseDSLFiles([users, posts]);
+
+    expect(app.entities.map(e => e.name)).toEqual(['User', 'Post']);
+    expect(app.entities[1].relations?.map(r => r.target)).toEqual(['User']);
+  });
+
+  it('should report errors in the file they are in', () => {
+    const broken = { filePath: 'broken.dsl', source: 'entity Comment {\n  body: Strin\n  post: Post\n}\n' };
+    const { diagnostics } = parseDSLFiles([broken, users], { recover: true });
+
+    expect(diagnostics.map(d => [d.filePath, d.line, d.code])).toEqual([
+      ['broken.dsl', 2, 'unknown-type'],
+      ['broken.dsl', 3, 'unknown-type'],
+      ['users.dsl', 3, 'unknown-type'],
+    ]);
+    expect(() => parseDSLFiles([users, { filePath: 'bad.dsl', source: 'entity {\n}\n' }])).toThrow(/at bad\.dsl:1:8/);
+  });
+});
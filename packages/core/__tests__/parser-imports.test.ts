@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseAST, parseDSL, parseDSLFiles } from '../src/parser';
+import { DSLParsingError } from '../src/errors';
+import { matchFiles } from '../src/imports';
+
+describe('DSL Parser - Imports', () => {
+  let tmpDir: string;
+  const write = (file: string, source: string) => {
+    fs.mkdirSync(path.dirname(path.join(tmpDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, file), source);
+  };
+  const entry = (file: string) => ({ filePath: path.join(tmpDir, file), source: fs.readFileSync(path.join(tmpDir, file), 'utf-8') });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stalmer1-imports-'));
+    write('schema/users.dsl', 'enum Role {\n  ADMIN\n  MEMBER\n}\n\nentity User {\n  email: String\n  role: Role\n}\n');
+    write('schema/billing/invoices.dsl', 'import "../users.dsl"\n\nentity Invoice {\n  total: Decimal\n  owner: User\n}\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should parse import statements', () => {
+    const document = parseAST('import "./users.dsl"\n\nentity Post {\n  title: String\n}\n');
+
+    expect(document.declarations[0]).toEqual(expect.objectContaining({
+      kind: 'Import',
+      path: expect.objectContaining({ value: './users.dsl' }),
+    }));
+  });
+
+  it('should resolve entities and enums from imported files', () => {
+    write('schema.dsl', 'import "./schema/billing/invoices.dsl"\nimport "./schema/users.dsl"\n\npage Invoices {\n  type: table\n  entity: Invoice\n  route: "/invoices"\n}\n');
+
+    const app = parseDSLFiles([entry('schema.dsl')]);
+
+    expect(app.entities.map(e => e.name)).toEqual(['Invoice', 'User']);
+    expect(app.entities[0].relations?.[0].target).toBe('User');
+    expect(app.config?.enums?.Role).toEqual(['ADMIN', 'MEMBER']);
+  });
+
+  it('should import every file that matches a glob', () => {
+    write('schema.dsl', 'import "./schema/**/*.dsl"\n');
+
+    expect(matchFiles(tmpDir, 'schema/*.dsl')).toEqual([path.join(tmpDir, 'schema/users.dsl')]);
+    expect(parseDSLFiles([entry('schema.dsl')]).entities.map(e => e.name)).toEqual(['Invoice', 'User']);
+  });
+
+  it('should report errors in imported files with their file path', () => {
+    write('schema/broken.dsl', 'entity Broken {\n  name: Strin\n}\n');
+    write('schema.dsl', 'import "./schema/broken.dsl"\n');
+
+    let error: DSLParsingError | undefined;
+    try {
+      parseDSLFiles([entry('schema.dsl')]);
+    } catch (e) {
+      error = e as DSLParsingError;
+    }
+    expect(error?.filePath).toBe(path.join(tmpDir, 'schema/broken.dsl'));
+    expect(error?.lineNumber).toBe(2);
+  });
+
+  it('should report missing files and import cycles', () => {
+    write('a.dsl', 'import "./b.dsl"\nimport "./missing.dsl"\n\nentity A {\n  name: String\n}\n');
+    write('b.dsl', 'import "./a.dsl"\nimport "./none/*.dsl"\n');
+
+    const { diagnostics } = parseDSLFiles([entry('a.dsl')], { recover: true });
+
+    expect(diagnostics.map(d => [path.basename(d.filePath ?? ''), d.line, d.code, d.message])).toEqual([
+      ['a.dsl', 2, 'unresolved-import', "Imported file './missing.dsl' not found"],
+      ['b.dsl', 1, 'import-cycle', `Import cycle: ${path.join(tmpDir, 'a.dsl')} -> ${path.join(tmpDir, 'b.dsl')} -> ${path.join(tmpDir, 'a.dsl')}`],
+      ['b.dsl', 2, 'unresolved-import', "No files match './none/*.dsl'"],
+    ]);
+  });
+
+  it('should not let two files declare the same name', () => {
+    write('schema.dsl', 'import "./schema/users.dsl"\n\nentity User {\n  name: String\n}\n');
+
+    expect(() => parseDSLFiles([entry('schema.dsl')])).toThrow(`'User' is already declared as an entity in ${path.join(tmpDir, 'schema.dsl')}`);
+    expect(() => parseDSL('enum User {\n  A\n}\n\nentity User {\n  name: String\n}\n')).toThrow("'User' is already declared as an enum");
+  });
+
+  it('should read imported files through the given reader', () => {
+    const app = parseDSL('import "./virtual.dsl"\n', {
+      filePath: path.join(tmpDir, 'schema.dsl'),
+      readFile: () => 'entity Virtual {\n  name: String\n}\n',
+    });
+
+    expect(app.entities.map(e => e.name)).toEqual(['Virtual']);
+  });
+});
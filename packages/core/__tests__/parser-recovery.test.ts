@@ -0,0 +1,124 @@
+import { parseDSL } from '../src/index';
+
+describe('DSL Parser Error Recovery', () => {
+  const filePath = 'test.dsl';
+
+  it('should return the IR with no diagnostics for a valid file', () => {
+    const dsl = `
+      entity User {
+        email: String unique
+      }
+    `;
+    const { app, diagnostics } = parseDSL(dsl, { filePath, recover: true });
+    expect(diagnostics).toEqual([]);
+    expect(app.entities[0].fields.map(f => f.name)).toEqual(['id', 'email']);
+  });
+
+  it('should report every error in one pass', () => {
+    const dsl = `
+      entity User {
+        email: String unique
+        1stName: String
+        age: Int
+        age: Int
+      }
+
+      entity Post {
+        title: String
+        author: Userr @relation(name: "UserPosts")
+      }
+
+      page UserList {
+        type: table
+        entity: Usr
+      }
+    `;
+    const { diagnostics } = parseDSL(dsl, { filePath, recover: true });
+    expect(diagnostics.map(d => [d.code, d.line, d.column])).toEqual([
+      ['invalid-field-name', 4, 9],
+      ['duplicate-field', 6, 9],
+      ['unknown-entity', 11, 17],
+      ['unknown-entity', 16, 17],
+    ]);
+    expect(diagnostics.every(d => d.severity === 'error' && d.filePath === filePath)).toBe(true);
+    expect(diagnostics[0].message).toBe('Invalid field name: "1stName". Field names must start with a letter or underscore and contain only letters, numbers, and underscores.');
+    expect(diagnostics[0].context).toBe('        1stName: String');
+  });
+
+  it('should keep the valid parts of a file with errors', () => {
+    const dsl = `
+      entity User {
+        email: String unique
+        nickname: String sparkly
+        age: Int
+      }
+
+      entity {
+        title: String
+      }
+
+      entity Post {
+        title: String
+      }
+    `;
+    const { app, diagnostics } = parseDSL(dsl, { filePath, recover: true });
+    expect(diagnostics.map(d => d.code)).toEqual(['unknown-attribute', 'syntax-error']);
+    expect(app.entities.map(e => e.name)).toEqual(['User', 'Post']);
+    expect(app.entities[0].fields.map(f => f.name)).toEqual(['id', 'email', 'age']);
+  });
+
+  it('should resume at the next block after a missing closing brace', () => {
+    const dsl = `
+      entity User {
+        email: String
+
+      entity Post {
+        title: Strin
+      }
+    `;
+    const { app, diagnostics } = parseDSL(dsl, { filePath, recover: true });
+    expect(diagnostics.map(d => [d.message, d.line])).toEqual([
+      ["Missing closing '}' for entity 'User'", 2],
+      ["Type 'Strin' for field 'title' is not a defined entity or enum.", 6],
+    ]);
+    expect(app.entities.map(e => e.name)).toEqual(['User', 'Post']);
+  });
+
+  it('should report lexer errors and keep going', () => {
+    const dsl = `
+      entity User {
+        email: String $
+        age: Int
+      }
+
+      page UserList {
+        title: "All users
+        entity: User
+      }
+    `;
+    const { app, diagnostics } = parseDSL(dsl, { filePath, recover: true });
+    expect(diagnostics.map(d => [d.message, d.line, d.column])).toEqual([
+      ["Unexpected character '$'", 3, 23],
+      ['Unterminated string literal', 8, 16],
+    ]);
+    expect(app.entities[0].fields.map(f => f.name)).toEqual(['id', 'email', 'age']);
+    expect(app.pages[0]).toMatchObject({ title: 'All users', entity: 'User' });
+  });
+
+  it('should report an empty file as a diagnostic', () => {
+    const { diagnostics } = parseDSL('// Just comments', { filePath, recover: true });
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ severity: 'error', code: 'empty-file', line: 0, column: 0 }),
+    ]);
+  });
+
+  it('should still throw at the first error without recover', () => {
+    const dsl = `
+      entity User {
+        1stName: String
+        age: Intt
+      }
+    `;
+    expect(() => parseDSL(dsl, { filePath })).toThrow(/Invalid field name: "1stName"/);
+  });
+});
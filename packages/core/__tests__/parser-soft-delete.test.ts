@@ -0,0 +1,28 @@
+import { parseDSL } from '../src/index';
+
+describe('DSL Parser - Soft Delete', () => {
+  it('should mark entities with @@softDelete', () => {
+    const app = parseDSL('entity Post {\n  title: String\n  @@softDelete\n}\nentity Tag {\n  name: String\n}\n');
+
+    expect(app.entities.map(entity => entity.softDelete)).toEqual([true, undefined]);
+    expect(app.entities[0].fields.map(field => field.name)).toEqual(['id', 'title']);
+  });
+
+  it('should accept @softDelete as a spelling of @@softDelete', () => {
+    const app = parseDSL('entity Post {\n  title: String\n  @softDelete\n  @audited\n}\n');
+
+    expect([app.entities[0].softDelete, app.entities[0].audited]).toEqual([true, true]);
+  });
+
+  it('should check the directive and the name of the column it adds', () => {
+    const { diagnostics } = parseDSL(
+      'entity Post {\n  title: String\n  @@softDelete(true)\n}\nentity Tag {\n  deletedAt: DateTime\n  @@softDelete\n}\n',
+      { recover: true }
+    );
+
+    expect(diagnostics.map(d => [d.code, d.message, d.line])).toEqual([
+      ['invalid-attribute', "@@softDelete on entity 'Post' takes no arguments", 3],
+      ['invalid-attribute', "Field 'deletedAt' of entity 'Tag' is taken by @@softDelete, which adds it", 7],
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import { isTenantScoped, parseDSL, tenantKey } from '../src/index';
+
+describe('DSL Parser - Tenancy Config', () => {
+  const dsl = (tenancy: string, entities = 'entity Project {\n  name: String\n}\n') =>
+    `config auth {\n  provider: jwt\n  userEntity: User\n}\nconfig tenancy {\n${tenancy}}\n` +
+    `entity Organization {\n  name: String\n}\nentity User {\n  email: String unique\n  password: Password\n}\n${entities}`;
+
+  it('should scope every entity but the tenant entity by default', () => {
+    const app = parseDSL(dsl('  strategy: column\n  tenantEntity: Organization\n'));
+    const scoped = app.entities.filter(entity => isTenantScoped(app, entity)).map(entity => entity.name);
+
+    expect(app.config?.tenancy).toEqual({ strategy: 'column', tenantEntity: 'Organization' });
+    expect(scoped).toEqual(['User', 'Project']);
+    expect(tenantKey(app, app.entities[2])).toBe('organizationId');
+  });
+
+  it('should scope only the listed entities, through a declared relation to the tenant', () => {
+    const app = parseDSL(dsl(
+      '  strategy: column\n  tenantEntity: Organization\n  entities: [User, Project]\n',
+      'entity Project {\n  name: String\n  owner: Organization\n}\nentity Tag {\n  name: String\n}\n'
+    ));
+    const scoped = app.entities.filter(entity => isTenantScoped(app, entity)).map(entity => entity.name);
+
+    expect(scoped).toEqual(['User', 'Project']);
+    expect(tenantKey(app, app.entities[2])).toBe('ownerId');
+  });
+
+  it('should check the tenant entity and the scoped entities', () => {
+    const { diagnostics } = parseDSL(dsl('  strategy: row\n  tenantEntity: Organization\n  entities: [Organization, Invoice]\n'), { recover: true });
+
+    expect(diagnostics.map(d => [d.code, d.message, d.line])).toEqual([
+      ['invalid-tenancy', "Unknown tenancy strategy 'row'. Must be one of: column", 6],
+      ['invalid-tenancy', "The tenant entity 'Organization' cannot be tenant-scoped", 8],
+      ['unknown-entity', "Entity 'Invoice' not found in tenancy config", 8],
+      [
+        'invalid-tenancy',
+        "The user entity 'User' must be tenant-scoped, so that each user belongs to a tenant. Add it to 'entities' in the tenancy config",
+        8,
+      ],
+    ]);
+    expect(() => parseDSL(dsl('  strategy: column\n'))).toThrow("The tenancy config requires 'tenantEntity'");
+    expect(() => parseDSL(dsl('  strategy: column\n  tenantEntity: Company\n'))).toThrow(
+      "Tenant entity 'Company' not found in tenancy config"
+    );
+  });
+
+  it('should require the jwt auth provider', () => {
+    expect(() => parseDSL(dsl('  strategy: column\n  tenantEntity: Organization\n').replace('provider: jwt', 'provider: clerk'))).toThrow(
+      "Tenancy binds users to their tenant through the jwt auth provider, so it cannot be used with 'clerk'"
+    );
+  });
+
+  it('should not let fields take the name of the tenant key', () => {
+    expect(() => parseDSL(dsl('  strategy: column\n  tenantEntity: Organization\n', 'entity Project {\n  organizationId: String\n}\n'))).toThrow(
+      "Field 'organizationId' of entity 'Project' is taken by the tenant key. Declare it as a relation, such as organization: Organization"
+    );
+  });
+});
@@ -99,6 +99,12 @@ describe('DSL Parser', () => {
     const onboarding = app.workflows[0];
     expect(onboarding.name).toBe('UserOnboarding');
     expect(onboarding.trigger.event).toBe('user.created');
+    expect(onboarding.steps).toEqual([
+      {
+        action: 'sendEmail',
+        inputs: { template: 'welcome', recipient: 'trigger.entity.email' },
+      },
+    ]);
   });
 
   it('should parse config correctly', () => {
@@ -0,0 +1,90 @@
+import { parseAST, parseDSL } from '../src/parser';
+import { IApp } from '../src/ir';
+import { BlockParser, Stalmer1Plugin, pluginBlocks, transformIR } from '../src/plugins';
+
+describe('Plugins', () => {
+  const schedule: BlockParser = block => {
+    if (typeof block.body.cron !== 'string') block.fail(`schedule '${block.name}' requires a cron expression`, 'cron');
+    return { name: block.name, cron: block.body.cron, run: block.body.run };
+  };
+
+  const dsl = `
+    entity Report {
+      title: String
+    }
+
+    schedule Nightly {
+      cron: "0 2 * * *"
+      run: Report
+    }
+
+    metrics {
+      enabled: true
+    }
+  `;
+
+  it('should parse blocks added by plugins into the extensions of the IR', () => {
+    const app = parseDSL(dsl, { blocks: { schedule, metrics: block => block.body } });
+
+    expect(app.extensions).toEqual({
+      schedule: [{ name: 'Nightly', cron: '0 2 * * *', run: 'Report' }],
+      metrics: [{ enabled: true }],
+    });
+    expect(app.entities.map(e => e.name)).toEqual(['Report']);
+  });
+
+  it('should let block parsers change the IR', () => {
+    const app = parseDSL('entity User {\n  email: String\n}\n\ntimestamps all {\n}\n', {
+      blocks: {
+        timestamps: (_block, ir) => {
+          ir.entities.forEach(entity => entity.fields.push({ name: 'createdAt', type: 'DateTime', default: 'now' }));
+        },
+      },
+    });
+
+    expect(app.entities[0].fields.map(f => f.name)).toEqual(['id', 'email', 'createdAt']);
+    expect(app.extensions).toBeUndefined();
+  });
+
+  it('should report problems at the property a block parser names', () => {
+    const source = 'entity Report {\n  title: String\n}\n\nschedule Nightly {\n  cron: 5\n}\n';
+    const { diagnostics } = parseDSL(source, { recover: true, blocks: { schedule } });
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ code: 'invalid-block', message: "schedule 'Nightly' requires a cron expression", line: 6, column: 9 }),
+    ]);
+  });
+
+  it('should reject blocks no plugin registered', () => {
+    expect(() => parseDSL(dsl, { blocks: { schedule } })).toThrow("Unknown block type 'metrics'. Must be one of: entity, page, workflow, config, enum, view, schedule");
+    expect(parseAST(dsl, undefined, ['schedule', 'metrics']).declarations.map(d => d.kind === 'Block' ? d.keyword : d.kind))
+      .toEqual(['Entity', 'schedule', 'metrics']);
+  });
+
+  it('should not let plugins take the same keyword', () => {
+    const plugin = (name: string, keyword: string): Stalmer1Plugin => ({ name, blocks: { [keyword]: schedule } });
+
+    expect(Object.keys(pluginBlocks([plugin('a', 'schedule'), plugin('b', 'metrics')]))).toEqual(['schedule', 'metrics']);
+    expect(() => pluginBlocks([plugin('a', 'schedule'), plugin('b', 'schedule')])).toThrow("Block keyword 'schedule' is already registered by a (in plugin b)");
+    expect(() => pluginBlocks([plugin('a', 'entity')])).toThrow("Block keyword 'entity' is already part of the DSL (in plugin a)");
+  });
+
+  it('should run IR transforms in order and validate the result', () => {
+    const app = parseDSL('entity User {\n  email: String\n}\n');
+    const rename: Stalmer1Plugin = { name: 'rename', transformIR: ir => ({ ...ir, name: 'Renamed' }) };
+    const addPage: Stalmer1Plugin = {
+      name: 'pages',
+      transformIR: (ir: IApp) => {
+        ir.pages.push({ name: `${ir.name}Users`, type: 'table', entity: 'User', route: '/users' });
+      },
+    };
+
+    expect(transformIR(app, [rename, addPage]).pages.map(p => p.name)).toEqual(['RenamedUsers']);
+
+    const broken: Stalmer1Plugin = {
+      name: 'broken',
+      transformIR: ir => ({ ...ir, views: [{ name: 'Missing', from: 'Nothing', fields: [] }] }),
+    };
+    expect(() => transformIR(app, [broken])).toThrow(/Entity 'Nothing' not found for view 'Missing'.*\(in plugin broken\)/);
+  });
+});
@@ -0,0 +1,57 @@
+import { parseDSL, findInverseRelation, ownsForeignKey } from '../src/index';
+
+describe('Relations', () => {
+  const app = parseDSL(`
+    entity User {
+      name: String
+      posts: Post[] @relation(name: "UserPosts")
+      profile: Profile
+    }
+
+    entity Profile {
+      bio: String
+      user: User
+    }
+
+    entity Post {
+      title: String
+      author: User @relation(name: "UserPosts")
+      reviewer: User optional
+      tags: Tag[]
+    }
+
+    entity Tag {
+      label: String
+      posts: Post[]
+    }
+  `);
+  const entity = (name: string) => app.entities.find(e => e.name === name)!;
+  const relation = (entityName: string, field: string) => entity(entityName).relations!.find(r => r.field === field)!;
+
+  it('should turn fields typed as an entity into relations', () => {
+    expect(entity('Post').fields.map(f => f.name)).toEqual(['id', 'title']);
+    expect(relation('Post', 'reviewer')).toMatchObject({ target: 'User', type: 'many-to-one', optional: true });
+  });
+
+  it('should pair sides by relation name', () => {
+    expect(findInverseRelation(app.entities, entity('Post'), relation('Post', 'author'))).toBe(relation('User', 'posts'));
+    expect(relation('User', 'posts').type).toBe('one-to-many');
+    expect(relation('Post', 'author').type).toBe('many-to-one');
+  });
+
+  it('should infer the pair when there is one unnamed relation each way', () => {
+    expect(relation('Post', 'tags').type).toBe('many-to-many');
+    expect(relation('Tag', 'posts').type).toBe('many-to-many');
+    expect(relation('User', 'profile').type).toBe('one-to-one');
+    expect(findInverseRelation(app.entities, entity('Post'), relation('Post', 'reviewer'))).toBeUndefined();
+  });
+
+  it('should keep the foreign key of a one-to-one on the later entity', () => {
+    expect(ownsForeignKey(app.entities, entity('Profile'), relation('Profile', 'user'))).toBe(true);
+    expect(ownsForeignKey(app.entities, entity('User'), relation('User', 'profile'))).toBe(false);
+  });
+
+  it('should reject list fields of an unknown type', () => {
+    expect(() => parseDSL('entity Post {\n  tags: Tagg[]\n}')).toThrow("Type 'Tagg[]' for field 'tags' is not a defined entity or enum.");
+  });
+});
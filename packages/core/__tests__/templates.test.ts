@@ -0,0 +1,49 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TEMPLATE_CONTEXT_VERSION, TemplateError, createTemplateLoader } from '../src/index';
+
+describe('Template loader', () => {
+  let tmpDir: string;
+
+  const write = (relPath: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(tmpDir, relPath)), { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, relPath), content);
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stalmer1-templates-'));
+    write('builtin/controller.ejs', 'built-in controller');
+    write('builtin/service.ejs', 'built-in service');
+    write('builtin/ui/button.tsx.ejs', 'built-in button');
+    write('local/backend/controller.ejs', 'local controller');
+    write('local/backend/ui/badge.tsx.ejs', 'local badge');
+    write('pack/backend/controller.ejs', 'pack controller');
+    write('pack/backend/service.ejs', 'pack service');
+    write('pack/frontend/service.ejs', 'frontend service');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should read each template from the first source that has it', () => {
+    const templates = createTemplateLoader('backend', path.join(tmpDir, 'builtin'), [
+      { name: 'templates', dir: path.join(tmpDir, 'local') },
+      { name: 'pack', dir: path.join(tmpDir, 'pack') },
+    ]);
+
+    expect(templates.read('controller.ejs')).toBe('local controller');
+    expect(templates.read('service.ejs')).toBe('pack service');
+    expect(templates.list('ui')).toEqual(['badge.tsx.ejs', 'button.tsx.ejs']);
+    expect(createTemplateLoader('backend', path.join(tmpDir, 'builtin')).read('controller.ejs')).toBe('built-in controller');
+    expect(() => templates.read('missing.ejs')).toThrow('Template not found: backend/missing.ejs');
+  });
+
+  it('should reject templates written for another template context version', () => {
+    const sources = [{ name: 'old-pack', dir: path.join(tmpDir, 'pack'), contextVersion: TEMPLATE_CONTEXT_VERSION - 1 }];
+
+    expect(() => createTemplateLoader('backend', path.join(tmpDir, 'builtin'), sources)).toThrow(TemplateError);
+    expect(() => createTemplateLoader('backend', path.join(tmpDir, 'builtin'), sources)).toThrow(/\(in old-pack\)$/);
+  });
+});
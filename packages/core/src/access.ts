@@ -0,0 +1,53 @@
+// Helpers for the access section of entities, shared by validation and the generators
+import { IApp, IREntity, IRRelation } from './ir';
+import { foreignKeyName, isListRelation, ownsForeignKey } from './relations';
+
+/** The operations an access section can restrict, in the order they are written */
+export const ACCESS_OPERATIONS = ['read', 'create', 'update', 'delete'] as const;
+
+export type AccessOperation = typeof ACCESS_OPERATIONS[number];
+
+/** The rule in an access list that allows the user a record belongs to */
+export const OWNER = 'owner';
+
+/**
+ * The relations of an entity that can make a user its owner: to-one relations to the user
+ * entity that hold the foreign key
+ * @param app - The entire application IR
+ * @param entity - The entity
+ * @returns The relations
+ */
+export function ownerCandidates(app: IApp, entity: IREntity): IRRelation[] {
+  const userEntity = app.config?.auth?.userEntity;
+  return (entity.relations ?? []).filter(relation =>
+    relation.target === userEntity && !isListRelation(relation) && ownsForeignKey(app.entities, entity, relation));
+}
+
+/**
+ * Finds the relation that `owner` in the access section of an entity refers to: the one named
+ * by its `owner` property, or else the only candidate
+ * @param app - The entire application IR
+ * @param entity - The entity
+ * @returns The relation, or undefined if there is none or the choice is ambiguous
+ */
+export function ownerRelation(app: IApp, entity: IREntity): IRRelation | undefined {
+  const candidates = ownerCandidates(app, entity);
+  if (entity.access?.owner) return candidates.find(relation => relation.field === entity.access?.owner);
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+/**
+ * The column that holds the id of the user a record belongs to. Records of the user entity
+ * belong to the user they describe, unless the section names another relation.
+ * @param app - The entire application IR
+ * @param entity - The entity
+ * @returns The column, or undefined if records of the entity have no owner
+ */
+export function ownerKey(app: IApp, entity: IREntity): string | undefined {
+  const relation = ownerRelation(app, entity);
+  if (relation) return foreignKeyName(relation);
+  if (entity.name === app.config?.auth?.userEntity && !entity.access?.owner) {
+    return entity.fields.find(field => field.primaryKey)?.name ?? 'id';
+  }
+  return undefined;
+}
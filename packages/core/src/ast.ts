@@ -0,0 +1,153 @@
+// Syntax tree produced by the Stalmer1 DSL parser
+// Every node records where it starts and ends in the source, so errors and tooling can point at exact tokens.
+
+export interface Position {
+  line: number; // 1-based
+  column: number; // 1-based
+  offset: number; // 0-based character offset into the source
+}
+
+export interface Span {
+  start: Position;
+  end: Position; // Exclusive
+}
+
+export interface BaseNode {
+  kind: string;
+  span: Span;
+}
+
+export interface IdentifierNode extends BaseNode {
+  kind: 'Identifier';
+  name: string; // May be a dotted path such as trigger.entity.email
+}
+
+export interface StringLiteralNode extends BaseNode {
+  kind: 'String';
+  value: string;
+}
+
+export interface NumberLiteralNode extends BaseNode {
+  kind: 'Number';
+  value: number;
+}
+
+export interface BooleanLiteralNode extends BaseNode {
+  kind: 'Boolean';
+  value: boolean;
+}
+
+// A call-like value such as env(SENDGRID_API_KEY)
+export interface CallNode extends BaseNode {
+  kind: 'Call';
+  callee: IdentifierNode;
+  args: ArgumentNode[];
+}
+
+export interface ArrayNode extends BaseNode {
+  kind: 'Array';
+  elements: ValueNode[];
+}
+
+export interface ObjectNode extends BaseNode {
+  kind: 'Object';
+  properties: PropertyNode[];
+}
+
+export interface PropertyNode extends BaseNode {
+  kind: 'Property';
+  key: IdentifierNode;
+  value: ValueNode;
+}
+
+export type ValueNode =
+  | IdentifierNode
+  | StringLiteralNode
+  | NumberLiteralNode
+  | BooleanLiteralNode
+  | CallNode
+  | ArrayNode
+  | ObjectNode;
+
+// A positional (`default(0)`) or named (`validate(min: 1)`) argument
+export interface ArgumentNode extends BaseNode {
+  kind: 'Argument';
+  name?: IdentifierNode;
+  value: ValueNode;
+}
+
+// A field attribute such as `unique`, `default(0)` or `@relation(name: "UserPosts")`
+export interface AttributeNode extends BaseNode {
+  kind: 'Attribute';
+  name: IdentifierNode;
+  decorator: boolean; // Written with a leading '@'
+  args?: ArgumentNode[];
+  argsSpan?: Span; // The source between the parentheses
+}
+
+export interface TypeNode extends BaseNode {
+  kind: 'Type';
+  name: IdentifierNode;
+  isList: boolean;
+}
+
+export interface FieldNode extends BaseNode {
+  kind: 'Field';
+  name: IdentifierNode;
+  type: TypeNode;
+  attributes: AttributeNode[];
+}
+
+// An entity-level directive such as `@@unique([tenantId, email])` or `@@map("users")`
+export interface DirectiveNode extends BaseNode {
+  kind: 'Directive';
+  name: IdentifierNode;
+  args?: ArgumentNode[];
+}
+
+// An entity's `access { read: [VIEWER], update: [EDITOR, owner] }` section
+export interface AccessNode extends BaseNode {
+  kind: 'Access';
+  body: ObjectNode;
+}
+
+export interface EntityNode extends BaseNode {
+  kind: 'Entity';
+  name: IdentifierNode;
+  fields: FieldNode[];
+  directives: DirectiveNode[];
+  access?: AccessNode;
+}
+
+export interface EnumNode extends BaseNode {
+  kind: 'Enum';
+  name: IdentifierNode;
+  values: IdentifierNode[];
+}
+
+// page, workflow, config and view blocks, and blocks added by plugins, share the generic key/value body
+export interface BlockNode extends BaseNode {
+  kind: 'Block';
+  keyword: 'page' | 'workflow' | 'config' | 'view' | (string & {});
+  name?: IdentifierNode; // Only `config` blocks and blocks added by plugins may omit their name
+  body: ObjectNode;
+}
+
+// import "./billing.dsl", or a glob such as import "./schema/*.dsl"
+export interface ImportNode extends BaseNode {
+  kind: 'Import';
+  path: StringLiteralNode;
+}
+
+export type DeclarationNode = EntityNode | EnumNode | BlockNode | ImportNode;
+
+export interface CommentNode extends BaseNode {
+  kind: 'Comment';
+  text: string; // Without the leading //
+}
+
+export interface DocumentNode extends BaseNode {
+  kind: 'Document';
+  declarations: DeclarationNode[];
+  comments: CommentNode[];
+}
@@ -0,0 +1,23 @@
+// Helpers for `@@audited`, shared by validation and the generators
+import { IApp, IREntity } from './ir';
+
+/** The model the audit log is kept in, added to the schema when an entity is audited */
+export const AUDIT_LOG_MODEL = 'AuditLog';
+
+/**
+ * Whether any entity of an app is audited, so that the app needs the audit log
+ * @param app - The entire application IR
+ * @returns True if an entity has @@audited
+ */
+export function hasAuditLog(app: IApp): boolean {
+  return app.entities.some(entity => entity.audited);
+}
+
+/**
+ * The fields whose values the audit log leaves out: the Password fields
+ * @param entity - The audited entity
+ * @returns The field names
+ */
+export function redactedFields(entity: IREntity): string[] {
+  return entity.fields.filter(field => field.isPassword).map(field => field.name);
+}
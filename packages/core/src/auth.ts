@@ -0,0 +1,72 @@
+// Helpers for the built-in jwt auth provider, shared by validation and the backend generator
+import { IApp, IREntity, IRField } from './ir';
+
+/** The models the jwt auth provider adds to the database, so entities may not use their names */
+export const AUTH_TOKEN_MODELS = ['RefreshToken', 'PasswordResetToken'];
+
+/** How long each kind of token lasts unless the auth props say otherwise */
+export const AUTH_TOKEN_TTLS = {
+  accessTokenTtl: '15m',
+  refreshTokenTtl: '30d',
+  resetTokenTtl: '1h',
+};
+
+export type AuthTokenTtl = keyof typeof AUTH_TOKEN_TTLS;
+
+/** The fields of the user entity that the jwt auth provider signs users in with */
+export interface AuthUser {
+  entity: IREntity;
+  primaryKey: Pick<IRField, 'name' | 'type'>;
+  identityField?: IRField; // The unique field users sign in with, such as email
+  passwordField?: IRField; // The Password field holding the hash of the user's password
+  roleField?: IRField; // The field typed with the roles enum, if there is one
+}
+
+/**
+ * Finds the user entity and the fields the auth props pick from it. Without `identityField`,
+ * the first unique string field is used; without `passwordField`, the first Password field.
+ * @param app - The entire application IR
+ * @returns The user entity and its fields, or undefined if no user entity is configured
+ */
+export function authUser(app: IApp): AuthUser | undefined {
+  const auth = app.config?.auth;
+  const entity = app.entities.find(e => e.name === auth?.userEntity);
+  if (!auth || !entity) return undefined;
+
+  const named = (prop: string) => typeof auth.props?.[prop] === 'string' ? auth.props[prop] as string : undefined;
+  const identityName = named('identityField');
+  const passwordName = named('passwordField');
+  return {
+    entity,
+    primaryKey: entity.fields.find(field => field.primaryKey) ?? { name: 'id', type: 'UUID' },
+    identityField: identityName
+      ? entity.fields.find(field => field.name === identityName)
+      : entity.fields.find(field => field.unique && !field.primaryKey && ['String', 'Text'].includes(field.type)),
+    passwordField: passwordName
+      ? entity.fields.find(field => field.name === passwordName)
+      : entity.fields.find(field => field.isPassword),
+    roleField: auth.roles ? entity.fields.find(field => field.type === auth.roles) : undefined,
+  };
+}
+
+/**
+ * Reads a duration such as `15m`, `12h` or `30d`
+ * @param value - The duration
+ * @returns The number of seconds, or undefined if the value is not a duration
+ */
+export function parseDuration(value: unknown): number | undefined {
+  const match = typeof value === 'string' ? /^(\d+)(s|m|h|d)$/.exec(value) : null;
+  if (!match) return undefined;
+  const unit = { s: 1, m: 60, h: 3600, d: 86400 }[match[2] as 's' | 'm' | 'h' | 'd'];
+  return Number(match[1]) * unit;
+}
+
+/**
+ * The lifetime of a kind of token, from the auth props or the default
+ * @param app - The entire application IR
+ * @param ttl - The auth prop naming the lifetime
+ * @returns The number of seconds the token lasts
+ */
+export function authTokenTtl(app: IApp, ttl: AuthTokenTtl): number {
+  return parseDuration(app.config?.auth?.props?.[ttl]) ?? parseDuration(AUTH_TOKEN_TTLS[ttl]) as number;
+}
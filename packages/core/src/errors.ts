@@ -1,16 +1,111 @@
 export class DSLParsingError extends Error {
+  /** The message without the location suffix */
+  public readonly reason: string;
+
   constructor(
     message: string,
     public readonly filePath?: string,
     public readonly lineNumber?: number,
     public readonly columnNumber?: number,
     public readonly context?: string,
+    public readonly code: DiagnosticCode = 'syntax-error',
   ) {
     const location =
       filePath && lineNumber
-        ? ` at ${filePath}:${lineNumber}`
+        ? ` at ${filePath}:${lineNumber}${columnNumber ? `:${columnNumber}` : ''}`
         : '';
     super(`${message}${location}`);
     this.name = 'DSLParsingError';
+    this.reason = message;
   }
 }
+
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    public readonly source?: string, // The override directory or template pack the problem is in
+  ) {
+    super(source ? `${message} (in ${source})` : message);
+    this.name = 'TemplateError';
+  }
+}
+
+export class PluginError extends Error {
+  constructor(
+    message: string,
+    public readonly plugin?: string, // The name of the plugin the problem is in
+  ) {
+    super(plugin ? `${message} (in plugin ${plugin})` : message);
+    this.name = 'PluginError';
+  }
+}
+
+export class IRError extends Error {
+  constructor(
+    message: string,
+    public readonly problems: string[] = [], // Each place the IR does not match the schema
+    public readonly source?: string, // The file the IR was read from
+  ) {
+    super(`${message}${source ? ` (in ${source})` : ''}${problems.map(problem => `\n  ${problem}`).join('')}`);
+    this.name = 'IRError';
+  }
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type DiagnosticCode =
+  | 'syntax-error'
+  | 'empty-file'
+  | 'unknown-block'
+  | 'invalid-block'
+  | 'unresolved-import'
+  | 'import-cycle'
+  | 'duplicate-declaration'
+  | 'invalid-field-name'
+  | 'missing-field-type'
+  | 'invalid-field-type'
+  | 'duplicate-field'
+  | 'unknown-attribute'
+  | 'invalid-attribute'
+  | 'missing-property'
+  | 'unknown-type'
+  | 'unknown-entity'
+  | 'unknown-field'
+  | 'invalid-access'
+  | 'unknown-role'
+  | 'invalid-auth'
+  | 'invalid-tenancy'
+  | 'invalid-workflow-event'
+  | 'unknown-workflow-action'
+  | 'invalid-integration';
+
+/**
+ * A problem found while parsing or validating a DSL file
+ */
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  filePath?: string;
+  line: number; // 1-based, 0 when the problem has no location
+  column: number; // 1-based, 0 when the problem has no location
+  context?: string; // The source line the problem is on
+}
+
+/**
+ * Converts a parsing error into a diagnostic
+ * @param error - The error to convert
+ * @param severity - The severity to report it with
+ * @returns The diagnostic
+ */
+export function toDiagnostic(error: DSLParsingError, severity: DiagnosticSeverity = 'error'): Diagnostic {
+  return {
+    severity,
+    code: error.code,
+    message: error.reason,
+    filePath: error.filePath,
+    line: error.lineNumber ?? 0,
+    column: error.columnNumber ?? 0,
+    context: error.context,
+  };
+}
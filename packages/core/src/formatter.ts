@@ -0,0 +1,268 @@
+// Prints DSL source in its canonical layout: two-space indentation, aligned field types and
+// attributes, attributes in a fixed order, and every comment kept
+import {
+  AccessNode,
+  ArgumentNode,
+  AttributeNode,
+  BaseNode,
+  CommentNode,
+  DeclarationNode,
+  DirectiveNode,
+  EntityNode,
+  EnumNode,
+  FieldNode,
+  ObjectNode,
+  ValueNode,
+} from './ast';
+import { parseAST } from './parser';
+
+const INDENT = '  ';
+const MAX_WIDTH = 80; // Objects and arrays that fit in this many columns are printed on one line
+
+// Attributes are printed in this order; unknown ones keep their order after these
+const ATTRIBUTE_ORDER = ['primaryKey', 'unique', 'optional', 'readonly', 'default', 'validate', '@relation', '@map', '@virtual'];
+
+export interface FormatOptions {
+  filePath?: string; // The file the source came from, used in error messages
+  keywords?: string[]; // Block keywords added by plugins
+}
+
+/**
+ * Formats DSL source. Declarations keep their order, and so do fields, properties and values;
+ * blank lines between them are kept, collapsed to one.
+ * @param source - The DSL source
+ * @param options - The file the source came from and the block keywords added by plugins
+ * @returns The formatted source, ending in a newline
+ * @throws DSLParsingError if the source has a syntax error
+ */
+export function formatDSL(source: string, options: FormatOptions = {}): string {
+  const document = parseAST(source, options.filePath, options.keywords);
+  return new Printer(source, document.comments).printDocument(document.declarations);
+}
+
+class Printer {
+  private readonly lines: string[];
+  private next = 0; // The first comment that has not been printed
+
+  constructor(private readonly source: string, private readonly comments: CommentNode[]) {
+    this.lines = source.split('\n');
+  }
+
+  printDocument(declarations: DeclarationNode[]): string {
+    const output: string[] = [];
+    let lastLine = 0;
+    declarations.forEach((declaration, index) => {
+      // Declarations are separated by a blank line, except within a run of imports
+      const previous = declarations[index - 1];
+      const separate = previous !== undefined
+        && (previous.kind !== 'Import' || declaration.kind !== 'Import' || this.blankBetween(lastLine, this.firstLine(declaration)));
+      output.push(...this.leadingComments(declaration, lastLine, separate));
+      output.push(...this.withTrailingComment(declaration, this.formatDeclaration(declaration)));
+      lastLine = declaration.span.end.line;
+    });
+    this.takeComments(Infinity).forEach((comment, index) => {
+      if (output.length > 0 && (index === 0 || this.blankBetween(lastLine, comment.span.start.line))) output.push('');
+      output.push(formatComment(comment));
+      lastLine = comment.span.start.line;
+    });
+    return `${output.join('\n')}\n`;
+  }
+
+  private formatDeclaration(node: DeclarationNode): string {
+    switch (node.kind) {
+      case 'Import':
+        return `import ${formatString(node.path.value)}`;
+      case 'Entity':
+        return this.formatEntity(node);
+      case 'Enum':
+        return this.formatEnum(node);
+      case 'Block':
+        return block(`${node.keyword}${node.name ? ` ${node.name.name}` : ''}`, this.formatBody(node.body, 1));
+    }
+  }
+
+  // The properties of a block body, one per line
+  private formatBody(body: ObjectNode, depth: number): string[] {
+    return this.formatMembers(body.properties, body, property => {
+      const key = formatKey(property.key.name);
+      return `${key}: ${this.formatValue(property.value, depth, depth * INDENT.length + key.length + 2)}`;
+    });
+  }
+
+  private formatEntity(node: EntityNode): string {
+    const nameWidth = Math.max(0, ...node.fields.map(field => field.name.name.length + 1));
+    const typeWidth = Math.max(0, ...node.fields.map(field => formatType(field).length));
+    const members: (FieldNode | DirectiveNode | AccessNode)[] = [...node.fields, ...node.directives, ...(node.access ? [node.access] : [])]
+      .sort((a, b) => a.span.start.offset - b.span.start.offset);
+    return block(`entity ${node.name.name}`, this.formatMembers(members, node, member => {
+      if (member.kind === 'Directive') return `@@${member.name.name}${member.args ? this.formatArguments(member.args) : ''}`;
+      if (member.kind === 'Access') return block('access', this.formatBody(member.body, 2));
+      const attributes = sortAttributes(member.attributes).map(attribute => this.formatAttribute(attribute)).join(' ');
+      return `${`${member.name.name}:`.padEnd(nameWidth)} ${formatType(member).padEnd(typeWidth)} ${attributes}`.trimEnd();
+    }));
+  }
+
+  private formatEnum(node: EnumNode): string {
+    const inline = `enum ${node.name.name} { ${node.values.map(value => value.name).join(', ')} }`;
+    if (!this.hasComments(node) && inline.length <= MAX_WIDTH) return inline;
+    return block(`enum ${node.name.name}`, this.formatMembers(node.values, node, value => value.name));
+  }
+
+  /**
+   * Formats the members of a block or value one per line, with the comments around them
+   * @param members - The fields, properties or values
+   * @param container - The node the members are in
+   * @param format - Formats a member; lines after the first are indented relative to the member
+   * @returns The lines, indented relative to the members
+   */
+  private formatMembers<T extends BaseNode>(members: T[], container: BaseNode, format: (member: T, index: number) => string): string[] {
+    const lines: string[] = [];
+    let lastLine = container.span.start.line;
+    members.forEach((member, index) => {
+      const separate = index > 0 && this.blankBetween(lastLine, this.firstLine(member));
+      lines.push(...this.leadingComments(member, lastLine, separate));
+      lines.push(...this.withTrailingComment(member, format(member, index)));
+      lastLine = member.span.end.line;
+    });
+    for (const comment of this.takeComments(container.span.end.offset)) {
+      if (this.blankBetween(lastLine, comment.span.start.line)) lines.push('');
+      lines.push(formatComment(comment));
+      lastLine = comment.span.start.line;
+    }
+    return lines;
+  }
+
+  // The comments on the lines before a node, and the blank lines around them
+  private leadingComments(node: BaseNode, lastLine: number, separate: boolean): string[] {
+    const lines = separate ? [''] : [];
+    const comments = this.takeComments(node.span.start.offset);
+    comments.forEach((comment, index) => {
+      if (index > 0 && this.blankBetween(lastLine, comment.span.start.line)) lines.push('');
+      lines.push(formatComment(comment));
+      lastLine = comment.span.start.line;
+    });
+    if (comments.length > 0 && this.blankBetween(lastLine, node.span.start.line)) lines.push('');
+    return lines;
+  }
+
+  // Appends the comment at the end of a node's last line, if there is one
+  private withTrailingComment(node: BaseNode, text: string): string[] {
+    const lines = text.split('\n');
+    const comment = this.comments[this.next];
+    if (comment && comment.span.start.line === node.span.end.line && comment.span.start.offset >= node.span.end.offset) {
+      lines[lines.length - 1] += ` ${formatComment(comment)}`;
+      this.next++;
+    }
+    return lines;
+  }
+
+  private takeComments(before: number): CommentNode[] {
+    const start = this.next;
+    while (this.next < this.comments.length && this.comments[this.next].span.start.offset < before) this.next++;
+    return this.comments.slice(start, this.next);
+  }
+
+  private hasComments(node: BaseNode): boolean {
+    return this.comments.some(comment => comment.span.start.offset > node.span.start.offset && comment.span.start.offset < node.span.end.offset);
+  }
+
+  // The first source line of a node, or of the comments before it
+  private firstLine(node: BaseNode): number {
+    const comment = this.comments[this.next];
+    return comment && comment.span.start.offset < node.span.start.offset ? comment.span.start.line : node.span.start.line;
+  }
+
+  // Whether the source has a blank line between two lines
+  private blankBetween(from: number, to: number): boolean {
+    return this.lines.slice(from, to - 1).some(line => line.trim() === '');
+  }
+
+  private formatAttribute(attribute: AttributeNode): string {
+    return `${attribute.decorator ? '@' : ''}${attribute.name.name}${attribute.args ? this.formatArguments(attribute.args) : ''}`;
+  }
+
+  private formatArguments(args: ArgumentNode[]): string {
+    return `(${args.map(arg => `${arg.name ? `${arg.name.name}: ` : ''}${this.formatInline(arg.value)}`).join(', ')})`;
+  }
+
+  /**
+   * Formats a value, on one line if it fits and has no comments in it
+   * @param value - The value
+   * @param depth - The indentation level of the line the value starts on
+   * @param column - The column the value starts at
+   * @returns The value; lines after the first are indented relative to the line it starts on
+   */
+  private formatValue(value: ValueNode, depth: number, column: number): string {
+    const inline = this.formatInline(value);
+    if (value.kind !== 'Object' && value.kind !== 'Array') return inline;
+    if (!this.hasComments(value) && column + inline.length <= MAX_WIDTH) return inline;
+
+    const inner = (depth + 1) * INDENT.length;
+    const lines = value.kind === 'Object'
+      ? this.formatMembers(value.properties, value, property => {
+          const key = formatKey(property.key.name);
+          return `${key}: ${this.formatValue(property.value, depth + 1, inner + key.length + 2)}`;
+        })
+      : this.formatMembers(value.elements, value, (element, index) =>
+          `${this.formatValue(element, depth + 1, inner)}${index < value.elements.length - 1 ? ',' : ''}`);
+    const [open, close] = value.kind === 'Object' ? ['{', '}'] : ['[', ']'];
+    return [open, ...indent(lines), close].join('\n');
+  }
+
+  // Formats a value on one line
+  private formatInline(value: ValueNode): string {
+    switch (value.kind) {
+      case 'Identifier':
+        return value.name;
+      case 'String':
+        return formatString(value.value);
+      case 'Number':
+        return this.source.slice(value.span.start.offset, value.span.end.offset);
+      case 'Boolean':
+        return String(value.value);
+      case 'Call':
+        return `${value.callee.name}${this.formatArguments(value.args)}`;
+      case 'Array':
+        return `[${value.elements.map(element => this.formatInline(element)).join(', ')}]`;
+      case 'Object':
+        return value.properties.length === 0
+          ? '{}'
+          : `{ ${value.properties.map(property => `${formatKey(property.key.name)}: ${this.formatInline(property.value)}`).join(', ')} }`;
+    }
+  }
+}
+
+// Indents lines by one level, leaving blank lines empty
+function indent(lines: string[]): string[] {
+  return lines.map(line => (line ? `${INDENT}${line}` : line));
+}
+
+// `header { ... }` with the members on their own lines, or `header {}` without any
+function block(header: string, members: string[]): string {
+  return members.length === 0 ? `${header} {}` : [`${header} {`, ...indent(members), '}'].join('\n');
+}
+
+function formatComment(comment: CommentNode): string {
+  return `//${comment.text}`.trimEnd();
+}
+
+function formatType(field: FieldNode): string {
+  return `${field.type.name.name}${field.type.isList ? '[]' : ''}`;
+}
+
+function formatString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t')}"`;
+}
+
+// Keys that are not plain words, such as "Content-Type", keep their quotes
+function formatKey(key: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(key) ? key : formatString(key);
+}
+
+function sortAttributes(attributes: AttributeNode[]): AttributeNode[] {
+  const rank = (attribute: AttributeNode) => {
+    const index = ATTRIBUTE_ORDER.indexOf(`${attribute.decorator ? '@' : ''}${attribute.name.name}`);
+    return index === -1 ? ATTRIBUTE_ORDER.length : index;
+  };
+  return [...attributes].sort((a, b) => rank(a) - rank(b));
+}
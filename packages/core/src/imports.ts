@@ -0,0 +1,89 @@
+// Resolves the files named by `import` statements, including glob patterns
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Tells whether an import path is a glob pattern
+ * @param pattern - The import path
+ * @returns Whether it contains `*` or `?`
+ */
+export function isGlob(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+// `*` and `?` match within one path segment
+function segmentPattern(segment: string): RegExp {
+  const escaped = segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Lists the files that match a glob pattern. `*` and `?` match within a directory or file name,
+ * and a `**` segment matches any number of nested directories.
+ * @param baseDir - The directory the pattern is relative to
+ * @param pattern - The pattern, such as `schema/*.dsl`
+ * @returns The absolute paths of the matching files, sorted
+ */
+export function matchFiles(baseDir: string, pattern: string): string[] {
+  const segments = pattern.split(/[\\/]/).filter(segment => segment !== '' && segment !== '.');
+  const root = path.isAbsolute(pattern) ? path.parse(pattern).root : baseDir;
+  const matches = new Set<string>();
+
+  const walk = (dir: string, index: number) => {
+    if (index === segments.length) return;
+    const segment = segments[index];
+    const last = index === segments.length - 1;
+    if (segment === '**') {
+      walk(dir, index + 1);
+      for (const entry of readDirectory(dir)) {
+        if (entry.isDirectory()) walk(path.join(dir, entry.name), index);
+      }
+      return;
+    }
+    if (!isGlob(segment)) {
+      const next = path.join(dir, segment);
+      if (last ? isFile(next) : isDirectory(next)) {
+        if (last) matches.add(next);
+        else walk(next, index + 1);
+      }
+      return;
+    }
+    const matcher = segmentPattern(segment);
+    for (const entry of readDirectory(dir)) {
+      if (!matcher.test(entry.name)) continue;
+      const next = path.join(dir, entry.name);
+      if (last && entry.isFile()) matches.add(next);
+      if (!last && entry.isDirectory()) walk(next, index + 1);
+    }
+  };
+
+  walk(path.resolve(root), 0);
+  return [...matches].sort((a, b) => a.localeCompare(b));
+}
+
+function readDirectory(dir: string): fs.Dirent[] {
+  try {
+    return fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+}
+
+function isFile(file: string): boolean {
+  return fs.existsSync(file) && fs.statSync(file).isFile();
+}
+
+function isDirectory(dir: string): boolean {
+  return fs.existsSync(dir) && fs.statSync(dir).isDirectory();
+}
+
+/**
+ * Resolves the path of an `import` statement to the files it names
+ * @param importPath - The quoted path, relative to the importing file
+ * @param fromDir - The directory of the importing file
+ * @returns The absolute paths of the imported files. A glob resolves to the files that exist;
+ *   any other path resolves to itself, whether or not the file exists.
+ */
+export function resolveImport(importPath: string, fromDir: string): string[] {
+  return isGlob(importPath) ? matchFiles(fromDir, importPath) : [path.resolve(fromDir, importPath)];
+}
@@ -1,4 +1,18 @@
 // Export all types and functions from the IR and parser modules
 export * from './ir';
+export * from './ast';
+export * from './lexer';
 export * from './parser';
+export * from './relations';
 export * from './errors';
+export * from './vfs';
+export * from './templates';
+export * from './plugins';
+export * from './imports';
+export * from './formatter';
+export * from './ir-json';
+export * from './access';
+export * from './auth';
+export * from './tenancy';
+export * from './audit';
+export * from './soft-delete';
@@ -0,0 +1,138 @@
+// Writes the IR as JSON and reads it back, checked against the published JSON Schema of IApp
+import * as fs from 'fs';
+import { DSLParsingError, IRError } from './errors';
+import { IApp } from './ir';
+import { validateIR } from './parser';
+import irSchema from './ir.schema.json';
+
+/** The subset of JSON Schema that the IR schema uses */
+export interface JSONSchema {
+  $id?: string;
+  $ref?: string;
+  type?: string | string[];
+  description?: string;
+  enum?: unknown[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  definitions?: Record<string, JSONSchema>;
+}
+
+/** The JSON Schema of IApp, published as ir.schema.json */
+export const IR_SCHEMA: JSONSchema = irSchema as JSONSchema;
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+/**
+ * Checks a value against a schema
+ * @param value - The value
+ * @param schema - The schema
+ * @param at - The path of the value, used in messages
+ * @returns The problems found
+ */
+function check(value: unknown, schema: JSONSchema, at: string): string[] {
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/definitions/', '');
+    return check(value, IR_SCHEMA.definitions?.[name] ?? {}, at);
+  }
+  const where = at || 'The IR';
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${where} must be one of: ${schema.enum.join(', ')}`];
+  }
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    if (!types.includes(actual) && !(actual === 'integer' && types.includes('number'))) {
+      return [`${where} must be ${types.map(type => (/^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`)).join(' or ')}`];
+    }
+  }
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    return value.flatMap((item, index) => check(item, items, `${at}[${index}]`));
+  }
+  if (typeOf(value) !== 'object') return [];
+
+  const object = value as Record<string, unknown>;
+  const problems = (schema.required ?? [])
+    .filter(name => object[name] === undefined)
+    .map(name => `${where} is missing '${name}'`);
+  for (const [name, item] of Object.entries(object)) {
+    const itemAt = at ? `${at}.${name}` : name;
+    const property = schema.properties?.[name];
+    if (property) {
+      problems.push(...check(item, property, itemAt));
+    } else if (schema.additionalProperties === false) {
+      problems.push(`Unknown property ${itemAt}`);
+    } else if (typeof schema.additionalProperties === 'object') {
+      problems.push(...check(item, schema.additionalProperties, itemAt));
+    }
+  }
+  return problems;
+}
+
+/**
+ * Checks that a value matches the IR schema
+ * @param value - The value, such as parsed IR JSON
+ * @returns The problems found, or an empty list if the value is a valid IR
+ */
+export function checkIRSchema(value: unknown): string[] {
+  return check(value, IR_SCHEMA, '');
+}
+
+/**
+ * Serializes the IR as JSON. The result names the IR schema in `$schema`, so editors can check it.
+ * @param app - The application IR
+ * @returns The JSON, ending in a newline
+ */
+export function exportIR(app: IApp): string {
+  return `${JSON.stringify({ $schema: IR_SCHEMA.$id, ...app }, null, 2)}\n`;
+}
+
+/**
+ * Reads IR JSON, such as the output of `exportIR`, and checks it against the IR schema and
+ * the semantic checks of `validateIR`
+ * @param json - The JSON
+ * @param source - Where the JSON came from, used in error messages
+ * @returns The application IR
+ * @throws IRError if the JSON cannot be parsed, does not match the schema or fails validation
+ */
+export function parseIR(json: string, source?: string): IApp {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new IRError(`Invalid JSON: ${error instanceof Error ? error.message : error}`, [], source);
+  }
+  const problems = checkIRSchema(value);
+  if (problems.length > 0) {
+    throw new IRError('The IR does not match the schema', problems, source);
+  }
+  const app = { ...(value as IApp & { $schema?: string }) };
+  delete app.$schema;
+  try {
+    validateIR(app);
+  } catch (error) {
+    if (!(error instanceof DSLParsingError)) throw error;
+    throw new IRError(error.reason, [], source);
+  }
+  return app;
+}
+
+/**
+ * Reads an IR JSON file
+ * @param filePath - The file
+ * @returns The application IR
+ * @throws IRError if the file does not exist or is not a valid IR
+ */
+export function readIR(filePath: string): IApp {
+  if (!fs.existsSync(filePath)) {
+    throw new IRError('File not found', [], filePath);
+  }
+  return parseIR(fs.readFileSync(filePath, 'utf-8'), filePath);
+}
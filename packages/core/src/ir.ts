@@ -8,6 +8,7 @@ export interface IApp {
   pages: IRPage[];
   config?: IRConfig;
   workflows?: IRWorkflow[];
+  extensions?: Record<string, unknown[]>; // What plugin block parsers returned, by block keyword
 }
 
 export interface IRView {
@@ -26,6 +27,21 @@ export interface IREntity {
   name: string;
   fields: IRField[];
   relations?: IRRelation[];
+  uniques?: string[][]; // Compound unique constraints from @@unique
+  indexes?: string[][]; // Indexes from @@index
+  dbName?: string; // Table name in the database, from @@map
+  access?: IRAccess; // Who may read and change records, from the access section
+  audited?: boolean; // Whether changes to records are written to the audit log, from @@audited
+  softDelete?: boolean; // Whether deleting a record sets its deletedAt rather than removing it, from @@softDelete
+}
+
+// The roles allowed to do each operation; `owner` allows the user a record belongs to
+export interface IRAccess {
+  read?: string[];
+  create?: string[];
+  update?: string[];
+  delete?: string[];
+  owner?: string; // The relation to the user entity that `owner` refers to, if there are several
 }
 
 export interface IRField {
@@ -50,6 +66,7 @@ export interface IRField {
   pattern?: string;
   isVirtual?: boolean;
   virtualFrom?: string;
+  dbName?: string; // Column name in the database, from @map
 }
 
 export interface IRRelation {
@@ -57,6 +74,7 @@ export interface IRRelation {
   target: string;
   field: string;
   relationName?: string; // Name of the relation for Prisma
+  optional?: boolean; // A to-one side that may be empty
 }
 
 export interface IRPage {
@@ -67,19 +85,27 @@ export interface IRPage {
   permissions?: string[];
   props?: Record<string, string | number | boolean | null | string[] | Record<string, unknown>>; // For columns, fields, actions, filters, etc.
   // Additional properties used in tests
-  columns?: Array<{ field: string; label: string }>;
+  columns?: Array<{ field: string; label?: string }>;
   title?: string;
 }
 
 export interface IRConfig {
   db?: 'sqlite' | 'postgresql';
+  ports?: {
+    backend?: number; // 4000 by default
+    frontend?: number; // 5173 by default
+  };
   auth?: {
     provider: 'jwt' | 'clerk' | 'auth0';
     userEntity?: string;
     roles?: string; // Reference to an enum
-    guards?: Record<string, string[]>;
     props?: Record<string, string | number | boolean | null>; // Additional auth properties like apiKeys, domains, etc.
   };
+  tenancy?: {
+    strategy: 'column';
+    tenantEntity: string; // The entity whose records are the tenants, such as Organization
+    entities?: string[]; // The tenant-scoped entities; every entity but the tenant and user entities if not set
+  };
   integrations?: {
     email?: {
       provider: string;
@@ -0,0 +1,107 @@
+import { DSLParsingError } from './errors';
+import { Position, Span } from './ast';
+
+export type TokenKind = 'identifier' | 'string' | 'number' | 'punctuation' | 'newline' | 'comment' | 'eof';
+
+export interface Token {
+  kind: TokenKind;
+  value: string; // Unescaped contents for strings, comment text without the leading //
+  span: Span;
+}
+
+const PUNCTUATION = new Set(['{', '}', '[', ']', '(', ')', ':', ',', '@']);
+
+/**
+ * Splits DSL source into tokens. Newlines are kept because they separate entity fields
+ * and block properties; comments are kept so tooling can preserve them.
+ * @param source - The DSL source
+ * @param filePath - The file the source came from, used in error messages
+ * @param onError - Receives each error instead of it being thrown; the offending character is
+ * skipped and an unterminated string ends at the end of its line
+ * @returns The tokens, always terminated by an `eof` token
+ */
+export function tokenize(source: string, filePath?: string, onError?: (error: DSLParsingError) => void): Token[] {
+  const tokens: Token[] = [];
+  const lines = source.split('\n');
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const position = (): Position => ({ line, column, offset });
+  const advance = (count = 1) => {
+    for (let n = 0; n < count; n++) {
+      if (source[offset] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+  const fail = (message: string, at: Position) => {
+    const error = new DSLParsingError(message, filePath, at.line, at.column, lines[at.line - 1]);
+    if (!onError) throw error;
+    onError(error);
+  };
+
+  while (offset < source.length) {
+    const ch = source[offset];
+    const start = position();
+
+    if (ch === '\n') {
+      advance();
+      tokens.push({ kind: 'newline', value: '\n', span: { start, end: position() } });
+    } else if (ch === ' ' || ch === '\t' || ch === '\r') {
+      advance();
+    } else if (ch === '/' && source[offset + 1] === '/') {
+      let end = source.indexOf('\n', offset);
+      if (end === -1) end = source.length;
+      const text = source.slice(offset + 2, end).replace(/\r$/, '');
+      advance(end - offset);
+      tokens.push({ kind: 'comment', value: text, span: { start, end: position() } });
+    } else if (ch === '"' || ch === "'") {
+      advance();
+      let value = '';
+      let terminated = false;
+      while (offset < source.length && source[offset] !== '\n') {
+        if (source[offset] === ch) {
+          terminated = true;
+          break;
+        }
+        if (source[offset] === '\\' && offset + 1 < source.length) {
+          advance();
+          const escaped = source[offset];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+        } else {
+          value += source[offset];
+        }
+        advance();
+      }
+      if (terminated) {
+        advance();
+      } else {
+        fail('Unterminated string literal', start);
+      }
+      tokens.push({ kind: 'string', value, span: { start, end: position() } });
+    } else if (PUNCTUATION.has(ch)) {
+      advance();
+      tokens.push({ kind: 'punctuation', value: ch, span: { start, end: position() } });
+    } else {
+      const word = /^-?[A-Za-z0-9_]+(?:\.[A-Za-z0-9_]+)*/.exec(source.slice(offset));
+      if (!word || (word[0].startsWith('-') && !/^-\d/.test(word[0]))) {
+        fail(`Unexpected character '${ch}'`, start);
+        advance();
+        continue;
+      }
+      const text = word[0];
+      advance(text.length);
+      const kind = /^-?\d+(\.\d+)?$/.test(text) ? 'number' : 'identifier';
+      tokens.push({ kind, value: text, span: { start, end: position() } });
+    }
+  }
+
+  const end = position();
+  tokens.push({ kind: 'eof', value: '', span: { start: end, end } });
+  return tokens;
+}
@@ -1,362 +1,1054 @@
-import { DSLParsingError } from './errors';
-import { IApp, IREntity, IRField, IRPage, IRConfig, IRWorkflow, IRView } from './ir';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Diagnostic, DiagnosticCode, DSLParsingError, toDiagnostic } from './errors';
+import { IApp, IRAccess, IREntity, IRField, IRPage, IRConfig, IRRelation, IRWorkflow, IRWorkflowStep, IRView } from './ir';
+import {
+  AccessNode,
+  ArgumentNode,
+  ArrayNode,
+  AttributeNode,
+  BlockNode,
+  CommentNode,
+  DeclarationNode,
+  DirectiveNode,
+  DocumentNode,
+  EntityNode,
+  EnumNode,
+  FieldNode,
+  IdentifierNode,
+  ImportNode,
+  ObjectNode,
+  Position,
+  PropertyNode,
+  Span,
+  TypeNode,
+  ValueNode,
+} from './ast';
+import { Token, tokenize } from './lexer';
+import { foreignKeyName, isListRelation, linkRelations } from './relations';
+import { ACCESS_OPERATIONS, AccessOperation, OWNER, ownerCandidates, ownerKey } from './access';
+import { TENANCY_STRATEGIES, isTenantScoped, tenantRelation } from './tenancy';
+import { AUDIT_LOG_MODEL, hasAuditLog } from './audit';
+import { SOFT_DELETE_FIELD } from './soft-delete';
+import { AUTH_TOKEN_MODELS, AUTH_TOKEN_TTLS, AuthTokenTtl, authUser, parseDuration } from './auth';
+import { BlockParser, BlockValue } from './plugins';
+import { resolveImport } from './imports';
 
-function cleanLine(line: string): string {
-  if (!line) return '';
-  return line.split('//')[0].trim();
-}
+/** Actions a workflow step may use; anything else is rejected by `validateIR`. */
+export const WORKFLOW_ACTIONS = ['sendEmail', 'createRecord', 'updateRecord', 'callWebhook'];
+
+/** Entity lifecycle events that can trigger a workflow, as in `user.created`. */
+export const WORKFLOW_EVENTS = ['created', 'updated', 'deleted'];
 
-function getIndent(line: string): number {
-  return line.match(/^\s*/)?.[0].length ?? 0;
+/**
+ * The name an entity goes by in its workflow events: lower camel case, as its Prisma delegate
+ * @param entity - The entity name, such as BlogPost
+ * @returns The event prefix, such as blogPost for blogPost.created
+ */
+export function workflowEventEntity(entity: string): string {
+  return entity.charAt(0).toLowerCase() + entity.slice(1);
 }
 
-function throwParsingError(
+/** Email providers the generated code can deliver through; anything else is rejected by `validateIR`. */
+export const EMAIL_PROVIDERS = ['sendgrid'];
+
+/** Top-level block keywords of the DSL; plugins can add more through `ParseOptions.blocks`. */
+export const BLOCK_KEYWORDS = ['entity', 'page', 'workflow', 'config', 'enum', 'view'];
+
+/** Entity directives that may also be written with a single '@', as in `@audited`. */
+export const ENTITY_ATTRIBUTE_DIRECTIVES = ['audited', 'softDelete'];
+
+/** Built-in field types; any other type must name an entity or enum. */
+export const FIELD_TYPES = [
+  'String', 'Text', 'Int', 'Float', 'Decimal', 'Boolean',
+  'DateTime', 'Date', 'UUID', 'JSON', 'Password'
+];
+
+function errorAtLine(
   message: string,
+  code: DiagnosticCode,
   filePath: string | undefined,
   lines: string[],
   lineIndex: number,
   charIndex = 0
-) {
+): DSLParsingError {
   const context = lines[lineIndex];
-  throw new DSLParsingError(message, filePath, lineIndex + 1, charIndex + 1, context);
+  return new DSLParsingError(message, filePath, lineIndex + 1, charIndex + 1, context, code);
+}
+
+/**
+ * The file each token starts in, so that errors found after the IR of several files has been
+ * merged still point into the right file
+ */
+const sourceFiles = new WeakMap<Position, { filePath?: string; lines: string[] }>();
+
+function errorAtSpan(message: string, code: DiagnosticCode, span: Span, filePath: string | undefined, lines: string[]): DSLParsingError {
+  const file = sourceFiles.get(span.start) ?? { filePath, lines };
+  return new DSLParsingError(message, file.filePath, span.start.line, span.start.column, file.lines[span.start.line - 1], code);
+}
+
+/**
+ * Decides what happens to an error that parsing can continue past: in recovery mode it is
+ * recorded and parsing resumes at the next field or block, otherwise it is rethrown.
+ */
+type Recover = (error: unknown) => void;
+
+const rethrow: Recover = error => {
+  throw error;
+};
+
+type Fail = (message: string, span: Span, code?: DiagnosticCode) => never;
+
+/**
+ * Source locations of IR values, keyed by the IR object and the property they were parsed from.
+ * Kept outside the IR so that it stays plain data.
+ */
+const sourceSpans = new WeakMap<object, Record<string, Span>>();
+
+function setSpan(target: object, key: string, span: Span) {
+  const spans = sourceSpans.get(target) ?? {};
+  spans[key] = span;
+  sourceSpans.set(target, spans);
 }
 
-type ParsedValue = string | number | boolean | ParsedValue[] | { [key: string]: ParsedValue };
+function spanOf(target: object | undefined, key: string): Span | undefined {
+  return target ? sourceSpans.get(target)?.[key] : undefined;
+}
+
+/**
+ * Recursive-descent parser over the token stream produced by `tokenize`
+ */
+class Parser {
+  private pos = 0;
+  private readonly tokens: Token[];
+  readonly comments: CommentNode[] = [];
 
-function parseValue(value: string): ParsedValue {
-  value = value.trim();
-  if (value.endsWith(',')) {
-    value = value.slice(0, -1);
+  constructor(
+    tokens: Token[],
+    private readonly lines: string[],
+    private readonly filePath?: string,
+    private readonly recover: Recover = rethrow,
+    private readonly keywords: string[] = BLOCK_KEYWORDS,
+  ) {
+    this.tokens = tokens.filter(token => {
+      if (token.kind === 'comment') {
+        this.comments.push({ kind: 'Comment', text: token.value, span: token.span });
+        return false;
+      }
+      return true;
+    });
   }
-  if (value.startsWith('"') && value.endsWith('"')) {
-    return value.slice(1, -1);
+
+  parseDocument(): DocumentNode {
+    const declarations: DeclarationNode[] = [];
+    this.skipNewlines();
+    while (!this.at('eof')) {
+      const start = this.pos;
+      try {
+        declarations.push(this.parseDeclaration());
+      } catch (error) {
+        this.recover(error);
+        // Resume at the next line that starts a block
+        if (this.pos === start) this.next();
+        while (!this.at('eof') && !this.atDeclarationStart()) this.next();
+      }
+      this.skipNewlines();
+    }
+    const end = this.peek().span.end;
+    return {
+      kind: 'Document',
+      declarations,
+      comments: this.comments,
+      span: { start: { line: 1, column: 1, offset: 0 }, end },
+    };
   }
-  if (value === 'true') return true;
-  if (value === 'false') return false;
-  if (value !== '' && !isNaN(Number(value))) {
-    return Number(value);
+
+  private parseDeclaration(): DeclarationNode {
+    const keyword = this.peek();
+    if (keyword.kind === 'identifier' && keyword.value === 'import') {
+      return this.parseImport(keyword);
+    }
+    if (keyword.kind !== 'identifier' || !this.keywords.includes(keyword.value)) {
+      this.fail(
+        keyword.kind === 'identifier'
+          ? `Unknown block type '${keyword.value}'. Must be one of: ${this.keywords.join(', ')}`
+          : `Unexpected ${this.describe(keyword)}. Expected a block such as 'entity Name {'`,
+        keyword.span,
+        'unknown-block',
+      );
+    }
+    this.next();
+
+    let name: IdentifierNode | undefined;
+    if (!this.nameIsOptional(keyword.value) || this.at('identifier')) {
+      name = this.expectIdentifier(`Expected a name after '${keyword.value}'`);
+    }
+
+    switch (keyword.value) {
+      case 'entity':
+        return this.parseEntity(keyword, name as IdentifierNode);
+      case 'enum':
+        return this.parseEnum(keyword, name as IdentifierNode);
+      default: {
+        const body = this.parseObject(`${keyword.value}${name ? ` '${name.name}'` : ''}`);
+        return {
+          kind: 'Block',
+          keyword: keyword.value as BlockNode['keyword'],
+          name,
+          body,
+          span: { start: keyword.span.start, end: body.span.end },
+        };
+      }
+    }
   }
-  if (value.startsWith('[') && value.endsWith(']')) {
-    try {
-      // Attempt to parse as JSON, with relaxed syntax for keys and single quotes
-      return JSON.parse(value.replace(/([{,][\s]*)(\w+)[\s]*:/g, '$1"$2":').replace(/'/g, '"'));
-    } catch {
-      // Fallback for simple arrays of strings
-      return value.slice(1, -1).split(',').map(s => parseValue(s.trim()));
+
+  private parseEntity(keyword: Token, name: IdentifierNode): EntityNode {
+    this.expectPunctuation('{', `Expected '{' after 'entity ${name.name}'`);
+    const fields: FieldNode[] = [];
+    const directives: DirectiveNode[] = [];
+    let access: AccessNode | undefined;
+    for (;;) {
+      this.skipNewlines();
+      if (this.atPunctuation('}')) break;
+      if (this.at('eof') || this.atDeclarationStart()) {
+        // Keep the fields parsed so far so that one missing brace doesn't hide the entity
+        this.recover(this.error(`Missing closing '}' for entity '${name.name}'`, keyword.span));
+        const end = fields.length > 0 ? fields[fields.length - 1].span.end : name.span.end;
+        return { kind: 'Entity', name, fields, directives, access, span: { start: keyword.span.start, end } };
+      }
+      try {
+        const member = this.atPunctuation('@')
+          ? this.parseDirective(name.name)
+          : this.atAccessSection() ? this.parseAccess(name.name) : this.parseField(name.name);
+        if (!this.at('newline') && !this.atPunctuation('}') && !this.at('eof')) {
+          const described = member.kind === 'Directive'
+            ? `directive '@@${member.name.name}'`
+            : member.kind === 'Access' ? 'the access section' : `field '${member.name.name}'`;
+          this.fail(`Unexpected ${this.describe(this.peek())} after ${described}`, this.peek().span);
+        }
+        if (member.kind === 'Directive') {
+          directives.push(member);
+        } else if (member.kind === 'Access') {
+          if (access) {
+            this.fail(`Duplicate access section in entity '${name.name}'`, member.span, 'invalid-access');
+          }
+          access = member;
+        } else {
+          fields.push(member);
+        }
+      } catch (error) {
+        this.recover(error);
+        while (!this.at('newline') && !this.at('eof') && !this.atPunctuation('}')) this.next();
+      }
     }
+    const close = this.next();
+    return { kind: 'Entity', name, fields, directives, access, span: { start: keyword.span.start, end: close.span.end } };
   }
-  return value;
-}
 
-function parseBlock(lines: string[], startIndex: number, filePath?: string): [Record<string, unknown>, number] {
-  const block: Record<string, unknown> = {};
-  let i = startIndex;
-  const baseIndent = getIndent(lines[i - 1]);
+  // `access {` or `access: {`; a field named access has a type instead
+  private atAccessSection(): boolean {
+    const token = this.peek();
+    if (token.kind !== 'identifier' || token.value !== 'access') return false;
+    const isPunctuation = (candidate: Token, value: string) => candidate.kind === 'punctuation' && candidate.value === value;
+    return isPunctuation(this.peek(1), '{') || (isPunctuation(this.peek(1), ':') && isPunctuation(this.peek(2), '{'));
+  }
+
+  private parseAccess(entityName: string): AccessNode {
+    const keyword = this.next();
+    if (this.atPunctuation(':')) this.next();
+    const body = this.parseObject(`the access section of entity '${entityName}'`);
+    return { kind: 'Access', body, span: { start: keyword.span.start, end: body.span.end } };
+  }
+
+  private parseDirective(entityName: string): DirectiveNode {
+    const first = this.next();
+    const second = this.peek();
+    const adjacent = second.span.start.offset === first.span.end.offset;
+    if (this.atPunctuation('@') && adjacent) {
+      this.next();
+    } else if (!(second.kind === 'identifier' && ENTITY_ATTRIBUTE_DIRECTIVES.includes(second.value) && adjacent)) {
+      this.fail(`Unexpected '@' in entity '${entityName}'. Entity directives start with '@@'`, first.span);
+    }
+    const name = this.expectIdentifier(`Expected a directive name after '@@' in entity '${entityName}'`);
+    const directive: DirectiveNode = { kind: 'Directive', name, span: { start: first.span.start, end: name.span.end } };
+    if (this.atPunctuation('(')) {
+      const [args, , end] = this.parseArguments();
+      directive.args = args;
+      directive.span = { start: first.span.start, end };
+    }
+    return directive;
+  }
+
+  private parseField(entityName: string): FieldNode {
+    const nameToken = this.peek();
+    if (nameToken.kind !== 'identifier' && nameToken.kind !== 'number') {
+      this.fail(`Unexpected ${this.describe(nameToken)} in entity '${entityName}'. Expected a field name`, nameToken.span);
+    }
+    this.next();
+    const name: IdentifierNode = { kind: 'Identifier', name: nameToken.value, span: nameToken.span };
+    if (!name.name.match(/^[a-zA-Z_][a-zA-Z0-9_]*$/)) {
+      this.fail(`Invalid field name: "${name.name}". Field names must start with a letter or underscore and contain only letters, numbers, and underscores.`, name.span, 'invalid-field-name');
+    }
+    if (this.atPunctuation(':')) this.next();
+
+    const typeToken = this.peek();
+    if (typeToken.kind === 'newline' || typeToken.kind === 'eof' || this.atPunctuation('}')) {
+      this.fail(`Field type is required for field '${name.name}' in entity '${entityName}'`, name.span, 'missing-field-type');
+    }
+    if (typeToken.kind !== 'identifier') {
+      this.fail(`Invalid field type: '${typeToken.value}'. Must be one of: ${FIELD_TYPES.join(', ')} or a valid entity reference.`, typeToken.span, 'invalid-field-type');
+    }
+    this.next();
+    const type: TypeNode = {
+      kind: 'Type',
+      name: { kind: 'Identifier', name: typeToken.value, span: typeToken.span },
+      isList: false,
+      span: typeToken.span,
+    };
+    if (this.atPunctuation('[')) {
+      this.next();
+      const close = this.expectPunctuation(']', `Expected ']' after '${typeToken.value}['`);
+      type.isList = true;
+      type.span = { start: typeToken.span.start, end: close.span.end };
+    }
+
+    const attributes: AttributeNode[] = [];
+    while (!this.at('newline') && !this.at('eof') && !this.atPunctuation('}')) {
+      attributes.push(this.parseAttribute(name.name));
+    }
+    const end = attributes.length > 0 ? attributes[attributes.length - 1].span.end : type.span.end;
+    return { kind: 'Field', name, type, attributes, span: { start: name.span.start, end } };
+  }
+
+  private parseAttribute(fieldName: string): AttributeNode {
+    const start = this.peek().span.start;
+    const decorator = this.atPunctuation('@');
+    if (decorator) this.next();
+    const name = this.expectIdentifier(`Unexpected ${this.describe(this.peek())} in field '${fieldName}'. Expected an attribute`);
+    const attribute: AttributeNode = { kind: 'Attribute', name, decorator, span: { start, end: name.span.end } };
+    if (this.atPunctuation('(')) {
+      const [args, argsSpan, end] = this.parseArguments();
+      attribute.args = args;
+      attribute.argsSpan = argsSpan;
+      attribute.span = { start, end };
+    }
+    return attribute;
+  }
 
-  if (cleanLine(lines[i-1]).endsWith('{}')) {
-    return [block, i - 1];
+  private parseArguments(): [ArgumentNode[], Span, Span['end']] {
+    const open = this.next();
+    const args: ArgumentNode[] = [];
+    for (;;) {
+      this.skipSeparators();
+      if (this.atPunctuation(')')) break;
+      if (this.at('eof')) {
+        this.fail(`Missing closing ')'`, open.span);
+      }
+      let argName: IdentifierNode | undefined;
+      if (this.at('identifier') && this.peek(1).kind === 'punctuation' && this.peek(1).value === ':') {
+        argName = this.expectIdentifier('Expected an argument name');
+        this.next();
+      }
+      const value = this.parseValue();
+      args.push({ kind: 'Argument', name: argName, value, span: { start: (argName ?? value).span.start, end: value.span.end } });
+    }
+    const close = this.next();
+    return [args, { start: open.span.end, end: close.span.start }, close.span.end];
   }
 
-  while (i < lines.length) {
-    const line = lines[i];
-    const indent = getIndent(line);
+  private parseImport(keyword: Token): ImportNode {
+    this.next();
+    const token = this.peek();
+    if (token.kind !== 'string') {
+      this.fail(`Expected a file path in quotes after 'import', such as import "./billing.dsl"`, token.span);
+    }
+    this.next();
+    return {
+      kind: 'Import',
+      path: { kind: 'String', value: token.value, span: token.span },
+      span: { start: keyword.span.start, end: token.span.end },
+    };
+  }
 
-    if (indent <= baseIndent) {
-      if (cleanLine(line) === '}') {
-        return [block, i];
+  private parseEnum(keyword: Token, name: IdentifierNode): EnumNode {
+    this.expectPunctuation('{', `Expected '{' after 'enum ${name.name}'`);
+    const values: IdentifierNode[] = [];
+    for (;;) {
+      this.skipSeparators();
+      if (this.atPunctuation('}')) break;
+      if (this.at('eof')) {
+        this.fail(`Missing closing '}' for enum '${name.name}'`, keyword.span);
       }
-      return [block, i - 1];
+      values.push(this.expectIdentifier(`Unexpected ${this.describe(this.peek())} in enum '${name.name}'. Expected a value name`));
     }
+    const close = this.next();
+    return { kind: 'Enum', name, values, span: { start: keyword.span.start, end: close.span.end } };
+  }
 
-    const cleaned = cleanLine(line);
-    if (!cleaned) {
-      i++;
-      continue;
+  private parseObject(owner: string): ObjectNode {
+    const open = this.expectPunctuation('{', `Expected '{' to start ${owner}`);
+    const properties: PropertyNode[] = [];
+    for (;;) {
+      this.skipSeparators();
+      if (this.atPunctuation('}')) break;
+      if (this.at('eof')) {
+        this.fail(`Missing closing '}' for ${owner}`, open.span);
+      }
+      const keyToken = this.peek();
+      if (keyToken.kind !== 'identifier' && keyToken.kind !== 'string') {
+        this.fail(`Unexpected ${this.describe(keyToken)} in ${owner}. Expected a property name`, keyToken.span);
+      }
+      this.next();
+      const key: IdentifierNode = { kind: 'Identifier', name: keyToken.value, span: keyToken.span };
+      let value: ValueNode;
+      if (this.atPunctuation(':')) {
+        this.next();
+        value = this.parseValue();
+      } else if (this.atPunctuation('{')) {
+        value = this.parseObject(`'${key.name}'`);
+      } else {
+        this.fail(`Expected ':' after '${key.name}'`, this.peek().span);
+      }
+      properties.push({ kind: 'Property', key, value, span: { start: key.span.start, end: value.span.end } });
     }
+    const close = this.next();
+    return { kind: 'Object', properties, span: { start: open.span.start, end: close.span.end } };
+  }
 
-    const parts = cleaned.split(':');
-    const key = parts[0].trim();
-    const value = parts.slice(1).join(':').trim();
-
-    if (value.endsWith('{')) {
-      const [nestedBlock, endIndex] = parseBlock(lines, i + 1, filePath);
-      block[key] = nestedBlock;
-      i = endIndex;
-    } else if (value.startsWith('[')) {
-        let fullArray = value;
-        let j = i;
-        // Handle multi-line arrays
-        while(!fullArray.trim().endsWith(']') && j < lines.length - 1) {
-            j++;
-            fullArray += ' ' + lines[j].trim();
+  private parseArray(): ArrayNode {
+    const open = this.next();
+    const elements: ValueNode[] = [];
+    for (;;) {
+      this.skipSeparators();
+      if (this.atPunctuation(']')) break;
+      if (this.at('eof')) {
+        this.fail(`Missing closing ']'`, open.span);
+      }
+      elements.push(this.parseValue());
+    }
+    const close = this.next();
+    return { kind: 'Array', elements, span: { start: open.span.start, end: close.span.end } };
+  }
+
+  private parseValue(): ValueNode {
+    const token = this.peek();
+    switch (token.kind) {
+      case 'string':
+        this.next();
+        return { kind: 'String', value: token.value, span: token.span };
+      case 'number':
+        this.next();
+        return { kind: 'Number', value: Number(token.value), span: token.span };
+      case 'identifier': {
+        this.next();
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'Boolean', value: token.value === 'true', span: token.span };
         }
-        i = j;
-        
-        if (fullArray.includes('{')) {
-          // It's an array of objects, requires special parsing
-          const arrayContent = fullArray.slice(fullArray.indexOf('[') + 1, fullArray.lastIndexOf(']')).trim();
-          const objects = [];
-          const objectRegex = /{\s*([^}]+)\s*}/g;
-          let match;
-          while ((match = objectRegex.exec(arrayContent)) !== null) {
-            const objectContent = match[1];
-            const obj: Record<string, unknown> = {};
-            const pairRegex = /(\w+)\s*:\s*([^,]+)/g;
-            let pairMatch;
-            while ((pairMatch = pairRegex.exec(objectContent)) !== null) {
-              const k = pairMatch[1].trim();
-              const v = pairMatch[2].trim();
-              obj[k] = parseValue(v);
-            }
-            objects.push(obj);
-          }
-          block[key] = objects;
-        } else {
-          // It's a simple array
-          block[key] = parseValue(fullArray);
+        const callee: IdentifierNode = { kind: 'Identifier', name: token.value, span: token.span };
+        if (this.atPunctuation('(')) {
+          const [args, , end] = this.parseArguments();
+          return { kind: 'Call', callee, args, span: { start: token.span.start, end } };
         }
-    } else {
-      block[key] = parseValue(value);
+        return callee;
+      }
+      case 'punctuation':
+        if (token.value === '[') return this.parseArray();
+        if (token.value === '{') return this.parseObject('object');
+        break;
     }
-    i++;
+    return this.fail(`Unexpected ${this.describe(token)}. Expected a value`, token.span);
   }
-  return [block, i];
-}
 
-function validateFieldName(name: string, entityName: string, lines: string[], lineIndex: number, filePath?: string) {
-  if (!name || name.trim() === '') {
-    throwParsingError('Field name cannot be empty', filePath, lines, lineIndex);
+  // Only config blocks and blocks added by plugins may omit their name
+  private nameIsOptional(keyword: string): boolean {
+    return keyword === 'config' || !BLOCK_KEYWORDS.includes(keyword);
   }
-  if (!name.match(/^[a-zA-Z_][a-zA-Z0-9_]*$/)) {
-    throwParsingError(`Invalid field name: "${name}". Field names must start with a letter or underscore and contain only letters, numbers, and underscores.`, filePath, lines, lineIndex);
+
+  // A block keyword at the start of a line followed by `Name {` (or just `{` for config), or an import
+  private atDeclarationStart(): boolean {
+    const token = this.peek();
+    const previous = this.tokens[this.pos - 1];
+    if (previous && previous.kind !== 'newline') return false;
+    if (token.kind === 'identifier' && token.value === 'import') return this.peek(1).kind === 'string';
+    if (token.kind !== 'identifier' || !this.keywords.includes(token.value)) return false;
+    const isOpenBrace = (candidate: Token) => candidate.kind === 'punctuation' && candidate.value === '{';
+    if (isOpenBrace(this.peek(1))) return this.nameIsOptional(token.value);
+    return this.peek(1).kind === 'identifier' && isOpenBrace(this.peek(2));
   }
-}
 
-function validateFieldType(type: string, entityName: string, lines: string[], lineIndex: number, filePath?: string) {
-  const validTypes = [
-    'String', 'Text', 'Int', 'Float', 'Decimal', 'Boolean', 
-    'DateTime', 'Date', 'UUID', 'JSON', 'Password'
-  ];
-  const baseType = type.replace('[]', ''); // Remove array notation
-  
-  if (!validTypes.includes(baseType) && !baseType.match(/^[A-Z][a-zA-Z0-9]*$/)) {
-    throwParsingError(`Invalid field type: '${type}'. Must be one of: ${validTypes.join(', ')} or a valid entity reference.`, filePath, lines, lineIndex);
+  private peek(ahead = 0): Token {
+    return this.tokens[Math.min(this.pos + ahead, this.tokens.length - 1)];
   }
-}
 
-function parseEntity(lines: string[], startIndex: number, name: string, filePath?: string): [IREntity, number] {
-  const entity: IREntity = { name, fields: [], relations: [] };
-  let i = startIndex;
-  const baseIndent = getIndent(lines[i - 1]);
+  private next(): Token {
+    const token = this.peek();
+    if (token.kind !== 'eof') this.pos++;
+    return token;
+  }
 
-  if (cleanLine(lines[i-1]).endsWith('{}')) {
-    entity.fields.unshift({ name: 'id', type: 'UUID', primaryKey: true });
-    return [entity, i - 1];
+  private at(kind: Token['kind']): boolean {
+    return this.peek().kind === kind;
   }
 
-  while (i < lines.length) {
-    const line = lines[i];
-    const indent = getIndent(line);
+  private atPunctuation(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'punctuation' && token.value === value;
+  }
 
-    if (indent <= baseIndent) {
-      if (cleanLine(line) === '}') {
-        i++;
-      }
-      break;
+  private skipNewlines() {
+    while (this.at('newline')) this.next();
+  }
+
+  private skipSeparators() {
+    while (this.at('newline') || this.atPunctuation(',')) this.next();
+  }
+
+  private expectIdentifier(message: string): IdentifierNode {
+    const token = this.peek();
+    if (token.kind !== 'identifier') {
+      this.fail(message, token.span);
     }
+    this.next();
+    return { kind: 'Identifier', name: token.value, span: token.span };
+  }
 
-    const cleaned = cleanLine(line);
-    if (!cleaned) {
-      i++;
-      continue;
+  private expectPunctuation(value: string, message: string): Token {
+    if (!this.atPunctuation(value)) {
+      this.fail(message, this.peek().span);
     }
+    return this.next();
+  }
 
-    const parts = cleaned.split(/\s+/);
-    const fieldName = parts[0].replace(':', '');
-    
-    validateFieldName(fieldName, name, lines, i, filePath);
-    
-    if (entity.fields.find(f => f.name === fieldName)) {
-      throwParsingError(`Duplicate field name '${fieldName}' in entity '${name}'`, filePath, lines, i);
+  private describe(token: Token): string {
+    switch (token.kind) {
+      case 'eof':
+        return 'end of file';
+      case 'newline':
+        return 'end of line';
+      case 'string':
+        return `string "${token.value}"`;
+      default:
+        return `'${token.value}'`;
     }
-    
-    if (!parts[1]) {
-      throwParsingError(`Field type is required for field '${fieldName}' in entity '${name}'`, filePath, lines, i);
+  }
+
+  private error(message: string, span: Span, code: DiagnosticCode = 'syntax-error'): DSLParsingError {
+    return errorAtSpan(message, code, span, this.filePath, this.lines);
+  }
+
+  private fail(message: string, span: Span, code?: DiagnosticCode): never {
+    throw this.error(message, span, code);
+  }
+}
+
+/**
+ * Parses DSL source into a syntax tree without building or validating the IR
+ * @param dsl - The DSL source
+ * @param filePath - The file the source came from, used in error messages
+ * @param keywords - Block keywords added by plugins
+ * @param onError - Receives each syntax error instead of it being thrown; parsing resumes at the
+ * next declaration, and a declaration missing its closing brace keeps what was parsed of it
+ * @returns The document node
+ */
+export function parseAST(dsl: string, filePath?: string, keywords: string[] = [], onError?: (error: DSLParsingError) => void): DocumentNode {
+  const recover: Recover = onError
+    ? error => {
+        if (!(error instanceof DSLParsingError)) throw error;
+        onError(error);
+      }
+    : rethrow;
+  return parseDocument(dsl, filePath, recover, keywords);
+}
+
+function parseDocument(dsl: string, filePath: string | undefined, recover: Recover, keywords: string[] = []): DocumentNode {
+  const lines = dsl.split('\n');
+  const tokens = tokenize(dsl, filePath, recover);
+  for (const token of tokens) {
+    sourceFiles.set(token.span.start, { filePath, lines });
+  }
+  return new Parser(tokens, lines, filePath, recover, [...BLOCK_KEYWORDS, ...keywords]).parseDocument();
+}
+
+type ParsedValue = BlockValue;
+
+/**
+ * Converts a value node into plain data. Identifiers become strings, and call-like
+ * values such as env(API_KEY) keep their source text.
+ */
+function toValue(node: ValueNode, source: string): ParsedValue {
+  switch (node.kind) {
+    case 'String':
+    case 'Number':
+    case 'Boolean':
+      return node.value;
+    case 'Identifier':
+      return node.name;
+    case 'Call':
+      return source.slice(node.span.start.offset, node.span.end.offset);
+    case 'Array':
+      return node.elements.map(element => toValue(element, source));
+    case 'Object': {
+      const result: { [key: string]: ParsedValue } = {};
+      for (const property of node.properties) {
+        result[property.key.name] = toValue(property.value, source);
+        setSpan(result, property.key.name, property.value.span);
+      }
+      return result;
     }
-    
-    const fieldType = parts[1];
-    
-    if (!cleaned.includes('@relation')) {
-        validateFieldType(fieldType, name, lines, i, filePath);
+  }
+}
+
+interface ParsedFile {
+  document: DocumentNode;
+  source: string;
+  lines: string[];
+  filePath?: string;
+}
+
+/**
+ * Builds the application IR from the parsed documents of one or more files
+ */
+function buildIR(files: ParsedFile[], recover: Recover, blocks: Record<string, BlockParser> = {}): IApp {
+  const app: IApp = { name: 'App', entities: [], views: [], pages: [], workflows: [], config: { enums: {} } };
+  let source = '';
+  let filePath: string | undefined;
+  const fail: Fail = (message, span, code = 'syntax-error') => {
+    throw errorAtSpan(message, code, span, undefined, []);
+  };
+  // Entities, enums and views share one namespace across all files, as field types refer to any of them
+  const declared = new Map<string, { kind: string; filePath?: string }>();
+  const declare = (kind: string, name: IdentifierNode) => {
+    const previous = declared.get(name.name);
+    if (previous) {
+      const where = previous.filePath !== filePath && previous.filePath ? ` in ${previous.filePath}` : '';
+      fail(`'${name.name}' is already declared as ${previous.kind}${where}`, name.span, 'duplicate-declaration');
     }
+    declared.set(name.name, { kind, filePath });
+  };
 
-    if (cleaned.includes('@relation')) {
-      // Parse relation directive
-      const relationMatch = cleaned.match(/@relation\(name:\s*"([^"]+)"\)/);
-      let relationName: string | undefined;
-      
-      if (relationMatch) {
-        relationName = relationMatch[1];
+  for (const file of files) {
+    source = file.source;
+    filePath = file.filePath;
+    for (const declaration of file.document.declarations) {
+      try {
+        buildDeclaration(declaration);
+      } catch (error) {
+        recover(error);
       }
+    }
+  }
 
-      // Add the relation to the entity
-      entity.relations?.push({
-        field: fieldName,
-        type: fieldType.endsWith('[]') ? 'one-to-many' : 'many-to-one',
-        target: fieldType.replace('[]', ''),
-        relationName
-      });
-    } else {
-      // Regular field
-      const field: IRField = { name: fieldName, type: fieldType };
-      
-      // Parse attributes
-      if (parts.includes('primaryKey')) field.primaryKey = true;
-      if (parts.includes('unique')) field.unique = true;
-      if (parts.includes('optional')) field.optional = true;
-      if (parts.includes('readonly')) field.readonly = true;
-      
-      // Handle special field types
-      if (fieldType === 'Password') {
-        field.isPassword = true;
-        field.type = 'String'; // Internally represented as String
-      } else if (fieldType === 'Text') {
-        field.type = 'String';
-        field.isLongText = true;
-      } else if (fieldType === 'Decimal') {
-        field.type = 'Decimal';
-        field.isDecimal = true;
-      } else if (fieldType === 'JSON') {
-        field.type = 'Json';
-      } else if (fieldType === 'Date') {
-        field.type = 'DateTime';
-        field.isDateOnly = true;
-      }
-      
-      const defaultMatch = cleaned.match(/default\((.*?)\)/);
-      if (defaultMatch) {
-        try {
-          const parsedValue = parseValue(defaultMatch[1]);
-          if (typeof parsedValue === 'string' || typeof parsedValue === 'number' || typeof parsedValue === 'boolean') {
-            field.default = parsedValue;
-          } else {
-            throwParsingError(`Default value for field '${fieldName}' must be a string, number, or boolean`, filePath, lines, i);
+  // Fields typed as another entity are relations even without @relation
+  const entityNames = new Set(app.entities.map(e => e.name));
+  for (const entity of app.entities) {
+    entity.fields = entity.fields.filter(field => {
+      const target = field.type.replace(/\[\]$/, '');
+      if (!entityNames.has(target)) return true;
+      const relation: IRRelation = {
+        field: field.name,
+        type: field.type.endsWith('[]') ? 'one-to-many' : 'many-to-one',
+        target,
+        optional: field.optional,
+      };
+      setSpan(relation, 'target', spanOf(field, 'type') as Span);
+      entity.relations?.push(relation);
+      return false;
+    });
+  }
+  linkRelations(app.entities);
+  return app;
+
+  function buildDeclaration(declaration: DeclarationNode) {
+    switch (declaration.kind) {
+      case 'Import':
+        break;
+      case 'Entity':
+        declare('an entity', declaration.name);
+        app.entities.push(buildEntity(declaration, source, fail, recover));
+        break;
+      case 'Enum':
+        declare('an enum', declaration.name);
+        if (app.config?.enums) {
+          app.config.enums[declaration.name.name] = declaration.values.map(value => value.name);
+        }
+        break;
+      case 'Block': {
+        const name = declaration.name?.name ?? '';
+        const nameSpan = declaration.name?.span ?? declaration.span;
+        const block = toValue(declaration.body, source) as Record<string, ParsedValue>;
+        switch (declaration.keyword) {
+          case 'page':
+            app.pages.push(buildPage(name, nameSpan, declaration.body, block, fail));
+            break;
+          case 'workflow':
+            app.workflows?.push(buildWorkflow(name, nameSpan, block, fail));
+            break;
+          case 'view':
+            if (declaration.name) declare('a view', declaration.name);
+            app.views?.push(buildView(name, nameSpan, declaration.body, block, fail));
+            break;
+          case 'config':
+            if (app.config) {
+              applyConfig(app.config, declaration.name?.name, block);
+            }
+            break;
+          default: {
+            const parser = blocks[declaration.keyword];
+            const result = parser({
+              keyword: declaration.keyword,
+              name: declaration.name?.name,
+              body: block,
+              fail: (message, key) => fail(message, (key && spanOf(block, key)) || nameSpan, 'invalid-block'),
+            }, app);
+            if (result !== undefined) {
+              app.extensions ??= {};
+              (app.extensions[declaration.keyword] ??= []).push(result);
+            }
           }
-        } catch {
-          throwParsingError(`Invalid default value for field '${fieldName}' in entity '${name}'`, filePath, lines, i);
         }
+        break;
       }
-      const validateMatch = cleaned.match(/validate\((.*?)\)/);
-      if (validateMatch) {
-        field.validate = validateMatch[1];
-        
-        // Parse common validations
-        const minMatch = field.validate.match(/min:\s*(\d+)/);
-        const maxMatch = field.validate.match(/max:\s*(\d+)/);
-        const patternMatch = field.validate.match(/pattern:\s*"([^"]*)"/);
-        
-        if (minMatch) field.min = parseInt(minMatch[1], 10);
-        if (maxMatch) field.max = parseInt(maxMatch[1], 10);
-        if (patternMatch) field.pattern = patternMatch[1];
-      }
+    }
+  }
+}
 
-      const virtualMatch = cleaned.match(/@virtual\(from:\s*"([^"]+)"\)/);
-      if (virtualMatch) {
-        field.isVirtual = true;
-        field.virtualFrom = virtualMatch[1];
-      }
+function buildEntity(node: EntityNode, source: string, fail: Fail, recover: Recover): IREntity {
+  const entity: IREntity = { name: node.name.name, fields: [], relations: [] };
+  const seen = new Set<string>();
 
-      entity.fields.push(field);
+  for (const fieldNode of node.fields) {
+    try {
+      buildField(fieldNode);
+    } catch (error) {
+      recover(error);
+    }
+  }
+
+  for (const directive of node.directives) {
+    try {
+      buildDirective(directive);
+    } catch (error) {
+      recover(error);
+    }
+  }
+
+  if (node.access) {
+    try {
+      buildAccess(node.access);
+    } catch (error) {
+      recover(error);
     }
-    i++;
   }
-  
-  // Validate entity has primary key
-  const hasPrimaryKey = entity.fields.some(field => field.primaryKey);
-  if (!hasPrimaryKey) {
-    // Add default UUID primary key if none specified
+
+  // Add default UUID primary key if none specified
+  if (!entity.fields.some(field => field.primaryKey)) {
     entity.fields.unshift({
       name: 'id',
       type: 'UUID',
       primaryKey: true
     });
   }
-  
-  return [entity, i - 1];
-}
 
-function parseView(lines: string[], startIndex: number, name: string, filePath?: string): [IRView, number] {
-  const block: Record<string, unknown> = {};
-  let i = startIndex;
-  const baseIndent = getIndent(lines[i - 1]);
+  return entity;
 
-  while (i < lines.length) {
-    const line = lines[i];
-    const indent = getIndent(line);
+  function buildAccess(node: AccessNode) {
+    const access: IRAccess = {};
+    entity.access = access;
+    setSpan(entity, 'access', node.span);
+    for (const property of node.body.properties) {
+      const key = property.key.name;
+      const value = property.value;
+      if (key === 'owner') {
+        if (value.kind !== 'Identifier') {
+          fail(`'owner' in the access section of entity '${entity.name}' must name a relation, such as owner: author`, value.span, 'invalid-access');
+        }
+        access.owner = value.name;
+        setSpan(access, 'owner', value.span);
+      } else if ((ACCESS_OPERATIONS as readonly string[]).includes(key)) {
+        // A single role may be written without brackets
+        const elements = value.kind === 'Array' ? value.elements : [value];
+        if (elements.some(element => element.kind !== 'Identifier')) {
+          fail(`'${key}' in the access section of entity '${entity.name}' must list roles, such as ${key}: [ADMIN, owner]`, value.span, 'invalid-access');
+        }
+        const roles = elements.map(element => (element as IdentifierNode).name);
+        roles.forEach((role, index) => setSpan(roles, role, elements[index].span));
+        access[key as AccessOperation] = roles;
+      } else {
+        fail(`Unknown property '${key}' in the access section of entity '${entity.name}'. Must be one of: ${[...ACCESS_OPERATIONS, 'owner'].join(', ')}`, property.key.span, 'invalid-access');
+      }
+    }
+  }
 
-    if (indent <= baseIndent) {
-      if (cleanLine(line) === '}') {
-        i++;
+  function buildDirective(directive: DirectiveNode) {
+    const directiveName = directive.name.name;
+    const value = directive.args?.[0]?.value;
+    switch (directiveName) {
+      case 'unique':
+      case 'index': {
+        if (!value || value.kind !== 'Array' || value.elements.length === 0 || value.elements.some(e => e.kind !== 'Identifier')) {
+          fail(`@@${directiveName} on entity '${entity.name}' requires a list of fields such as @@${directiveName}([a, b])`, (value ?? directive).span, 'invalid-attribute');
+        }
+        const fields = (value as ArrayNode).elements.map(e => (e as IdentifierNode).name);
+        fields.forEach((field, index) => setSpan(fields, field, (value as ArrayNode).elements[index].span));
+        if (directiveName === 'unique') {
+          entity.uniques = [...(entity.uniques ?? []), fields];
+        } else {
+          entity.indexes = [...(entity.indexes ?? []), fields];
+        }
+        break;
       }
-      break;
+      case 'map':
+        if (!value || value.kind !== 'String') {
+          fail(`@@map on entity '${entity.name}' requires a table name such as @@map("users")`, (value ?? directive).span, 'invalid-attribute');
+        }
+        entity.dbName = (value as { value: string }).value;
+        break;
+      case 'audited':
+        if (directive.args) {
+          fail(`@@audited on entity '${entity.name}' takes no arguments`, directive.span, 'invalid-attribute');
+        }
+        entity.audited = true;
+        break;
+      case 'softDelete':
+        if (directive.args) {
+          fail(`@@softDelete on entity '${entity.name}' takes no arguments`, directive.span, 'invalid-attribute');
+        }
+        if (entity.fields.some(field => field.name === SOFT_DELETE_FIELD)) {
+          fail(`Field '${SOFT_DELETE_FIELD}' of entity '${entity.name}' is taken by @@softDelete, which adds it`, directive.span, 'invalid-attribute');
+        }
+        entity.softDelete = true;
+        break;
+      default:
+        fail(`Unknown directive '@@${directiveName}' on entity '${entity.name}'`, directive.name.span, 'unknown-attribute');
     }
+  }
 
-    const cleaned = cleanLine(line);
-    if (!cleaned) {
-      i++;
-      continue;
+  function buildField(fieldNode: FieldNode) {
+    const fieldName = fieldNode.name.name;
+    if (seen.has(fieldName)) {
+      fail(`Duplicate field name '${fieldName}' in entity '${entity.name}'`, fieldNode.name.span, 'duplicate-field');
     }
+    seen.add(fieldName);
+
+    const typeName = fieldNode.type.name.name;
+    const fieldType = fieldNode.type.isList ? `${typeName}[]` : typeName;
+    const relationAttribute = fieldNode.attributes.find(a => a.decorator && a.name.name === 'relation');
 
-    const parts = cleaned.split(':');
-    const key = parts[0].trim();
-    const value = parts.slice(1).join(':').trim();
-
-    if (key === 'fields') {
-      let fullArray = value;
-      let j = i;
-      while (!fullArray.trim().endsWith(']') && j < lines.length - 1) {
-        j++;
-        fullArray += ' ' + lines[j].trim();
-      }
-      i = j;
-
-      const arrayContent = fullArray.slice(fullArray.indexOf('[') + 1, fullArray.lastIndexOf(']')).trim();
-      const objects = [];
-      const objectRegex = /{\s*([^}]+)\s*}/g;
-      let match;
-      while ((match = objectRegex.exec(arrayContent)) !== null) {
-        const objectContent = match[1];
-        const obj: Record<string, unknown> = {};
-        const pairRegex = /(\w+)\s*:\s*([^,]+)/g;
-        let pairMatch;
-        while ((pairMatch = pairRegex.exec(objectContent)) !== null) {
-          const k = pairMatch[1].trim();
-          const v = pairMatch[2].trim();
-          obj[k] = parseValue(v);
+    if (relationAttribute) {
+      const nameArgument = relationAttribute.args?.find(a => !a.name || a.name.name === 'name');
+      const relation = {
+        field: fieldName,
+        type: fieldNode.type.isList ? 'one-to-many' as const : 'many-to-one' as const,
+        target: typeName,
+        relationName: nameArgument ? String(toValue(nameArgument.value, source)) : undefined,
+        optional: fieldNode.attributes.some(a => !a.decorator && a.name.name === 'optional') || undefined,
+      };
+      setSpan(relation, 'target', fieldNode.type.span);
+      entity.relations?.push(relation);
+      return;
+    }
+
+    if (!FIELD_TYPES.includes(typeName) && !typeName.match(/^[A-Z][a-zA-Z0-9]*$/)) {
+      fail(`Invalid field type: '${fieldType}'. Must be one of: ${FIELD_TYPES.join(', ')} or a valid entity reference.`, fieldNode.type.span, 'invalid-field-type');
+    }
+
+    const field: IRField = { name: fieldName, type: fieldType };
+    setSpan(field, 'type', fieldNode.type.span);
+
+    // Handle special field types
+    if (fieldType === 'Password') {
+      field.isPassword = true;
+      field.type = 'String'; // Internally represented as String
+    } else if (fieldType === 'Text') {
+      field.type = 'String';
+      field.isLongText = true;
+    } else if (fieldType === 'Decimal') {
+      field.type = 'Decimal';
+      field.isDecimal = true;
+    } else if (fieldType === 'JSON') {
+      field.type = 'Json';
+    } else if (fieldType === 'Date') {
+      field.type = 'DateTime';
+      field.isDateOnly = true;
+    }
+
+    for (const attribute of fieldNode.attributes) {
+      const attributeName = `${attribute.decorator ? '@' : ''}${attribute.name.name}`;
+      switch (attributeName) {
+        case 'primaryKey':
+          field.primaryKey = true;
+          break;
+        case 'unique':
+          field.unique = true;
+          break;
+        case 'optional':
+          field.optional = true;
+          break;
+        case 'readonly':
+          field.readonly = true;
+          break;
+        case 'default': {
+          const value = attribute.args?.[0]?.value;
+          if (!value || !['String', 'Number', 'Boolean', 'Identifier'].includes(value.kind)) {
+            fail(`Default value for field '${fieldName}' must be a string, number, or boolean`, (value ?? attribute).span, 'invalid-attribute');
+          }
+          field.default = toValue(value as ValueNode, source) as string | number | boolean;
+          setSpan(field, 'default', (value as ValueNode).span);
+          break;
         }
-        objects.push(obj);
+        case 'validate': {
+          if (attribute.argsSpan) {
+            field.validate = source.slice(attribute.argsSpan.start.offset, attribute.argsSpan.end.offset).trim();
+          }
+          for (const argument of attribute.args ?? []) {
+            const value = toValue(argument.value, source);
+            if (argument.name?.name === 'min' && typeof value === 'number') field.min = value;
+            if (argument.name?.name === 'max' && typeof value === 'number') field.max = value;
+            if (argument.name?.name === 'pattern' && typeof value === 'string') field.pattern = value;
+          }
+          break;
+        }
+        case '@map': {
+          const value = attribute.args?.[0]?.value;
+          if (!value || value.kind !== 'String') {
+            fail(`@map on field '${fieldName}' requires a column name such as @map("first_name")`, (value ?? attribute).span, 'invalid-attribute');
+          }
+          field.dbName = (value as { value: string }).value;
+          break;
+        }
+        case '@virtual': {
+          const from = attribute.args?.find(a => !a.name || a.name.name === 'from');
+          if (!from || from.value.kind !== 'String') {
+            fail(`@virtual on field '${fieldName}' requires a 'from' string such as "file.ts#resolver"`, attribute.span, 'invalid-attribute');
+          }
+          field.isVirtual = true;
+          field.virtualFrom = (from.value as { value: string }).value;
+          break;
+        }
+        default:
+          fail(`Unknown attribute '${attributeName}' on field '${fieldName}' in entity '${entity.name}'`, attribute.name.span, 'unknown-attribute');
       }
-      block[key] = objects;
-    } else {
-      block[key] = parseValue(value);
     }
-    i++;
+
+    entity.fields.push(field);
   }
+}
 
+function buildPage(
+  name: string,
+  nameSpan: Span,
+  body: ObjectNode,
+  block: Record<string, ParsedValue>,
+  fail: Fail,
+): IRPage {
+  const page: IRPage = {
+    name,
+    type: 'table',
+    entity: '',
+    route: `/${name.toLowerCase()}`,
+  };
+  // Keys without a dedicated IR property (actions, filters, fields, onSuccess, ...) are kept in props
+  const extraProps: NonNullable<IRPage['props']> = {};
+
+  for (const [key, value] of Object.entries(block)) {
+    switch (key) {
+      case 'type':
+        page.type = value as IRPage['type'];
+        break;
+      case 'entity':
+        page.entity = value as string;
+        setSpan(page, 'entity', spanOf(block, key) as Span);
+        break;
+      case 'route':
+        page.route = value as string;
+        break;
+      case 'permissions':
+        if (typeof value === 'string') {
+          page.permissions = value.split(',').map(p => p.trim());
+        } else {
+          page.permissions = (value as ParsedValue[]).map(String);
+        }
+        break;
+      case 'title':
+        page.title = value as string;
+        break;
+      case 'columns':
+        if (typeof value === 'string') {
+          page.columns = value.split(',').map(c => {
+            const [field, label] = c.trim().split(':');
+            return { field: field.trim(), label: label?.trim() };
+          });
+        } else {
+          page.columns = value as Array<{ field: string; label?: string }>;
+        }
+        break;
+      case 'props':
+        page.props = { ...page.props, ...(value as IRPage['props']) };
+        break;
+      default:
+        extraProps[key] = value as NonNullable<IRPage['props']>[string];
+    }
+  }
+
+  if (Object.keys(extraProps).length > 0) {
+    page.props = { ...extraProps, ...page.props };
+  }
+
+  if (!page.entity && page.type !== 'custom') {
+    fail(`Page '${name}' of type '${page.type}' must have an 'entity' property.`, body.properties.find(p => p.key.name === 'type')?.span ?? nameSpan, 'missing-property');
+  }
+  return page;
+}
+
+function buildWorkflow(
+  name: string,
+  nameSpan: Span,
+  block: Record<string, ParsedValue>,
+  fail: Fail,
+): IRWorkflow {
+  const trigger = block.trigger as unknown as IRWorkflow['trigger'] | undefined;
+  if (!trigger || typeof trigger !== 'object' || !trigger.event || !trigger.entity) {
+    fail(`Workflow '${name}' must have a 'trigger' with 'event' and 'entity' properties.`, spanOf(block, 'trigger') ?? nameSpan, 'missing-property');
+  }
+  const steps = Array.isArray(block.steps) ? block.steps : [];
+  return {
+    name,
+    trigger,
+    steps: steps.map(step => {
+      const candidate = step as Partial<IRWorkflowStep>;
+      if (!candidate || typeof candidate !== 'object' || !candidate.action) {
+        fail(`Each step in workflow '${name}' must have an 'action' property.`, spanOf(block, 'steps') ?? nameSpan, 'missing-property');
+      }
+      const workflowStep: IRWorkflowStep = { action: String(candidate.action), inputs: candidate.inputs ?? {} };
+      const actionSpan = spanOf(candidate, 'action');
+      if (actionSpan) setSpan(workflowStep, 'action', actionSpan);
+      return workflowStep;
+    }),
+  };
+}
+
+function buildView(
+  name: string,
+  nameSpan: Span,
+  body: ObjectNode,
+  block: Record<string, ParsedValue>,
+  fail: Fail,
+): IRView {
   if (!block.from) {
-    throwParsingError(`View '${name}' must have a 'from' property.`, filePath, lines, startIndex - 1);
+    fail(`View '${name}' must have a 'from' property.`, nameSpan, 'missing-property');
   }
 
   if (!block.fields || !Array.isArray(block.fields)) {
-    throwParsingError(`View '${name}' must have a 'fields' property that is an array.`, filePath, lines, startIndex - 1);
+    fail(`View '${name}' must have a 'fields' property that is an array.`, spanOf(block, 'fields') ?? nameSpan, 'missing-property');
   }
 
+  const fieldsNode = body.properties.find(p => p.key.name === 'fields')?.value as ArrayNode;
   const view: IRView = {
     name,
     from: block.from as string,
-    fields: (block.fields as Array<{name?: string; type?: string; expression?: string}>).map((f) => {
-      if (!f.name || !f.type || !f.expression) {
-        throwParsingError(`Each field in view '${name}' must have 'name', 'type', and 'expression' properties.`, filePath, lines, startIndex - 1);
+    fields: (block.fields as Array<{ name?: string; type?: string; expression?: string }>).map((f, index) => {
+      if (!f || !f.name || !f.type || !f.expression) {
+        fail(`Each field in view '${name}' must have 'name', 'type', and 'expression' properties.`, fieldsNode.elements[index].span, 'missing-property');
       }
       return {
         name: f.name as string,
@@ -365,155 +1057,222 @@ function parseView(lines: string[], startIndex: number, name: string, filePath?:
       };
     }),
   };
-
-  return [view, i - 1];
+  setSpan(view, 'from', spanOf(block, 'from') as Span);
+  return view;
 }
 
-export function parseDSL(dsl: string, filePath?: string): IApp {
-  const lines = dsl.split('\n');
-  if (!dsl.trim() || lines.every(line => !line.trim() || line.trim().startsWith('//'))) {
-    throw new DSLParsingError('DSL file is empty or contains only comments. At least one entity block is required.', filePath);
+/**
+ * Applies a `config` block. Named blocks (`config auth`) set one section; an unnamed
+ * `config` block may set `db`, `ports`, `auth`, `tenancy` and `integrations` together.
+ */
+function applyConfig(config: IRConfig, name: string | undefined, block: Record<string, ParsedValue>) {
+  const sections: Record<string, ParsedValue> = name ? { [name]: block } : block;
+  for (const [section, value] of Object.entries(sections)) {
+    if (section === 'auth') {
+      config.auth = value as unknown as IRConfig['auth'];
+    } else if (section === 'tenancy') {
+      config.tenancy = value as unknown as IRConfig['tenancy'];
+    } else if (section === 'integrations') {
+      config.integrations = value as unknown as IRConfig['integrations'];
+    } else if (section === 'db') {
+      config.db = value as IRConfig['db'];
+    } else if (section === 'ports') {
+      config.ports = value as IRConfig['ports'];
+    }
   }
-  
-  const app: IApp = { name: 'App', entities: [], views: [], pages: [], workflows: [], config: { enums: {} } };
-  let i = 0;
+}
 
-  while (i < lines.length) {
-    const line = cleanLine(lines[i]);
-    if (!line) {
-      i++;
-      continue;
-    }
+export interface ParseOptions {
+  filePath?: string; // The file the source came from, used in error messages
+  recover?: boolean; // Collect every error as a diagnostic instead of throwing at the first one
+  blocks?: Record<string, BlockParser>; // Parsers for block keywords added by plugins
+  readFile?: (filePath: string) => string; // Reads imported files, from the disk by default
+}
 
-    const match = line.match(/^(entity|page|workflow|config|enum|view)\s+(\w+)\s*\{/);
-    if (match) {
-      const [, type, name] = match;
-      let block, endIndex = i;
+export interface ParseResult {
+  app: IApp; // Everything that could be parsed; declarations and fields with errors are left out
+  diagnostics: Diagnostic[]; // Sorted by position
+}
 
-      if (type === 'entity') {
-        [block, endIndex] = parseEntity(lines, i + 1, name, filePath);
-        app.entities.push(block as IREntity);
-      } else if (type === 'view') {
-        [block, endIndex] = parseView(lines, i + 1, name, filePath);
-        if (app.views) {
-          app.views.push(block as IRView);
-        }
-      } else {
-        [block, endIndex] = parseBlock(lines, i + 1, filePath);
-        switch (type) {
-          case 'page': {
-            const pageName = name;
-            
-            const page: IRPage = {
-              name: pageName,
-              type: 'table',
-              entity: '',
-              route: `/${pageName.toLowerCase()}`,
-            };
-
-            for (const [key, value] of Object.entries(block)) {
-                switch(key) {
-                    case 'type':
-                        page.type = value as IRPage['type'];
-                        break;
-                    case 'entity':
-                        page.entity = value as string;
-                        break;
-                    case 'route':
-                        page.route = value as string;
-                        break;
-                    case 'permissions':
-                        if (typeof value === 'string') {
-                            page.permissions = value.split(',').map(p => p.trim());
-                        } else {
-                            page.permissions = value as string[];
-                        }
-                        break;
-                    case 'title':
-                        page.title = value as string;
-                        break;
-                    case 'columns':
-                        if (typeof value === 'string') {
-                            page.columns = value.split(',').map(c => {
-                                const [field, label] = c.trim().split(':');
-                                return { field, label: label.trim() };
-                            });
-                        } else {
-                            page.columns = value as Array<{ field: string; label: string }>;
-                        }
-                        break;
-                    case 'props':
-                        page.props = value as IRPage['props'];
-                        break;
-                }
-            }
+export interface DSLFile {
+  filePath: string;
+  source: string;
+}
 
-            if (!page.entity && page.type !== 'custom') {
-                throwParsingError(`Page '${pageName}' of type '${page.type}' must have an 'entity' property.`, filePath, lines, i);
-            }
-            
-            app.pages.push(page);
-            break;
-          }
-          case 'workflow':
-            app.workflows?.push({ name, ...block } as IRWorkflow);
-            break;
-          case 'config':
-            if (app.config) {
-                if (name === 'auth') {
-                    app.config.auth = block as IRConfig['auth'];
-                } else if (name === 'integrations') {
-                    app.config.integrations = block as IRConfig['integrations'];
-                }
-            }
-            break;
-          case 'enum':
-            if (app.config?.enums) {
-              app.config.enums[name] = Object.keys(block);
-            }
-            break;
-        }
+/**
+ * Parses DSL source, and the files it imports, into the application IR and validates it
+ * @param dsl - The DSL source
+ * @param options - The file the source came from, or parse options. Imports are resolved
+ *   relative to the file, or to the working directory without one.
+ * @returns The IR, or the IR and its diagnostics when `recover` is set
+ * @throws DSLParsingError for the first error found, unless `recover` is set
+ */
+export function parseDSL(dsl: string, options: ParseOptions & { recover: true }): ParseResult;
+export function parseDSL(dsl: string, options?: string | (ParseOptions & { recover?: false })): IApp;
+export function parseDSL(dsl: string, options?: string | ParseOptions): IApp | ParseResult {
+  const { filePath, ...rest } = typeof options === 'string' ? { filePath: options } : options ?? {};
+  return parseFiles([{ filePath, source: dsl }], rest);
+}
+
+/**
+ * Parses several DSL files, and the files they import, into one application IR and validates
+ * it. Declarations in one file can refer to those in any other, and errors name the file they
+ * are in.
+ * @param files - The entry files, in the order their declarations are added to the IR
+ * @param options - Parse options
+ * @returns The IR, or the IR and its diagnostics when `recover` is set
+ * @throws DSLParsingError for the first error found, unless `recover` is set
+ */
+export function parseDSLFiles(files: DSLFile[], options: Omit<ParseOptions, 'filePath'> & { recover: true }): ParseResult;
+export function parseDSLFiles(files: DSLFile[], options?: Omit<ParseOptions, 'filePath'> & { recover?: false }): IApp;
+export function parseDSLFiles(files: DSLFile[], options: Omit<ParseOptions, 'filePath'> = {}): IApp | ParseResult {
+  return parseFiles(files, options);
+}
+
+/**
+ * Parses files and the files they import. Each file is parsed once, after the file that first
+ * imports it, and a file that imports one of the files importing it is reported as a cycle.
+ */
+function loadFiles(
+  files: { filePath?: string; source: string }[],
+  recover: Recover,
+  keywords: string[],
+  readFile: (filePath: string) => string = file => fs.readFileSync(file, 'utf-8'),
+): ParsedFile[] {
+  const parsed: ParsedFile[] = [];
+  const loaded = new Set<string>();
+
+  // `stack` holds the files being loaded, from the entry file to this one
+  const load = (file: { filePath?: string; source: string }, stack: { path: string; filePath: string }[]) => {
+    const document = parseDocument(file.source, file.filePath, recover, keywords);
+    const lines = file.source.split('\n');
+    parsed.push({ document, source: file.source, lines, filePath: file.filePath });
+    const fromDir = file.filePath ? path.dirname(path.resolve(file.filePath)) : process.cwd();
+
+    for (const node of document.declarations) {
+      if (node.kind !== 'Import') continue;
+      const targets = resolveImport(node.path.value, fromDir);
+      if (targets.length === 0) {
+        recover(errorAtSpan(`No files match '${node.path.value}'`, 'unresolved-import', node.path.span, file.filePath, lines));
       }
-      i = endIndex + 1;
-    } else {
-        if (i < lines.length -1) {
-            i++;
-        } else {
-            throwParsingError('Invalid syntax', filePath, lines, i);
+      for (const target of targets) {
+        // Imported files are named the way the importing file is: by absolute path, or relative to the working directory
+        const filePath = file.filePath && path.isAbsolute(file.filePath) ? target : path.relative(process.cwd(), target);
+        const cycle = stack.findIndex(entry => entry.path === target);
+        if (cycle > -1) {
+          const chain = [...stack.slice(cycle).map(entry => entry.filePath), filePath].join(' -> ');
+          recover(errorAtSpan(`Import cycle: ${chain}`, 'import-cycle', node.path.span, file.filePath, lines));
+          continue;
+        }
+        if (loaded.has(target)) continue;
+        loaded.add(target);
+        let source: string;
+        try {
+          source = readFile(target);
+        } catch (error) {
+          const message = (error as NodeJS.ErrnoException).code === 'ENOENT'
+            ? `Imported file '${node.path.value}' not found`
+            : `Cannot read '${node.path.value}': ${error instanceof Error ? error.message : error}`;
+          recover(errorAtSpan(message, 'unresolved-import', node.path.span, file.filePath, lines));
+          continue;
         }
+        load({ filePath, source }, [...stack, { path: target, filePath }]);
+      }
     }
+  };
+
+  for (const file of files) {
+    const absolute = file.filePath ? path.resolve(file.filePath) : undefined;
+    if (absolute && loaded.has(absolute)) continue;
+    if (absolute) loaded.add(absolute);
+    load(file, absolute ? [{ path: absolute, filePath: file.filePath as string }] : []);
   }
+  return parsed;
+}
 
-  validateIR(app, filePath, lines);
-  return app;
+function parseFiles(files: { filePath?: string; source: string }[], options: Omit<ParseOptions, 'filePath'>): IApp | ParseResult {
+  const { recover = false, blocks = {} } = options;
+  const errors: DSLParsingError[] = [];
+  const collect: Recover = recover
+    ? error => {
+        if (!(error instanceof DSLParsingError)) throw error;
+        errors.push(error);
+      }
+    : rethrow;
+
+  const parsed = loadFiles(files, collect, Object.keys(blocks), options.readFile);
+  if (parsed.every(file => file.document.declarations.length === 0) && errors.length === 0) {
+    const filePath = files.length === 1 ? files[0].filePath : undefined;
+    collect(new DSLParsingError('DSL file is empty or contains only comments. At least one entity block is required.', filePath, undefined, undefined, undefined, 'empty-file'));
+  }
+
+  const app = buildIR(parsed, collect, blocks);
+  checkIR(app, parsed[0]?.filePath, parsed[0]?.lines ?? [], collect);
+  if (!recover) {
+    return app;
+  }
+
+  // Diagnostics are grouped by file, in the order the files were loaded
+  const fileOrder = (filePath?: string) => parsed.findIndex(file => file.filePath === filePath);
+  const diagnostics = errors
+    .map(error => toDiagnostic(error))
+    .sort((a, b) => fileOrder(a.filePath) - fileOrder(b.filePath) || a.line - b.line || a.column - b.column);
+  return { app, diagnostics };
 }
 
 // Main validation function
 export function validateIR(app: IApp, filePath?: string, lines: string[] = []) {
+  checkIR(app, filePath, lines, rethrow);
+}
+
+function checkIR(app: IApp, filePath: string | undefined, lines: string[], recover: Recover) {
   const entityNames = new Set(app.entities.map(e => e.name));
   const viewNames = new Set(app.views?.map(v => v.name) ?? []);
   const enumNames = new Set(Object.keys(app.config?.enums || {}));
 
+  // Reports at the recorded source span, or at the first line matching `fallback` for IR built by hand
+  const fail = (message: string, code: DiagnosticCode, span: Span | undefined, fallback: (line: string) => boolean) => {
+    if (span) {
+      recover(errorAtSpan(message, code, span, filePath, lines));
+      return;
+    }
+    const lineIndex = lines.findIndex(fallback);
+    recover(errorAtLine(message, code, filePath, lines, lineIndex > -1 ? lineIndex : 0));
+  };
+
   // Validate Relationships
   for (const entity of app.entities) {
     if (entity.relations) {
       for (const relation of entity.relations) {
         if (!entityNames.has(relation.target)) {
-          // Find line number for this error
-          const lineIndex = lines.findIndex(l => l.includes(`entity ${entity.name}`) && l.includes(relation.field));
-          throwParsingError(`Entity '${relation.target}' not found for relation '${relation.field}' in entity '${entity.name}'`, filePath, lines, lineIndex > -1 ? lineIndex : 0);
+          fail(`Entity '${relation.target}' not found for relation '${relation.field}' in entity '${entity.name}'`, 'unknown-entity', spanOf(relation, 'target'), l => l.includes(`entity ${entity.name}`) && l.includes(relation.field));
+        }
+      }
+    }
+    // Validate the fields named in @@unique and @@index; a to-one relation stands for its key column
+    const knownFields = new Set([
+      ...entity.fields.map(f => f.name),
+      ...(entity.relations ?? []).filter(r => !isListRelation(r)).flatMap(r => [r.field, foreignKeyName(r)]),
+    ]);
+    for (const [directive, lists] of [['@@unique', entity.uniques], ['@@index', entity.indexes]] as const) {
+      for (const list of lists ?? []) {
+        for (const name of list.filter(n => !knownFields.has(n))) {
+          fail(`Unknown field '${name}' in ${directive} on entity '${entity.name}'`, 'unknown-field', spanOf(list, name), l => l.includes(directive) && l.includes(name));
         }
       }
     }
     // Validate field types that are enums
     for (const field of entity.fields) {
-        if (field.type.match(/^[A-Z][a-zA-Z0-9]*$/) && !entityNames.has(field.type) && !enumNames.has(field.type)) {
-            const validTypes = ['String', 'Text', 'Int', 'Float', 'Decimal', 'Boolean', 'DateTime', 'Date', 'UUID', 'JSON', 'Password'];
-            if (!validTypes.includes(field.type) && field.type !== 'Json') {
-                const lineIndex = lines.findIndex(l => l.includes(`entity ${entity.name}`) && l.includes(field.name));
-                throwParsingError(`Type '${field.type}' for field '${field.name}' is not a defined entity or enum.`, filePath, lines, lineIndex > -1 ? lineIndex : 0);
+        const baseType = field.type.replace(/\[\]$/, '');
+        if (baseType.match(/^[A-Z][a-zA-Z0-9]*$/) && !entityNames.has(baseType) && !enumNames.has(baseType)) {
+            if (!FIELD_TYPES.includes(baseType) && baseType !== 'Json') {
+                fail(`Type '${field.type}' for field '${field.name}' is not a defined entity or enum.`, 'unknown-type', spanOf(field, 'type'), l => l.includes(`entity ${entity.name}`) && l.includes(field.name));
             }
         }
+        const enumValues = enumNames.has(field.type) ? app.config?.enums?.[field.type] ?? [] : undefined;
+        if (enumValues && field.default !== undefined && !enumValues.includes(String(field.default))) {
+            fail(`Default value '${field.default}' for field '${field.name}' is not a value of enum '${field.type}'. Must be one of: ${enumValues.join(', ')}`, 'invalid-attribute', spanOf(field, 'default'), l => l.includes(field.name) && l.includes('default'));
+        }
     }
   }
 
@@ -521,8 +1280,7 @@ export function validateIR(app: IApp, filePath?: string, lines: string[] = []) {
   if (app.views) {
     for (const view of app.views) {
       if (!entityNames.has(view.from)) {
-        const lineIndex = lines.findIndex(l => l.includes(`view ${view.name}`));
-        throwParsingError(`Entity '${view.from}' not found for view '${view.name}'`, filePath, lines, lineIndex > -1 ? lineIndex : 0);
+        fail(`Entity '${view.from}' not found for view '${view.name}'`, 'unknown-entity', spanOf(view, 'from'), l => l.includes(`view ${view.name}`));
       }
     }
   }
@@ -530,14 +1288,150 @@ export function validateIR(app: IApp, filePath?: string, lines: string[] = []) {
   // Validate Page Entities
   for (const page of app.pages) {
     if (page.entity && !entityNames.has(page.entity) && !viewNames.has(page.entity)) {
-      const lineIndex = lines.findIndex(l => l.includes(`page ${page.name}`));
-      throwParsingError(`Entity or View '${page.entity}' not found for page '${page.name}'`, filePath, lines, lineIndex > -1 ? lineIndex : 0);
+      fail(`Entity or View '${page.entity}' not found for page '${page.name}'`, 'unknown-entity', spanOf(page, 'entity'), l => l.includes(`page ${page.name}`));
     }
   }
 
+  // Validate Workflows
+  for (const workflow of app.workflows ?? []) {
+    const atWorkflow = (l: string) => l.includes(`workflow ${workflow.name}`);
+    const { event, entity } = workflow.trigger;
+    if (!entityNames.has(entity)) {
+      fail(`Entity '${entity}' not found for trigger of workflow '${workflow.name}'`, 'unknown-entity', spanOf(workflow.trigger, 'entity'), atWorkflow);
+    }
+    const [eventEntity, eventName] = event.split('.');
+    if (eventEntity !== workflowEventEntity(entity) || !WORKFLOW_EVENTS.includes(eventName)) {
+      fail(`Invalid trigger event '${event}' in workflow '${workflow.name}'. Must be one of: ${WORKFLOW_EVENTS.map(e => `${workflowEventEntity(entity)}.${e}`).join(', ')}`, 'invalid-workflow-event', spanOf(workflow.trigger, 'event'), atWorkflow);
+    }
+    for (const step of workflow.steps) {
+      if (!WORKFLOW_ACTIONS.includes(step.action)) {
+        fail(`Unknown action '${step.action}' in workflow '${workflow.name}'. Must be one of: ${WORKFLOW_ACTIONS.join(', ')}`, 'unknown-workflow-action', spanOf(step, 'action'), atWorkflow);
+      }
+      if ((step.action === 'createRecord' || step.action === 'updateRecord') && !entityNames.has(step.inputs.entity as string)) {
+        fail(`Entity '${step.inputs.entity}' not found for action '${step.action}' in workflow '${workflow.name}'`, 'unknown-entity', spanOf(step.inputs, 'entity') ?? spanOf(step, 'action'), atWorkflow);
+      }
+    }
+  }
+
+  // Validate Integrations
+  const email = app.config?.integrations?.email;
+  if (email && !EMAIL_PROVIDERS.includes(email.provider)) {
+    fail(`Unknown email provider '${email.provider}'. Must be one of: ${EMAIL_PROVIDERS.join(', ')}`, 'invalid-integration', spanOf(email, 'provider'), l => l.includes('provider'));
+  }
+
   // Validate Auth Config
   if (app.config?.auth?.userEntity && !entityNames.has(app.config.auth.userEntity)) {
-    const lineIndex = lines.findIndex(l => l.includes('config auth'));
-    throwParsingError(`User entity '${app.config.auth.userEntity}' not found in auth config`, filePath, lines, lineIndex > -1 ? lineIndex : 0);
+    fail(`User entity '${app.config.auth.userEntity}' not found in auth config`, 'unknown-entity', spanOf(app.config.auth, 'userEntity'), l => l.includes('config auth'));
+  }
+  if (app.config?.auth?.provider === 'jwt') {
+    const auth = app.config.auth;
+    const atAuth = (l: string) => l.includes('config auth') || l.includes('provider');
+    const user = authUser(app);
+    const identityName = auth.props?.identityField;
+    const passwordName = auth.props?.passwordField;
+    if (!auth.userEntity) {
+      fail(`The jwt auth provider requires 'userEntity' in the auth config`, 'invalid-auth', spanOf(auth, 'provider'), atAuth);
+    } else if (user) {
+      const at = (prop: string) => spanOf(auth.props, prop) ?? spanOf(auth, 'userEntity');
+      if (identityName && !user.identityField) {
+        fail(`Identity field '${identityName}' not found in user entity '${auth.userEntity}'`, 'invalid-auth', at('identityField'), atAuth);
+      } else if (identityName && !user.identityField?.unique) {
+        fail(`Identity field '${identityName}' of user entity '${auth.userEntity}' must be unique`, 'invalid-auth', at('identityField'), atAuth);
+      } else if (!user.identityField) {
+        fail(`User entity '${auth.userEntity}' has no unique field to sign in with. Add one, such as email: String unique, or name one with 'identityField' in the auth props`, 'invalid-auth', at('identityField'), atAuth);
+      }
+      if (passwordName && !user.passwordField?.isPassword) {
+        fail(`Password field '${passwordName}' of user entity '${auth.userEntity}' must be a Password field`, 'invalid-auth', at('passwordField'), atAuth);
+      } else if (!user.passwordField) {
+        fail(`User entity '${auth.userEntity}' has no Password field to sign in with. Add one, such as password: Password`, 'invalid-auth', at('passwordField'), atAuth);
+      }
+    }
+    for (const prop of Object.keys(AUTH_TOKEN_TTLS) as AuthTokenTtl[]) {
+      if (auth.props?.[prop] !== undefined && parseDuration(auth.props[prop]) === undefined) {
+        fail(`'${prop}' in the auth props must be a duration, such as 15m, 12h or 30d`, 'invalid-auth', spanOf(auth.props, prop), atAuth);
+      }
+    }
+    for (const entity of app.entities.filter(e => AUTH_TOKEN_MODELS.includes(e.name))) {
+      fail(`Entity name '${entity.name}' is reserved by the jwt auth provider`, 'invalid-auth', undefined, l => l.includes(`entity ${entity.name}`));
+    }
+  }
+
+  // The audit log is kept in a model of its own
+  if (hasAuditLog(app)) {
+    for (const entity of app.entities.filter(e => e.name === AUDIT_LOG_MODEL)) {
+      fail(`Entity name '${entity.name}' is reserved by @@audited`, 'duplicate-declaration', undefined, l => l.includes(`entity ${entity.name}`));
+    }
+  }
+
+  // Validate Tenancy Config
+  const tenancy = app.config?.tenancy;
+  if (tenancy) {
+    const atTenancy = (l: string) => l.includes('tenancy');
+    if (!TENANCY_STRATEGIES.includes(tenancy.strategy)) {
+      fail(`Unknown tenancy strategy '${tenancy.strategy ?? ''}'. Must be one of: ${TENANCY_STRATEGIES.join(', ')}`, 'invalid-tenancy', spanOf(tenancy, 'strategy'), atTenancy);
+    }
+    if (!tenancy.tenantEntity) {
+      fail(`The tenancy config requires 'tenantEntity'`, 'invalid-tenancy', undefined, atTenancy);
+    } else if (!entityNames.has(tenancy.tenantEntity)) {
+      fail(`Tenant entity '${tenancy.tenantEntity}' not found in tenancy config`, 'unknown-entity', spanOf(tenancy, 'tenantEntity'), atTenancy);
+    } else if (tenancy.entities !== undefined && !Array.isArray(tenancy.entities)) {
+      fail(`'entities' in the tenancy config must list entities, such as entities: [Project, Invoice]`, 'invalid-tenancy', spanOf(tenancy, 'entities'), atTenancy);
+    } else {
+      for (const name of tenancy.entities ?? []) {
+        if (name === tenancy.tenantEntity) {
+          fail(`The tenant entity '${name}' cannot be tenant-scoped`, 'invalid-tenancy', spanOf(tenancy, 'entities'), atTenancy);
+        } else if (!entityNames.has(name)) {
+          fail(`Entity '${name}' not found in tenancy config`, 'unknown-entity', spanOf(tenancy, 'entities'), atTenancy);
+        }
+      }
+      for (const entity of app.entities.filter(e => isTenantScoped(app, e))) {
+        const { relation, declared } = tenantRelation(app, entity);
+        const names = [...entity.fields.map(f => f.name), ...(entity.relations ?? []).map(r => r.field)];
+        const taken = declared ? undefined : [relation.field, foreignKeyName(relation)].find(name => names.includes(name));
+        if (taken) {
+          fail(`Field '${taken}' of entity '${entity.name}' is taken by the tenant key. Declare it as a relation, such as ${relation.field}: ${tenancy.tenantEntity}`, 'invalid-tenancy', undefined, l => l.includes(`entity ${entity.name}`));
+        }
+      }
+      // Signed-in users work in their own tenant, so each user has to be bound to one
+      const tenancyAuth = app.config?.auth;
+      const userEntity = app.entities.find(e => e.name === tenancyAuth?.userEntity);
+      if (tenancyAuth && tenancyAuth.provider !== 'jwt') {
+        fail(`Tenancy binds users to their tenant through the jwt auth provider, so it cannot be used with '${tenancyAuth.provider}'`, 'invalid-tenancy', undefined, atTenancy);
+      } else if (userEntity && !isTenantScoped(app, userEntity)) {
+        fail(`The user entity '${userEntity.name}' must be tenant-scoped, so that each user belongs to a tenant. Add it to 'entities' in the tenancy config`, 'invalid-tenancy', spanOf(tenancy, 'entities'), atTenancy);
+      }
+    }
   }
-}
\ No newline at end of file
+
+  // Validate Access Sections
+  const auth = app.config?.auth;
+  const roleValues = auth?.roles ? app.config?.enums?.[auth.roles] : undefined;
+  for (const entity of app.entities) {
+    const access = entity.access;
+    if (!access) continue;
+    const atEntity = (l: string) => l.includes(`entity ${entity.name}`);
+    if (!auth) {
+      fail(`Entity '${entity.name}' has an access section, but no auth provider is configured. Add a 'config auth' block.`, 'invalid-access', spanOf(entity, 'access'), atEntity);
+      continue;
+    }
+    for (const operation of ACCESS_OPERATIONS) {
+      const roles = access[operation] ?? [];
+      for (const role of roles.filter(r => r !== OWNER && roleValues && !roleValues.includes(r))) {
+        fail(`Unknown role '${role}' in '${operation}' of entity '${entity.name}'. Must be one of: ${[...(roleValues ?? []), OWNER].join(', ')}`, 'unknown-role', spanOf(roles, role), atEntity);
+      }
+    }
+
+    const ownerList = ACCESS_OPERATIONS.map(operation => access[operation]).find(roles => roles?.includes(OWNER));
+    const candidates = ownerCandidates(app, entity);
+    if (access.owner && !candidates.some(relation => relation.field === access.owner)) {
+      fail(`'${access.owner}' is not a relation to the user entity '${auth.userEntity}' that holds its key in entity '${entity.name}'`, 'invalid-access', spanOf(access, 'owner'), atEntity);
+    } else if (ownerList && !ownerKey(app, entity)) {
+      const reason = !auth.userEntity
+        ? `requires 'userEntity' in the auth config`
+        : candidates.length > 1
+          ? `is ambiguous: it has several relations to '${auth.userEntity}'. Name one with owner, such as owner: ${candidates[0].field}`
+          : `requires a relation to the user entity '${auth.userEntity}', such as ${auth.userEntity.charAt(0).toLowerCase()}${auth.userEntity.slice(1)}: ${auth.userEntity}`;
+      fail(`'owner' in entity '${entity.name}' ${reason}`, 'invalid-access', spanOf(ownerList, OWNER), atEntity);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+// The plugin interface: custom DSL blocks, IR transforms and extra generated files
+import { PluginError } from './errors';
+import { IApp } from './ir';
+import { BLOCK_KEYWORDS, validateIR } from './parser';
+import { TemplateSource } from './templates';
+import { VirtualFileSystem } from './vfs';
+
+/** A value in the body of a block: identifiers become strings, objects and arrays plain data */
+export type BlockValue = string | number | boolean | BlockValue[] | { [key: string]: BlockValue };
+
+export interface PluginBlock {
+  keyword: string;
+  name?: string; // Blocks contributed by plugins may omit their name
+  body: Record<string, BlockValue>;
+  /**
+   * Reports a problem with the block as a DSL error
+   * @param message - The error message
+   * @param key - The property the problem is in, to point at its value instead of the block name
+   */
+  fail(message: string, key?: string): never;
+}
+
+/**
+ * Turns a custom block into IR. The returned value, if any, is added to
+ * `app.extensions[keyword]`; a parser may also change the IR it is given.
+ */
+export type BlockParser = (block: PluginBlock, app: IApp) => unknown;
+
+export interface PluginGeneratorContext {
+  vfs: VirtualFileSystem; // Write generated files here, so that they are merged and diffed like the built-in ones
+  templates: TemplateSource[];
+  verbose: boolean;
+}
+
+export interface Stalmer1Plugin {
+  name: string;
+  blocks?: Record<string, BlockParser>; // Top-level block keywords and their parsers
+  /**
+   * Changes the IR after parsing and before generation
+   * @param app - The application IR
+   * @returns The new IR, or nothing if the IR was changed in place
+   */
+  transformIR?(app: IApp): IApp | void;
+  /**
+   * Generates extra files after the built-in generators have run
+   * @param app - The application IR
+   * @param outDir - The output directory
+   * @param context - Where to write the files and the templates in use
+   */
+  generate?(app: IApp, outDir: string, context: PluginGeneratorContext): void | Promise<void>;
+}
+
+/**
+ * Collects the block parsers of every plugin
+ * @param plugins - The plugins, in the order they were configured
+ * @returns The block parsers by keyword
+ * @throws PluginError if two plugins, or a plugin and the DSL, use the same keyword
+ */
+export function pluginBlocks(plugins: Stalmer1Plugin[]): Record<string, BlockParser> {
+  const blocks: Record<string, BlockParser> = {};
+  const owners: Record<string, string> = {};
+  for (const plugin of plugins) {
+    for (const [keyword, parser] of Object.entries(plugin.blocks ?? {})) {
+      if (BLOCK_KEYWORDS.includes(keyword) || keyword === 'import') {
+        throw new PluginError(`Block keyword '${keyword}' is already part of the DSL`, plugin.name);
+      }
+      if (owners[keyword]) {
+        throw new PluginError(`Block keyword '${keyword}' is already registered by ${owners[keyword]}`, plugin.name);
+      }
+      owners[keyword] = plugin.name;
+      blocks[keyword] = parser;
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Runs the IR transforms of every plugin in order, and validates the result
+ * @param app - The parsed application IR
+ * @param plugins - The plugins, in the order they were configured
+ * @returns The transformed IR
+ * @throws PluginError if a transform leaves the IR invalid
+ */
+export function transformIR(app: IApp, plugins: Stalmer1Plugin[]): IApp {
+  let result = app;
+  for (const plugin of plugins) {
+    if (!plugin.transformIR) continue;
+    result = plugin.transformIR(result) ?? result;
+    try {
+      validateIR(result);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new PluginError(`The IR transform produced an invalid IR: ${reason}`, plugin.name);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,93 @@
+// Helpers for pairing the two sides of a relation between entities
+import { IREntity, IRRelation } from './ir';
+
+/**
+ * Whether a relation side holds a list of records
+ * @param relation - The relation side
+ * @returns True for one-to-many and many-to-many sides
+ */
+export function isListRelation(relation: IRRelation): boolean {
+  return relation.type === 'one-to-many' || relation.type === 'many-to-many';
+}
+
+/**
+ * Finds the relation on the target entity that forms the other side of a relation. Sides
+ * with a `relationName` pair with the side of the same name; unnamed sides pair when each is
+ * the only unnamed relation between the two entities in its direction.
+ * @param entities - All entities in the app
+ * @param entity - The entity the relation is declared on
+ * @param relation - The relation side
+ * @returns The other side, or undefined if it is declared on one side only
+ */
+export function findInverseRelation(entities: IREntity[], entity: IREntity, relation: IRRelation): IRRelation | undefined {
+  const target = entities.find(e => e.name === relation.target);
+  if (!target) return undefined;
+
+  const candidates = (target.relations ?? []).filter(r => r.target === entity.name && r !== relation);
+  if (relation.relationName) {
+    return candidates.find(r => r.relationName === relation.relationName);
+  }
+  const unnamed = candidates.filter(r => !r.relationName);
+  const ownUnnamed = (entity.relations ?? []).filter(r => r.target === relation.target && !r.relationName);
+  return unnamed.length === 1 && ownUnnamed.length === 1 ? unnamed[0] : undefined;
+}
+
+/**
+ * Sets the type of every relation from the cardinality of both of its sides: list to list is
+ * many-to-many, list to single is one-to-many (and many-to-one from the other side), and single
+ * to single is one-to-one. A side without an inverse keeps its own cardinality.
+ * @param entities - All entities in the app
+ */
+export function linkRelations(entities: IREntity[]): void {
+  const isList = new Map<IRRelation, boolean>();
+  for (const entity of entities) {
+    for (const relation of entity.relations ?? []) {
+      isList.set(relation, isListRelation(relation));
+    }
+  }
+
+  for (const entity of entities) {
+    for (const relation of entity.relations ?? []) {
+      const inverse = findInverseRelation(entities, entity, relation);
+      const many = isList.get(relation);
+      if (!inverse) {
+        relation.type = many ? 'one-to-many' : 'many-to-one';
+      } else if (many) {
+        relation.type = isList.get(inverse) ? 'many-to-many' : 'one-to-many';
+      } else {
+        relation.type = isList.get(inverse) ? 'many-to-one' : 'one-to-one';
+      }
+    }
+  }
+}
+
+/**
+ * Whether a relation side stores the foreign key. That is the single side of a one-to-many,
+ * and for a one-to-one the side declared on the entity that comes later in the DSL.
+ * @param entities - All entities in the app
+ * @param entity - The entity the relation is declared on
+ * @param relation - The relation side
+ * @returns True if the foreign key column belongs to this side
+ */
+export function ownsForeignKey(entities: IREntity[], entity: IREntity, relation: IRRelation): boolean {
+  if (relation.type === 'many-to-one') return true;
+  if (relation.type !== 'one-to-one') return false;
+
+  const inverse = findInverseRelation(entities, entity, relation);
+  if (!inverse) return true;
+  const target = entities.find(e => e.name === relation.target) as IREntity;
+  if (target === entity) {
+    const relations = entity.relations ?? [];
+    return relations.indexOf(relation) > relations.indexOf(inverse);
+  }
+  return entities.indexOf(entity) > entities.indexOf(target);
+}
+
+/**
+ * The name of the foreign key column for a relation side, such as `authorId` for `author`
+ * @param relation - The relation side that owns the foreign key
+ * @returns The column name
+ */
+export function foreignKeyName(relation: IRRelation): string {
+  return `${relation.field}Id`;
+}
@@ -0,0 +1,4 @@
+// Helpers for `@@softDelete`, shared by validation and the generators
+
+/** The column @@softDelete adds, holding when a record was deleted, or null if it was not */
+export const SOFT_DELETE_FIELD = 'deletedAt';
@@ -0,0 +1,90 @@
+// Loads generator templates, letting project directories and template packs shadow the built-ins
+import * as fs from 'fs';
+import * as path from 'path';
+import { TemplateError } from './errors';
+import { VirtualFileSystem } from './vfs';
+
+/**
+ * The version of the data the generators pass to their templates, documented in
+ * docs/TEMPLATES.md. It is bumped whenever a template local is renamed, removed or changes
+ * shape, so that overrides written for an older version fail loudly instead of rendering
+ * broken code.
+ */
+export const TEMPLATE_CONTEXT_VERSION = 3;
+
+export type TemplateNamespace = 'backend' | 'frontend';
+
+export interface TemplateSource {
+  name: string; // shown in messages, e.g. the directory or pack name
+  dir: string; // holds `backend/` and `frontend/` directories laid out like the built-in templates
+  contextVersion?: number; // the template context version the templates were written for
+}
+
+export interface GeneratorOptions {
+  vfs?: VirtualFileSystem; // where the generated files are written, the disk by default
+  templates?: TemplateSource[]; // searched in order before the built-in templates
+}
+
+export interface TemplateLoader {
+  /**
+   * Reads a template
+   * @param relPath - The template path relative to the namespace, e.g. `controller.ejs`
+   * @returns The template content from the first source that has it
+   */
+  read(relPath: string): string;
+  /**
+   * Lists the templates in a directory of every source
+   * @param relDir - The directory relative to the namespace
+   * @returns The file names, sorted and without duplicates
+   */
+  list(relDir: string): string[];
+}
+
+/**
+ * Checks that template sources were written for the current template context
+ * @param sources - The template sources
+ * @throws TemplateError if a source declares another context version
+ */
+export function checkTemplateSources(sources: TemplateSource[]): void {
+  for (const source of sources) {
+    if (source.contextVersion !== undefined && source.contextVersion !== TEMPLATE_CONTEXT_VERSION) {
+      throw new TemplateError(
+        `Templates were written for template context version ${source.contextVersion}, but this version of Stalmer1 provides version ${TEMPLATE_CONTEXT_VERSION}. See docs/TEMPLATES.md for the changes.`,
+        source.name,
+      );
+    }
+  }
+}
+
+/**
+ * Creates a loader for one generator's templates
+ * @param namespace - The generator the templates belong to
+ * @param builtinDir - The directory of the built-in templates
+ * @param sources - Template sources that shadow the built-ins, highest precedence first
+ * @returns The template loader
+ */
+export function createTemplateLoader(namespace: TemplateNamespace, builtinDir: string, sources: TemplateSource[] = []): TemplateLoader {
+  checkTemplateSources(sources);
+  const dirs = [...sources.map(source => path.join(source.dir, namespace)), builtinDir];
+
+  return {
+    read: relPath => {
+      for (const dir of dirs) {
+        const templatePath = path.join(dir, relPath);
+        if (fs.existsSync(templatePath)) return fs.readFileSync(templatePath, 'utf-8');
+      }
+      throw new TemplateError(`Template not found: ${namespace}/${relPath}`);
+    },
+    list: relDir => {
+      const names = new Set<string>();
+      for (const dir of dirs) {
+        const fullDir = path.join(dir, relDir);
+        if (!fs.existsSync(fullDir)) continue;
+        for (const entry of fs.readdirSync(fullDir, { withFileTypes: true })) {
+          if (entry.isFile()) names.add(entry.name);
+        }
+      }
+      return [...names].sort();
+    },
+  };
+}
@@ -0,0 +1,49 @@
+// Helpers for `config tenancy`, shared by validation and the generators
+import { IApp, IREntity, IRRelation } from './ir';
+import { foreignKeyName, isListRelation, ownsForeignKey } from './relations';
+
+/** The ways of keeping the records of tenants apart. `column` adds a tenant key to each record. */
+export const TENANCY_STRATEGIES = ['column'];
+
+/** The request header that selects the tenant in apps without auth, where users are not bound to one */
+export const TENANT_HEADER = 'x-tenant-id';
+
+/**
+ * Whether the records of an entity belong to a tenant: the entities listed in the tenancy
+ * config, or without a list, every entity but the tenant entity
+ * @param app - The entire application IR
+ * @param entity - The entity
+ * @returns True if the entity is tenant-scoped
+ */
+export function isTenantScoped(app: IApp, entity: IREntity): boolean {
+  const tenancy = app.config?.tenancy;
+  if (!tenancy || entity.name === tenancy.tenantEntity) return false;
+  return Array.isArray(tenancy.entities) ? tenancy.entities.includes(entity.name) : true;
+}
+
+/**
+ * The relation that links a tenant-scoped entity to its tenant: a to-one relation to the tenant
+ * entity declared in the DSL that holds the key, or else one that tenancy adds, named after the
+ * tenant entity, such as `organization`
+ * @param app - The entire application IR
+ * @param entity - The tenant-scoped entity
+ * @returns The relation, and whether the DSL declares it
+ */
+export function tenantRelation(app: IApp, entity: IREntity): { relation: IRRelation; declared: boolean } {
+  const tenantEntity = app.config?.tenancy?.tenantEntity as string;
+  const declared = (entity.relations ?? []).find(relation =>
+    relation.target === tenantEntity && !isListRelation(relation) && ownsForeignKey(app.entities, entity, relation));
+  if (declared) return { relation: declared, declared: true };
+  const field = tenantEntity.charAt(0).toLowerCase() + tenantEntity.slice(1);
+  return { relation: { type: 'many-to-one', target: tenantEntity, field, relationName: `${entity.name}Tenant` }, declared: false };
+}
+
+/**
+ * The column of a tenant-scoped entity that holds the id of its tenant, such as `organizationId`
+ * @param app - The entire application IR
+ * @param entity - The tenant-scoped entity
+ * @returns The column
+ */
+export function tenantKey(app: IApp, entity: IREntity): string {
+  return foreignKeyName(tenantRelation(app, entity).relation);
+}
@@ -0,0 +1,83 @@
+// The file system the generators write their output through
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface VirtualFileSystem {
+  readFile(filePath: string): string;
+  writeFile(filePath: string, content: string): void; // creates missing parent directories
+  exists(filePath: string): boolean;
+  mkdir(dirPath: string): void;
+}
+
+export interface MemoryFileSystem extends VirtualFileSystem {
+  files: Map<string, string>; // absolute path -> content
+  /**
+   * Collects the files written below a directory
+   * @param dirPath - The directory
+   * @returns The file contents by path relative to the directory, with forward slashes, sorted
+   */
+  readDirectory(dirPath: string): Map<string, string>;
+}
+
+// Marks a generated file as a starting point that belongs to the user once it exists, such as a
+// virtual field resolver. Regeneration creates the file if it is missing and otherwise leaves it alone.
+export const USER_OWNED_MARKER = '@stalmer1-user-owned';
+
+/**
+ * Tells whether generated content is a user-owned starting point (see USER_OWNED_MARKER)
+ * @param content - The generated content
+ * @returns True if the first line carries the marker
+ */
+export function isUserOwned(content: string): boolean {
+  return content.split('\n', 1)[0].includes(USER_OWNED_MARKER);
+}
+
+/**
+ * Writes straight to the disk
+ */
+export const diskFileSystem: VirtualFileSystem = {
+  readFile: filePath => fs.readFileSync(filePath, 'utf-8'),
+  writeFile: (filePath, content) => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  },
+  exists: filePath => fs.existsSync(filePath),
+  mkdir: dirPath => {
+    fs.mkdirSync(dirPath, { recursive: true });
+  },
+};
+
+/**
+ * Creates a file system that keeps everything in memory, so that generated output can be
+ * compared with the disk before any of it is written
+ * @returns The in-memory file system
+ */
+export function createMemoryFileSystem(): MemoryFileSystem {
+  const files = new Map<string, string>();
+  const directories = new Set<string>();
+
+  return {
+    files,
+    readFile: filePath => {
+      const content = files.get(path.resolve(filePath));
+      if (content === undefined) {
+        throw new Error(`ENOENT: no such file, open '${filePath}'`);
+      }
+      return content;
+    },
+    writeFile: (filePath, content) => {
+      files.set(path.resolve(filePath), content);
+    },
+    exists: filePath => files.has(path.resolve(filePath)) || directories.has(path.resolve(filePath)),
+    mkdir: dirPath => {
+      directories.add(path.resolve(dirPath));
+    },
+    readDirectory: dirPath => {
+      const root = path.resolve(dirPath);
+      const entries = [...files.entries()]
+        .filter(([filePath]) => filePath.startsWith(root + path.sep))
+        .map(([filePath, content]) => [path.relative(root, filePath).split(path.sep).join('/'), content] as [string, string]);
+      return new Map(entries.sort(([a], [b]) => a.localeCompare(b)));
+    },
+  };
+}
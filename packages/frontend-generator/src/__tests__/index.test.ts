@@ -1,9 +1,61 @@
 import { generateFrontend } from '..';
 import * as fs from 'fs';
+import * as ts from 'typescript';
 import { IApp, parseDSL } from '@stalmer1/core';
 import path from 'path';
 import os from 'os';
 
+/**
+ * Type-checks a generated file against the other generated files. Packages the app installs are
+ * declared as untyped modules, apart from the React hooks that take type arguments.
+ */
+function typeCheck(outDir: string, file: string): string[] {
+  const declarations = path.join(outDir, 'packages.d.ts');
+  const packages = `
+    declare module 'react' {
+      export function useState<S>(initial: S | (() => S)): [S, (value: S | ((current: S) => S)) => void];
+      const React: any;
+      export default React;
+    }
+    declare module 'react-query';
+    declare module 'react-router-dom';
+    declare module 'lucide-react';
+    declare module 'axios';
+    declare module '@radix-ui/react-slot';
+    declare module 'class-variance-authority';
+    declare module 'clsx';
+    declare module 'tailwind-merge';
+    declare namespace JSX { interface IntrinsicElements { [name: string]: any } }
+    interface ImportMeta { env: Record<string, string | undefined> }
+  `;
+  const options: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.NodeJs,
+    jsx: ts.JsxEmit.Preserve,
+    esModuleInterop: true,
+    noEmit: true,
+    types: [],
+    baseUrl: outDir,
+    paths: { '@/*': ['src/*'] },
+  };
+  const host = ts.createCompilerHost(options);
+  const readFile = host.readFile.bind(host);
+  const fileExists = host.fileExists.bind(host);
+  host.readFile = name => (name === declarations ? packages : readFile(name));
+  host.fileExists = name => name === declarations || fileExists(name);
+  host.getSourceFile = (name, languageVersion) => {
+    const text = host.readFile(name);
+    return text === undefined ? undefined : ts.createSourceFile(name, text, languageVersion, true);
+  };
+
+  const program = ts.createProgram([path.join(outDir, file), declarations], options, host);
+  const source = program.getSourceFile(path.join(outDir, file));
+  return [...program.getSyntacticDiagnostics(source), ...program.getSemanticDiagnostics(source)].map(d =>
+    ts.flattenDiagnosticMessageText(d.messageText, '\n')
+  );
+}
+
 describe('generateFrontend', () => {
   let parsedApp: IApp;
   let tempDir: string;
@@ -44,4 +96,342 @@ describe('generateFrontend', () => {
     expect(fs.existsSync(path.join(uiComponentsPath, 'table.tsx'))).toBe(true);
     expect(fs.existsSync(path.join(tempDir, 'package.json'))).toBe(true);
   });
+
+  it('should drive table pagination, sorting and filters from the page block', () => {
+    const app = parseDSL(`
+      enum Role {
+        ADMIN
+        VIEWER
+      }
+
+      entity User {
+        name: String
+        role: Role
+        password: Password
+        createdAt: DateTime
+      }
+
+      page UserList {
+        type: table
+        entity: User
+        columns: [
+          { field: name, label: "Full Name" },
+          { field: role, label: "Role" }
+        ]
+        filters: [name, role, password]
+      }
+    `);
+    generateFrontend(app, tempDir);
+
+    const table = fs.readFileSync(path.join(tempDir, 'src/components/tables/UserListTable.tsx'), 'utf-8');
+    expect(table).toContain("onChange={(e) => setFilter('name[contains]', e.target.value)}");
+    expect(table).toContain("onChange={(e) => setFilter('role', e.target.value)}");
+    expect(table).toContain("onClick={() => toggleSort('name')}");
+    expect(table).toContain('placeholder="Full Name"');
+    expect(table).toContain('{data.data.map((item) => (');
+    expect(table).not.toContain('item.password');
+    expect(table).not.toContain('item.createdAt');
+  });
+
+  it('should render declared columns, formatted values and actions in tables', () => {
+    const app = parseDSL(`
+      entity Order {
+        reference: String
+        total: Decimal
+        paid: Boolean
+        placedAt: DateTime
+        notes: JSON optional
+      }
+
+      page OrderList {
+        type: table
+        title: "Orders"
+        entity: Order
+        columns: [
+          { field: reference, label: "Reference" },
+          { field: total, label: "Total" },
+          { field: paid, label: "Paid" },
+          { field: placedAt, label: "Placed" }
+        ]
+        actions: [
+          { type: create, targetPage: OrderForm },
+          { type: edit, targetPage: OrderForm },
+          { type: view, targetPage: OrderDetails },
+          { type: delete }
+        ]
+        filters: [paid, placedAt]
+      }
+
+      page OrderForm {
+        type: form
+        entity: Order
+        route: "/orders/:id/edit"
+      }
+
+      page OrderDetails {
+        type: details
+        entity: Order
+        route: "/orders/view"
+      }
+    `);
+    generateFrontend(app, tempDir);
+
+    const table = fs.readFileSync(path.join(tempDir, 'src/components/tables/OrderListTable.tsx'), 'utf-8');
+    expect(table).toContain("{formatValue(item.total, 'decimal')}");
+    expect(table).toContain("{formatValue(item.paid, 'boolean')}");
+    expect(table).toContain("{formatValue(item.placedAt, 'datetime')}");
+    expect(table).not.toContain('item.notes');
+    expect(table).toContain("navigate('/orders/new/edit')");
+    expect(table).toContain('navigate(`/orders/${item.id}/edit`)');
+    expect(table).toContain('navigate(`/orders/view?id=${item.id}`)');
+    expect(table).toContain('onClick={() => handleDelete(item.id)}');
+    expect(table).toContain('const DATE_PARAMS: string[] = ["placedAt[gte]","placedAt[lte]"];');
+    expect(fs.existsSync(path.join(tempDir, 'src/lib/format.ts'))).toBe(true);
+  });
+
+  it('should generate tables that type-check against the generated app, with labels for every column and filter', () => {
+    const app = parseDSL(`
+      enum Status { OPEN, CLOSED }
+
+      entity Ticket {
+        subject: String
+        status: Status
+        openedAt: DateTime
+      }
+
+      page TicketList {
+        type: table
+        entity: Ticket
+        columns: [{ field: subject }, { field: openedAt, label: "Opened" }]
+        filters: [status, openedAt]
+      }
+    `);
+    generateFrontend(app, tempDir);
+
+    expect(typeCheck(tempDir, 'src/components/tables/TicketListTable.tsx')).toEqual([]);
+    const table = fs.readFileSync(path.join(tempDir, 'src/components/tables/TicketListTable.tsx'), 'utf-8');
+    expect(table).toContain("import api from '../../api';");
+    expect(table).toContain("Subject {sortIcon('subject')}");
+    expect(table).toContain('Opened {sortIcon(\'openedAt\')}');
+    expect(table).toContain('aria-label="Status"');
+    expect(table).toContain('<option value="">All Status</option>');
+    expect(table).toContain('placeholder="Opened from"');
+    expect(table).not.toContain('aria-label=""');
+  });
+
+  it('should link table actions to the form and details pages of the entity by default', () => {
+    const app = parseDSL(`
+      entity Tag {
+        name: String
+      }
+
+      page TagList {
+        type: table
+        entity: Tag
+      }
+
+      page TagDetails {
+        type: details
+        entity: Tag
+        route: "/tags/:id"
+      }
+    `);
+    generateFrontend(app, tempDir);
+
+    const table = fs.readFileSync(path.join(tempDir, 'src/components/tables/TagListTable.tsx'), 'utf-8');
+    expect(table).toContain('navigate(`/tags/${item.id}`)');
+    expect(table).toContain('onClick={() => handleDelete(item.id)}');
+    expect(table).not.toContain('Pencil size={16}');
+    expect(table).not.toContain('<Plus size={16} />');
+  });
+
+  it('should generate type-aware forms that edit records and navigate on success', () => {
+    const app = parseDSL(`
+      enum UserRole {
+        ADMIN
+        VIEWER
+      }
+
+      entity User {
+        email: String validate(pattern: "^[^@]+@[^@]+$")
+        password: Password
+        bio: Text optional
+        age: Int optional validate(min: 0, max: 150)
+        active: Boolean default(true)
+        role: UserRole default(VIEWER)
+        birthday: Date optional
+        createdAt: DateTime readonly
+      }
+
+      page UserForm {
+        type: form
+        entity: User
+        route: "/users/:id/edit"
+        onSuccess: {
+          action: navigate,
+          target: "/users"
+        }
+      }
+    `);
+    generateFrontend(app, tempDir);
+
+    const form = fs.readFileSync(path.join(tempDir, 'src/components/forms/UserFormForm.tsx'), 'utf-8');
+    expect(form).toContain('const FIELDS: string[] = ["email","password","bio","age","active","role","birthday"];');
+    expect(form).toContain('register("email", { required: true, pattern: /^[^@]+@[^@]+$/ })');
+    expect(form).toContain('<textarea id="bio"');
+    expect(form).toContain('type="number" step="1" {...register("age", { valueAsNumber: true, min: 0, max: 150 })}');
+    expect(form).toContain('<input type="checkbox" id="active" {...register("active")} />');
+    expect(form).toContain('<option value="VIEWER">');
+    expect(form).toContain('<Input id="birthday" type="date"');
+    expect(form).toContain('const DEFAULT_VALUES = {"active":true,"role":"VIEWER"};');
+    expect(form).toContain('useParams<{ id: string }>()');
+    expect(form).toContain('api.patch(`/users/${id}`, data)');
+    expect(form).toContain('navigate(`/users`);');
+    expect(form).not.toContain('"createdAt"');
+  });
+
+  it('should render relation pickers for the foreign keys a form sets', () => {
+    const app = parseDSL(`
+      entity User {
+        name: String
+      }
+
+      entity Post {
+        title: String
+        author: User
+      }
+
+      page PostForm {
+        type: form
+        entity: Post
+        fields: [
+          { field: title, label: "Title" },
+          { field: author, label: "Author" }
+        ]
+      }
+    `);
+    generateFrontend(app, tempDir);
+
+    const form = fs.readFileSync(path.join(tempDir, 'src/components/forms/PostFormForm.tsx'), 'utf-8');
+    expect(form).toContain('const FIELDS: string[] = ["title","authorId"];');
+    expect(form).toContain('register("authorId", { required: true })');
+    expect(form).toContain("api.get(`/users`, { params: { pageSize: 100 } })");
+    expect(form).toContain('<option key={option.id} value={option.id}>{option.name}</option>');
+    expect(form).toContain("searchParams.get('id')");
+  });
+
+  it('should reach the backend on its configured port through the dev server proxy', () => {
+    const app = parseDSL('config {\n  ports: { backend: 5000 }\n}\n\nentity User {\n  email: String\n}\n');
+    generateFrontend(app, tempDir);
+
+    const api = fs.readFileSync(path.join(tempDir, 'src/api.ts'), 'utf-8');
+    expect(api).toContain("baseURL: import.meta.env.VITE_API_URL || '/api',");
+    expect(api).not.toContain('localhost');
+    expect(fs.readFileSync(path.join(tempDir, 'vite.config.ts'), 'utf-8')).toContain("target: 'http://localhost:5000',");
+  });
+
+  it('should let apps without auth pick a tenant, and show signed-in users their own', () => {
+    const tenancy = 'config tenancy {\n  strategy: column\n  tenantEntity: Organization\n}\n\nentity Organization {\n  name: String\n}\n\n';
+    generateFrontend(parseDSL(`${tenancy}entity Project {\n  name: String\n}\n`), tempDir);
+
+    expect(fs.readFileSync(path.join(tempDir, 'src/components/Layout.tsx'), 'utf-8')).toContain('<label className="tenant-switcher">');
+    expect(fs.readFileSync(path.join(tempDir, 'src/api.ts'), 'utf-8')).toContain('x-tenant-id');
+
+    const authDir = fs.mkdtempSync(path.join(os.tmpdir(), 'frontend-test-'));
+    try {
+      const auth = 'config auth {\n  provider: jwt\n  userEntity: User\n}\n\nentity User {\n  email: String unique\n  password: Password\n}\n';
+      generateFrontend(parseDSL(`${auth}${tenancy}`), authDir);
+
+      const layout = fs.readFileSync(path.join(authDir, 'src/components/Layout.tsx'), 'utf-8');
+      expect(layout).toContain('<div className="tenant-switcher">');
+      expect(layout).toContain('<strong>{tenants[0].name}</strong>');
+      expect(layout).not.toContain('<select');
+      expect(fs.readFileSync(path.join(authDir, 'src/api.ts'), 'utf-8')).not.toContain('x-tenant-id');
+    } finally {
+      fs.rmSync(authDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should refresh an expired jwt access token once and retry the requests it rejected', async () => {
+    const app = parseDSL('config auth {\n  provider: jwt\n  userEntity: User\n}\n\nentity User {\n  email: String unique\n  password: Password\n}\n');
+    generateFrontend(app, tempDir);
+    const source = fs.readFileSync(path.join(tempDir, 'src/api.ts'), 'utf-8').replace('import.meta.env.VITE_API_URL', 'undefined');
+    const { outputText } = ts.transpileModule(source, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019 } });
+
+    // A stand-in for axios that rejects every request made with the expired token
+    const calls: string[] = [];
+    const rejected: ((error: unknown) => Promise<unknown>)[] = [];
+    let refreshWorks = true;
+    const client: any = async (request: any) => {
+      calls.push(`${request.url} ${request.headers.Authorization}`);
+      return { data: request.url };
+    };
+    client.interceptors = { request: { use: () => undefined }, response: { use: (_: unknown, onRejected: any) => rejected.push(onRejected) } };
+    client.post = async (url: string, body: { refreshToken: string }) => {
+      calls.push(`${url} ${body.refreshToken}`);
+      if (!refreshWorks) throw Object.assign(new Error('Unauthorized'), { response: { status: 401 }, config: { url } });
+      return { data: { accessToken: 'access-2', refreshToken: 'refresh-2' } };
+    };
+    const storage = new Map([['token', 'access-1'], ['refreshToken', 'refresh-1']]);
+    const localStorage = { getItem: (key: string) => storage.get(key) ?? null, setItem: (key: string, value: string) => storage.set(key, value), removeItem: (key: string) => storage.delete(key) };
+    const exports: Record<string, any> = {};
+    new Function('require', 'exports', 'localStorage', outputText)(() => ({ default: { create: () => client } }), exports, localStorage);
+
+    const expired = (url: string) => Object.assign(new Error('Unauthorized'), { response: { status: 401 }, config: { url, headers: {} } });
+    const results = await Promise.all([rejected[0](expired('/users')), rejected[0](expired('/posts'))]);
+
+    expect(results.map((result: any) => result.data)).toEqual(['/users', '/posts']);
+    expect(calls).toEqual(['/auth/refresh refresh-1', '/users Bearer access-2', '/posts Bearer access-2']);
+    expect(storage.get('refreshToken')).toBe('refresh-2');
+
+    const ended = jest.fn();
+    exports.onSessionEnded(ended);
+    refreshWorks = false;
+    await expect(rejected[0](expired('/users'))).rejects.toThrow('Unauthorized');
+    expect(ended).toHaveBeenCalledTimes(1);
+    expect(storage.size).toBe(0);
+    await expect(rejected[0](expired('/auth/login'))).rejects.toThrow('Unauthorized');
+  });
+
+  it('should add a history tab to the details pages of audited entities', () => {
+    const app = parseDSL(`
+      entity Invoice {
+        number: String
+        @@audited
+      }
+
+      page InvoiceDetails {
+        type: details
+        entity: Invoice
+        route: "/invoices/details/:id"
+      }
+    `);
+    generateFrontend(app, tempDir);
+
+    const details = fs.readFileSync(path.join(tempDir, 'src/components/details/InvoiceDetailsDetails.tsx'), 'utf-8');
+    expect(details).toContain('api.get(`/invoices/${id}/history`)');
+    expect(details).toContain("onClick={() => setTab('history')}>History</Button>");
+    expect(details).toContain('<InvoiceDetailsHistory id={id!} />');
+  });
+
+  it('should let tables of soft-deleted entities show and restore deleted records', () => {
+    const app = parseDSL(`
+      entity Note {
+        text: String
+        @@softDelete
+      }
+
+      page NoteList {
+        type: table
+        entity: Note
+        columns: [{ field: text, label: "Text" }]
+      }
+    `);
+    generateFrontend(app, tempDir);
+
+    const table = fs.readFileSync(path.join(tempDir, 'src/components/tables/NoteListTable.tsx'), 'utf-8');
+    expect(table).toContain("if (showDeleted) params.includeDeleted = 'true';");
+    expect(table).toContain('await api.post(`/notes/${id}/restore`);');
+    expect(table).toContain('onClick={() => restoreMutation.mutate(item.id)}');
+  });
 });
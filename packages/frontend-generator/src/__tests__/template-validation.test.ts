@@ -40,6 +40,9 @@ const mockData = {
   
   // Collection of pages from DSL
   pages: parsedApp.pages,
+
+  // Enums from DSL
+  enums: parsedApp.config?.enums || {},
   
   // Authentication related
   authProvider: parsedApp.config?.auth?.provider || 'jwt',
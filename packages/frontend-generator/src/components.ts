@@ -1,32 +1,25 @@
-import * as fs from 'fs';
 import * as path from 'path';
+import { TemplateLoader, VirtualFileSystem, diskFileSystem } from '@stalmer1/core';
+import { loadTemplates } from './templates';
 
-export function generateUiComponents(outDir: string) {
-  const templatesDir = path.join(__dirname, '..', 'templates');
-  const uiTemplatesDir = path.join(templatesDir, 'components/ui');
-  const libTemplatesDir = path.join(templatesDir, 'lib');
-
+export function generateUiComponents(outDir: string, vfs: VirtualFileSystem = diskFileSystem, templates: TemplateLoader = loadTemplates()) {
   const uiOutDir = path.join(outDir, 'src/components/ui');
   const libOutDir = path.join(outDir, 'src/lib');
 
-  fs.mkdirSync(uiOutDir, { recursive: true });
-  fs.mkdirSync(libOutDir, { recursive: true });
+  vfs.mkdir(uiOutDir);
+  vfs.mkdir(libOutDir);
 
   // Generate UI components
-  const uiComponentTemplates = fs.readdirSync(uiTemplatesDir);
-  for (const template of uiComponentTemplates) {
-    const templatePath = path.join(uiTemplatesDir, template);
-    const content = fs.readFileSync(templatePath, 'utf-8');
+  for (const template of templates.list('components/ui')) {
+    const content = templates.read(`components/ui/${template}`);
     const outPath = path.join(uiOutDir, template.replace('.ejs', ''));
-    fs.writeFileSync(outPath, content);
+    vfs.writeFile(outPath, content);
   }
 
   // Generate lib files
-  const libTemplates = fs.readdirSync(libTemplatesDir);
-  for (const template of libTemplates) {
-    const templatePath = path.join(libTemplatesDir, template);
-    const content = fs.readFileSync(templatePath, 'utf-8');
+  for (const template of templates.list('lib')) {
+    const content = templates.read(`lib/${template}`);
     const outPath = path.join(libOutDir, template.replace('.ejs', ''));
-    fs.writeFileSync(outPath, content);
+    vfs.writeFile(outPath, content);
   }
 }
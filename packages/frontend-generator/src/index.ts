@@ -1,11 +1,67 @@
-import { IApp } from '@stalmer1/core';
+import { GeneratorOptions, IApp, IREntity, TENANT_HEADER, diskFileSystem, foreignKeyName, ownsForeignKey } from '@stalmer1/core';
 import ejs from 'ejs';
-import * as fs from 'fs';
 import * as path from 'path';
 import { generateUiComponents } from './components';
+import { loadTemplates } from './templates';
 
-export async function generateFrontend(app: IApp, outDir: string, verbose: boolean = false) {
-  const templatesDir = path.join(__dirname, '..', 'templates');
+/**
+ * The field to show records of an entity by in pickers: its first plain text field
+ * @param entity - The entity
+ * @returns The field name, or id if the entity has no text field
+ */
+function labelFieldOf(entity?: IREntity): string {
+  return entity?.fields.find(f => f.type === 'String' && !f.primaryKey && !f.isPassword && !f.isVirtual)?.name ?? 'id';
+}
+
+/**
+ * Describes the tenant switcher of the layout, if the app has a tenancy config
+ * @param app - The entire application IR
+ * @returns The tenant entity, its API resource, the field to show tenants by, the header to send the tenant in
+ * and whether the tenant is fixed
+ */
+function tenantSwitcher(app: IApp) {
+  const tenantEntity = app.config?.tenancy?.tenantEntity;
+  if (!tenantEntity) return undefined;
+  return {
+    entity: tenantEntity,
+    resource: `${tenantEntity.toLowerCase()}s`,
+    labelField: labelFieldOf(app.entities.find(e => e.name === tenantEntity)),
+    header: TENANT_HEADER,
+    // Signed-in users are bound to their own tenant, so with auth the layout shows it instead of picking one
+    fixed: !!app.config?.auth,
+  };
+}
+
+/**
+ * Describes the relations a form can set: those whose foreign key is stored on the entity
+ * @param app - The entire application IR
+ * @param entity - The form's entity
+ * @returns The relation name, foreign key, target entity and the target field to show in pickers
+ */
+function formRelations(app: IApp, entity: IREntity) {
+  return (entity.relations ?? [])
+    .filter(relation => ownsForeignKey(app.entities, entity, relation))
+    .map(relation => {
+      return {
+        field: relation.field,
+        foreignKey: foreignKeyName(relation),
+        target: relation.target,
+        optional: !!relation.optional,
+        labelField: labelFieldOf(app.entities.find(e => e.name === relation.target)),
+      };
+    });
+}
+
+/**
+ * Generates the React frontend
+ * @param app - The entire application IR
+ * @param outDir - The frontend output directory
+ * @param verbose - Enable verbose logging
+ * @param options - Where to write the files and which templates shadow the built-in ones
+ */
+export async function generateFrontend(app: IApp, outDir: string, verbose: boolean = false, options: GeneratorOptions = {}) {
+  const vfs = options.vfs ?? diskFileSystem;
+  const templates = loadTemplates(options.templates);
   const pages = app.pages || [];
   const authProvider = app.config?.auth?.provider;
   const sentryDsn = app.config?.integrations?.monitoring?.dsn;
@@ -13,7 +69,9 @@ export async function generateFrontend(app: IApp, outDir: string, verbose: boole
   const clerkPublishableKey = app.config?.auth?.props?.clerkPublishableKey;
   const auth0Domain = app.config?.auth?.props?.auth0Domain;
   const auth0ClientId = app.config?.auth?.props?.auth0ClientId;
-  const backendPort = 4000; // Default port for backend
+  const backendPort = app.config?.ports?.backend ?? 4000;
+  const frontendPort = app.config?.ports?.frontend ?? 5173;
+  const tenancy = tenantSwitcher(app);
   
   const hydratedPages = pages.map(page => ({
     ...page,
@@ -21,96 +79,96 @@ export async function generateFrontend(app: IApp, outDir: string, verbose: boole
   }));
   
   // Create directory structure
-  fs.mkdirSync(path.join(outDir, 'src'), { recursive: true });
-  fs.mkdirSync(path.join(outDir, 'src/components'), { recursive: true });
-  fs.mkdirSync(path.join(outDir, 'src/components/tables'), { recursive: true });
-  fs.mkdirSync(path.join(outDir, 'src/components/forms'), { recursive: true });
-  fs.mkdirSync(path.join(outDir, 'src/components/details'), { recursive: true });
-  fs.mkdirSync(path.join(outDir, 'src/hooks'), { recursive: true });
-  fs.mkdirSync(path.join(outDir, 'src/styles'), { recursive: true });
+  vfs.mkdir(path.join(outDir, 'src'));
+  vfs.mkdir(path.join(outDir, 'src/components'));
+  vfs.mkdir(path.join(outDir, 'src/components/tables'));
+  vfs.mkdir(path.join(outDir, 'src/components/forms'));
+  vfs.mkdir(path.join(outDir, 'src/components/details'));
+  vfs.mkdir(path.join(outDir, 'src/hooks'));
+  vfs.mkdir(path.join(outDir, 'src/styles'));
 
   // Generate UI components
   if (verbose) console.log('Generating UI components...');
-  generateUiComponents(outDir);
+  generateUiComponents(outDir, vfs, templates);
 
   // Generate the base HTML file
-  const htmlTemplate = fs.readFileSync(path.join(templatesDir, 'index.html.ejs'), 'utf-8');
+  const htmlTemplate = templates.read('index.html.ejs');
   const htmlContent = ejs.render(htmlTemplate, { app });
-  fs.writeFileSync(
+  vfs.writeFile(
     path.join(outDir, 'index.html'),
     htmlContent
   );
   if (verbose) console.log('Generated index.html');
   
   // Generate Vite config
-  const viteConfigTemplate = fs.readFileSync(path.join(templatesDir, 'vite.config.ts.ejs'), 'utf-8');
-  const viteConfigContent = ejs.render(viteConfigTemplate, { backendPort });
-  fs.writeFileSync(
+  const viteConfigTemplate = templates.read('vite.config.ts.ejs');
+  const viteConfigContent = ejs.render(viteConfigTemplate, { backendPort, frontendPort });
+  vfs.writeFile(
     path.join(outDir, 'vite.config.ts'),
     viteConfigContent
   );
   if (verbose) console.log('Generated vite.config.ts');
   
   // Generate package.json
-  const packageJsonTemplate = fs.readFileSync(path.join(templatesDir, 'package.json.ejs'), 'utf-8');
+  const packageJsonTemplate = templates.read('package.json.ejs');
   const packageJsonContent = ejs.render(packageJsonTemplate, { app, authProvider, sentryDsn });
-  fs.writeFileSync(
+  vfs.writeFile(
     path.join(outDir, 'package.json'),
     packageJsonContent
   );
   if (verbose) console.log('Generated package.json');
   
   // Generate main.tsx
-  const mainTemplate = fs.readFileSync(path.join(templatesDir, 'main.tsx.ejs'), 'utf-8');
+  const mainTemplate = templates.read('main.tsx.ejs');
   const mainContent = ejs.render(mainTemplate, { authProvider, sentryDsn, clerkPublishableKey, auth0Domain, auth0ClientId });
-  fs.writeFileSync(
+  vfs.writeFile(
     path.join(outDir, 'src/main.tsx'),
     mainContent
   );
   if (verbose) console.log('Generated src/main.tsx');
   
   // Copy the CSS
-  const cssTemplate = fs.readFileSync(path.join(templatesDir, 'styles/index.css.ejs'), 'utf-8');
-  fs.writeFileSync(
+  const cssTemplate = templates.read('styles/index.css.ejs');
+  vfs.writeFile(
     path.join(outDir, 'src/styles/index.css'),
     cssTemplate
   );
   if (verbose) console.log('Generated src/styles/index.css');
   
   // Generate API service
-  const apiTemplate = fs.readFileSync(path.join(templatesDir, 'api.ts.ejs'), 'utf-8');
-  fs.writeFileSync(
+  const apiTemplate = templates.read('api.ts.ejs');
+  vfs.writeFile(
     path.join(outDir, 'src/api.ts'),
-    apiTemplate
+    ejs.render(apiTemplate, { tenancy, authProvider })
   );
   if (verbose) console.log('Generated src/api.ts');
   
   // Generate Layout component
-  const layoutTemplate = fs.readFileSync(path.join(templatesDir, 'components/Layout.tsx.ejs'), 'utf-8');
-  const layoutContent = ejs.render(layoutTemplate, { app, pages: hydratedPages, authProvider });
-  fs.writeFileSync(
+  const layoutTemplate = templates.read('components/Layout.tsx.ejs');
+  const layoutContent = ejs.render(layoutTemplate, { app, pages: hydratedPages, authProvider, tenancy });
+  vfs.writeFile(
     path.join(outDir, 'src/components/Layout.tsx'),
     layoutContent
   );
   if (verbose) console.log('Generated src/components/Layout.tsx');
 
   // Generate App.tsx
-  const appTemplate = fs.readFileSync(path.join(templatesDir, 'App.tsx.ejs'), 'utf-8');
+  const appTemplate = templates.read('App.tsx.ejs');
   const appContent = ejs.render(appTemplate, { pages: hydratedPages, authProvider });
-  fs.writeFileSync(
+  vfs.writeFile(
     path.join(outDir, 'src/App.tsx'),
     appContent
   );
   if (verbose) console.log('Generated src/App.tsx');
 
   // Generate Table components
-  const tableTemplate = fs.readFileSync(path.join(templatesDir, 'Table.tsx.ejs'), 'utf-8');
+  const tableTemplate = templates.read('Table.tsx.ejs');
   const tablePages = hydratedPages.filter(p => p.type === 'table');
   
   if (tablePages.length > 0) {
     tablePages.forEach(page => {
-      const tableContent = ejs.render(tableTemplate, { page: page });
-      fs.writeFileSync(
+      const tableContent = ejs.render(tableTemplate, { page: page, pages: hydratedPages, enums: app.config?.enums ?? {} });
+      vfs.writeFile(
         path.join(outDir, `src/components/tables/${page.name}Table.tsx`),
         tableContent
       );
@@ -119,13 +177,17 @@ export async function generateFrontend(app: IApp, outDir: string, verbose: boole
   }
 
   // Generate Form components
-  const formTemplate = fs.readFileSync(path.join(templatesDir, 'Form.tsx.ejs'), 'utf-8');
+  const formTemplate = templates.read('Form.tsx.ejs');
   const formPages = hydratedPages.filter(p => p.type === 'form');
   
   if (formPages.length > 0) {
     formPages.forEach(page => {
-      const formContent = ejs.render(formTemplate, { page: page });
-      fs.writeFileSync(
+      const formContent = ejs.render(formTemplate, {
+        page: page,
+        enums: app.config?.enums ?? {},
+        relations: page.entity ? formRelations(app, page.entity) : [],
+      });
+      vfs.writeFile(
         path.join(outDir, `src/components/forms/${page.name}Form.tsx`),
         formContent
       );
@@ -134,13 +196,13 @@ export async function generateFrontend(app: IApp, outDir: string, verbose: boole
   }
 
   // Generate Details components
-  const detailsTemplate = fs.readFileSync(path.join(templatesDir, 'Details.tsx.ejs'), 'utf-8');
+  const detailsTemplate = templates.read('Details.tsx.ejs');
   const detailsPages = hydratedPages.filter(p => p.type === 'details');
   
   if (detailsPages.length > 0) {
     detailsPages.forEach(page => {
       const detailsContent = ejs.render(detailsTemplate, { page: page });
-      fs.writeFileSync(
+      vfs.writeFile(
         path.join(outDir, `src/components/details/${page.name}Details.tsx`),
         detailsContent
       );
@@ -150,8 +212,8 @@ export async function generateFrontend(app: IApp, outDir: string, verbose: boole
 
   // Generate auth hooks
   if (authProvider === 'jwt') {
-    const useAuthTemplate = fs.readFileSync(path.join(templatesDir, 'hooks/useAuth.ejs'), 'utf-8');
-    fs.writeFileSync(
+    const useAuthTemplate = templates.read('hooks/useAuth.ejs');
+    vfs.writeFile(
       path.join(outDir, 'src/hooks/useAuth.ts'),
       ejs.render(useAuthTemplate)
     );
@@ -159,16 +221,16 @@ export async function generateFrontend(app: IApp, outDir: string, verbose: boole
   }
 
   // Generate lib/utils.ts
-  const utilsTemplate = fs.readFileSync(path.join(templatesDir, 'lib/utils.ts.ejs'), 'utf-8');
-  fs.writeFileSync(
+  const utilsTemplate = templates.read('lib/utils.ts.ejs');
+  vfs.writeFile(
     path.join(outDir, 'src/lib/utils.ts'),
     ejs.render(utilsTemplate)
   );
   if (verbose) console.log('Generated src/lib/utils.ts');
 
   // Generate Dockerfile
-  const dockerfileTemplate = fs.readFileSync(path.join(templatesDir, 'Dockerfile.ejs'), 'utf-8');
-  fs.writeFileSync(
+  const dockerfileTemplate = templates.read('Dockerfile.ejs');
+  vfs.writeFile(
     path.join(outDir, 'Dockerfile'),
     ejs.render(dockerfileTemplate)
   );
@@ -0,0 +1,13 @@
+import * as path from 'path';
+import { TemplateLoader, TemplateSource, createTemplateLoader } from '@stalmer1/core';
+
+export const TEMPLATES_DIR = path.join(__dirname, '..', 'templates');
+
+/**
+ * Creates a loader for the frontend templates
+ * @param sources - Template sources that shadow the built-in templates
+ * @returns The template loader
+ */
+export function loadTemplates(sources: TemplateSource[] = []): TemplateLoader {
+  return createTemplateLoader('frontend', TEMPLATES_DIR, sources);
+}
@@ -0,0 +1,174 @@
+import * as path from 'path';
+import { CompletionItem } from 'vscode-languageserver';
+import { analyze, Analysis, completions, definition, diagnosticsByFile, hover, references, rename, RenameError, toUri } from '../index';
+
+const root = path.resolve('/project');
+const schemaPath = path.join(root, 'schema.dsl');
+const billingPath = path.join(root, 'billing.dsl');
+
+const schema = `import "./billing.dsl"
+
+enum Role { ADMIN, MEMBER }
+
+entity User {
+  email: String unique
+  password: Password
+  role: Role default(MEMBER)
+  invoices: Invoice[]
+}
+
+page UserList {
+  type: table
+  entity: User
+}
+
+workflow Welcome {
+  trigger: { event: "user.created", entity: User }
+  steps: [
+    { action: createRecord, inputs: { entity: Invoice, data: {} } }
+  ]
+}
+
+config auth {
+  provider: jwt
+  userEntity: User
+}
+`;
+
+const billing = `entity Invoice {
+  total: Decimal validate(min: 0)
+  owner: User
+}
+`;
+
+function analyzeProject(files: Record<string, string>): Analysis {
+  return analyze([schemaPath], filePath => {
+    if (!(filePath in files)) throw Object.assign(new Error(`ENOENT: ${filePath}`), { code: 'ENOENT' });
+    return files[filePath];
+  });
+}
+
+// The position `offset` characters into the first match of `text` in `source`
+function positionOf(source: string, text: string, offset = 0) {
+  const index = source.indexOf(text);
+  const before = source.slice(0, index + offset).split('\n');
+  return { line: before.length - 1, character: before[before.length - 1].length };
+}
+
+const labels = (items: CompletionItem[]) => items.map(item => item.label);
+
+describe('Language server', () => {
+  const analysis = analyzeProject({ [schemaPath]: schema, [billingPath]: billing });
+
+  describe('diagnostics', () => {
+    it('should report parser and validation errors in the file they are in', () => {
+      const broken = analyzeProject({
+        [schemaPath]: schema.replace('entity: User\n}', 'entity: Usr\n}'),
+        [billingPath]: billing.replace('total: Decimal', 'total: Decimal,'),
+      });
+      const byFile = diagnosticsByFile(broken, schemaPath);
+      expect(byFile.get(schemaPath)?.map(d => [d.code, d.message, d.range])).toEqual([[
+        'unknown-entity',
+        "Entity or View 'Usr' not found for page 'UserList'",
+        { start: { line: 13, character: 10 }, end: { line: 13, character: 13 } },
+      ]]);
+      expect(byFile.get(billingPath)?.map(d => [d.code, d.range.start.line])).toEqual([['syntax-error', 1]]);
+    });
+
+    it('should clear the problems of files that have none', () => {
+      const byFile = diagnosticsByFile(analysis, schemaPath);
+      expect([...byFile]).toEqual([[schemaPath, []], [billingPath, []]]);
+    });
+  });
+
+  describe('completion', () => {
+    const complete = (text: string) => {
+      const lines = text.split('\n');
+      return completions(analysis.app, text, { line: lines.length - 1, character: lines[lines.length - 1].length });
+    };
+
+    it('should complete field types with built-in types, entities and enums', () => {
+      const items = labels(complete('entity Post {\n  author: '));
+      expect(items).toEqual(expect.arrayContaining(['String', 'DateTime', 'Password', 'User', 'Invoice', 'Role']));
+    });
+
+    it('should complete the attributes a field does not have yet', () => {
+      const items = complete('entity Post {\n  title: String unique ');
+      expect(labels(items)).toEqual(['optional', 'readonly', 'primaryKey', 'default()', 'validate()']);
+      expect(items.find(item => item.label === 'default()')?.insertText).toBe('default($1)');
+    });
+
+    it('should complete page keys and the entities and page types they take', () => {
+      expect(labels(complete('page Posts {\n  '))).toEqual(expect.arrayContaining(['type', 'entity', 'route', 'columns']));
+      expect(labels(complete('page Posts {\n  entity: '))).toEqual(['User', 'Invoice']);
+      expect(labels(complete('page Posts {\n  type: '))).toEqual(['table', 'form', 'details', 'dashboard', 'custom']);
+    });
+
+    it('should complete entity names in workflows and enums for roles', () => {
+      expect(labels(complete('workflow Notify {\n  trigger: {\n    entity: '))).toEqual(['User', 'Invoice']);
+      expect(labels(complete('config auth {\n  roles: '))).toEqual(['Role']);
+    });
+
+    it('should complete block keywords at the top level', () => {
+      expect(labels(complete('entity A {\n  name: String\n}\n\n'))).toEqual(['entity', 'page', 'workflow', 'config', 'enum', 'view', 'import']);
+    });
+  });
+
+  describe('navigation', () => {
+    it('should go from a reference to the entity declaration in another file', () => {
+      expect(definition(analysis, schemaPath, positionOf(schema, 'Invoice[]', 2))).toEqual({
+        uri: toUri(billingPath),
+        range: { start: { line: 0, character: 7 }, end: { line: 0, character: 14 } },
+      });
+    });
+
+    it('should find every reference to an entity', () => {
+      const locations = references(analysis, billingPath, positionOf(billing, 'User'), false);
+      expect(locations.map(l => [path.basename(new URL(l.uri).pathname), l.range.start.line, l.range.start.character])).toEqual([
+        ['schema.dsl', 13, 10], // page entity
+        ['schema.dsl', 17, 21], // workflow event
+        ['schema.dsl', 17, 44], // workflow trigger entity
+        ['schema.dsl', 25, 14], // auth userEntity
+        ['billing.dsl', 2, 9], // relation
+      ]);
+    });
+  });
+
+  describe('hover', () => {
+    it('should show the resolved IR of a field', () => {
+      const result = hover(analysis, billingPath, positionOf(billing, 'total', 1));
+      const value = (result?.contents as { value: string }).value;
+      expect(value).toContain('Field `total` of `Invoice`');
+      expect(JSON.parse(value.split('```json\n')[1].split('\n```')[0])).toEqual({
+        name: 'total', type: 'Decimal', isDecimal: true, validate: 'min: 0', min: 0,
+      });
+    });
+
+    it('should show the relation of a field typed as an entity', () => {
+      const result = hover(analysis, billingPath, positionOf(billing, 'owner'));
+      expect((result?.contents as { value: string }).value).toContain('"target": "User"');
+    });
+  });
+
+  describe('rename', () => {
+    it('should rename an entity in its declaration, relations, pages, workflows and config', () => {
+      const edit = rename(analysis, schemaPath, positionOf(schema, 'entity User', 8), 'Member');
+      const schemaEdits = edit?.changes?.[toUri(schemaPath)] ?? [];
+      expect(schemaEdits.map(e => [e.range.start.line, e.newText])).toEqual([
+        [4, 'Member'], [13, 'Member'], [17, 'member'], [17, 'Member'], [25, 'Member'],
+      ]);
+      expect(edit?.changes?.[toUri(billingPath)]).toEqual([
+        { range: { start: { line: 2, character: 9 }, end: { line: 2, character: 13 } }, newText: 'Member' },
+      ]);
+
+      const multiWord = rename(analysis, schemaPath, positionOf(schema, 'entity User', 8), 'TeamMember');
+      expect(multiWord?.changes?.[toUri(schemaPath)]?.filter(e => e.range.start.line === 17).map(e => e.newText)).toEqual(['teamMember', 'TeamMember']);
+    });
+
+    it('should reject invalid and taken names', () => {
+      const position = positionOf(schema, 'entity User', 8);
+      expect(() => rename(analysis, schemaPath, position, 'member')).toThrow(RenameError);
+      expect(() => rename(analysis, schemaPath, position, 'Invoice')).toThrow("'Invoice' is already declared as an entity");
+    });
+  });
+});
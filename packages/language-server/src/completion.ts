@@ -0,0 +1,154 @@
+// Completion of field types, attributes, block keywords, page keys and entity and enum names
+import { BLOCK_KEYWORDS, FIELD_TYPES, IApp, tokenize } from '@stalmer1/core';
+import { CompletionItem, CompletionItemKind, InsertTextFormat, Position } from 'vscode-languageserver';
+
+const ATTRIBUTES: CompletionItem[] = [
+  { label: 'unique', detail: 'The value is unique across all records' },
+  { label: 'optional', detail: 'The field can be empty' },
+  { label: 'readonly', detail: 'The field cannot be changed through generated forms and APIs' },
+  { label: 'primaryKey', detail: 'The field is the primary key' },
+  { label: 'default()', insertText: 'default($1)', detail: 'The value of new records, such as default(0)' },
+  { label: 'validate()', insertText: 'validate($1)', detail: 'Checks the value, such as validate(min: 1, max: 100)' },
+].map(item => ({
+  ...item,
+  kind: CompletionItemKind.Keyword,
+  ...(item.insertText && { insertTextFormat: InsertTextFormat.Snippet }),
+}));
+
+const PAGE_KEYS: Record<string, string> = {
+  type: 'table, form, details, dashboard or custom',
+  entity: 'The entity or view the page shows',
+  route: 'The URL of the page, such as "/users/:id"',
+  title: 'The heading of the page',
+  permissions: 'The roles that can open the page',
+  columns: 'The columns of a table page',
+  fields: 'The fields of a form page',
+  actions: 'The create, edit, view and delete actions of a table page',
+  filters: 'The fields a table page can be filtered by',
+  onSuccess: 'What a form page does after saving',
+  props: 'Extra properties passed to the page',
+};
+
+const PAGE_TYPES = ['table', 'form', 'details', 'dashboard', 'custom'];
+
+interface Context {
+  keyword?: string; // The top-level block the position is in
+  depth: number; // How many brackets are open at the position
+  bracket?: string; // The innermost open bracket
+  key?: string; // The property whose value is being written
+  line: string; // The text of the line before the position
+}
+
+/**
+ * Works out where in the DSL a position is from the tokens before it, so that completion works
+ * while the text around it does not parse yet
+ */
+function contextAt(text: string, position: Position): Context {
+  const lines = text.split('\n');
+  const line = (lines[position.line] ?? '').slice(0, position.character);
+  const before = [...lines.slice(0, position.line), line].join('\n');
+  const tokens = tokenize(before, undefined, () => undefined).filter(token => token.kind !== 'comment' && token.kind !== 'eof');
+
+  let keyword: string | undefined;
+  let key: string | undefined;
+  const open: { bracket: string; key?: string }[] = [];
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    if (token.kind === 'identifier' && open.length === 0 && (!previous || previous.kind === 'newline')) {
+      keyword = token.value;
+    } else if (token.kind === 'punctuation' && ['{', '[', '('].includes(token.value)) {
+      open.push({ bracket: token.value, key });
+      key = undefined;
+    } else if (token.kind === 'punctuation' && ['}', ']', ')'].includes(token.value)) {
+      key = open.pop()?.key;
+    } else if (token.kind === 'punctuation' && token.value === ':' && previous?.kind === 'identifier') {
+      key = previous.value;
+    } else if (token.kind === 'newline' || (token.kind === 'punctuation' && token.value === ',')) {
+      key = undefined;
+    }
+  });
+  // A property whose value was closed, such as `trigger: { ... }`, is finished
+  if (/[}\])]\s*$/.test(line)) key = undefined;
+  return { keyword, depth: open.length, bracket: open[open.length - 1]?.bracket, key, line };
+}
+
+function typeItems(app: IApp): CompletionItem[] {
+  return [
+    ...FIELD_TYPES.map(label => ({ label, kind: CompletionItemKind.TypeParameter, detail: 'Built-in type' })),
+    ...entityItems(app),
+    ...enumItems(app),
+  ];
+}
+
+function entityItems(app: IApp, withViews = false): CompletionItem[] {
+  return [
+    ...app.entities.map(entity => ({ label: entity.name, kind: CompletionItemKind.Class, detail: 'Entity' })),
+    ...(withViews ? app.views ?? [] : []).map(view => ({ label: view.name, kind: CompletionItemKind.Interface, detail: `View of ${view.from}` })),
+  ];
+}
+
+function enumItems(app: IApp): CompletionItem[] {
+  return Object.entries(app.config?.enums ?? {}).map(([label, values]) => ({
+    label,
+    kind: CompletionItemKind.Enum,
+    detail: `Enum: ${values.join(', ')}`,
+  }));
+}
+
+function valueItems(app: IApp, context: Context): CompletionItem[] {
+  switch (context.key) {
+    case 'entity':
+      return entityItems(app, context.keyword === 'page');
+    case 'from':
+    case 'userEntity':
+    case 'tenantEntity':
+    case 'entities':
+      return entityItems(app);
+    case 'roles':
+    case 'options':
+      return enumItems(app);
+    case 'type':
+      return context.keyword === 'page' && context.depth === 1
+        ? PAGE_TYPES.map(label => ({ label, kind: CompletionItemKind.EnumMember }))
+        : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Lists the completions at a position
+ * @param app - The IR of the project, for entity and enum names
+ * @param text - The text of the document
+ * @param position - The position in the document
+ * @returns The completion items; clients filter them by what has been typed
+ */
+export function completions(app: IApp, text: string, position: Position): CompletionItem[] {
+  const context = contextAt(text, position);
+  const { line } = context;
+  const atLineStart = /^\s*\w*$/.test(line);
+
+  if (context.depth === 0) {
+    return atLineStart ? [...BLOCK_KEYWORDS, 'import'].map(label => ({ label, kind: CompletionItemKind.Keyword })) : [];
+  }
+
+  if (context.keyword === 'entity') {
+    if (context.depth !== 1 || context.bracket !== '{') return [];
+    if (/^\s*\w+\s*:\s*\w*$/.test(line)) return typeItems(app);
+    const field = /^\s*\w+\s*:\s*\w+(\[\])?\s(.*)$/.exec(line);
+    if (!field || !/(^|\s)\w*$/.test(field[2])) return [];
+    const used = new Set(field[2].split(/\s+/).map(word => word.replace(/\(.*$/, '')));
+    return ATTRIBUTES.filter(item => !used.has(item.label.replace(/\(\)$/, '')));
+  }
+
+  if (context.key) return valueItems(app, context);
+  if (context.keyword === 'page' && context.depth === 1 && atLineStart) {
+    return Object.entries(PAGE_KEYS).map(([label, detail]) => ({
+      label,
+      kind: CompletionItemKind.Property,
+      detail,
+      insertText: `${label}: `,
+    }));
+  }
+  return [];
+}
@@ -0,0 +1,39 @@
+// Converts the parser's diagnostics into LSP diagnostics, grouped by file
+import { Diagnostic } from '@stalmer1/core';
+import { DiagnosticSeverity, Diagnostic as LspDiagnostic } from 'vscode-languageserver';
+import { Analysis } from './project';
+
+// A diagnostic points at the start of a token; the range covers the whole token
+const TOKEN = /^("[^"\n]*"?|'[^'\n]*'?|@{0,2}[\w.]+)/;
+
+function toLspDiagnostic(diagnostic: Diagnostic, text: string | undefined): LspDiagnostic {
+  const line = Math.max(diagnostic.line - 1, 0);
+  const character = Math.max(diagnostic.column - 1, 0);
+  const rest = (text?.split('\n')[line] ?? diagnostic.context ?? '').slice(character);
+  const length = TOKEN.exec(rest)?.[0].length ?? 1;
+  return {
+    range: { start: { line, character }, end: { line, character: character + length } },
+    severity: diagnostic.severity === 'warning' ? DiagnosticSeverity.Warning : DiagnosticSeverity.Error,
+    code: diagnostic.code,
+    source: 'stalmer1',
+    message: diagnostic.message,
+  };
+}
+
+/**
+ * Groups the diagnostics of a project by file. Every file that was read gets an entry, so that
+ * problems that were fixed are cleared.
+ * @param analysis - The analysed project
+ * @param fallback - The file to report diagnostics without a file in
+ * @returns The diagnostics by absolute file path
+ */
+export function diagnosticsByFile(analysis: Analysis, fallback: string): Map<string, LspDiagnostic[]> {
+  const byFile = new Map<string, LspDiagnostic[]>([...analysis.files.keys()].map(filePath => [filePath, []]));
+  for (const diagnostic of analysis.diagnostics) {
+    const filePath = diagnostic.filePath ?? fallback;
+    const list = byFile.get(filePath) ?? [];
+    list.push(toLspDiagnostic(diagnostic, analysis.files.get(filePath)?.text));
+    byFile.set(filePath, list);
+  }
+  return byFile;
+}
@@ -0,0 +1,63 @@
+// Hover information: the resolved IR of a field, and a summary of the entity or enum a name refers to
+import { IREntity, IRField, IRRelation } from '@stalmer1/core';
+import { Hover, MarkupKind, Position } from 'vscode-languageserver';
+import { Analysis, spanContains, toRange } from './project';
+import { occurrenceAt } from './symbols';
+
+function codeBlock(language: string, text: string): string {
+  return `\`\`\`${language}\n${text}\n\`\`\``;
+}
+
+function describeEntity(entity: IREntity): string {
+  const fields = entity.fields.map(field => `  ${field.name}: ${field.type}`);
+  const relations = (entity.relations ?? []).map(relation => `  ${relation.field}: ${relation.target}${relation.type === 'one-to-many' || relation.type === 'many-to-many' ? '[]' : ''}`);
+  return codeBlock('stalmer1', [`entity ${entity.name} {`, ...fields, ...relations, '}'].join('\n'));
+}
+
+/**
+ * Describes what is at a position. On a field name or type this is the field as the parser
+ * resolved it (an `IRField`, or an `IRRelation` for a relation); on the name of an entity or
+ * enum it is its declaration.
+ * @param analysis - The analysed project
+ * @param filePath - The absolute path of the file
+ * @param position - The position in the file
+ * @returns The hover, or undefined if there is nothing to describe
+ */
+export function hover(analysis: Analysis, filePath: string, position: Position): Hover | undefined {
+  const file = analysis.files.get(filePath);
+  if (!file) return undefined;
+  const { line, character } = position;
+
+  for (const node of file.document.declarations) {
+    if (node.kind !== 'Entity' || !spanContains(node.span, line, character)) continue;
+    const fieldNode = node.fields.find(field =>
+      spanContains(field.name.span, line, character) || spanContains(field.type.span, line, character));
+    if (!fieldNode || spanContains(node.name.span, line, character)) break;
+
+    const entity = analysis.app.entities.find(candidate => candidate.name === node.name.name);
+    const name = fieldNode.name.name;
+    const resolved: IRField | IRRelation | undefined = entity?.fields.find(field => field.name === name)
+      ?? entity?.relations?.find(relation => relation.field === name);
+    if (!resolved) return undefined;
+    const heading = 'target' in resolved ? `Relation \`${name}\` of \`${node.name.name}\`` : `Field \`${name}\` of \`${node.name.name}\``;
+    return {
+      contents: { kind: MarkupKind.Markdown, value: `${heading}\n\n${codeBlock('json', JSON.stringify(resolved, null, 2))}` },
+      range: toRange(spanContains(fieldNode.name.span, line, character) ? fieldNode.name.span : fieldNode.type.span),
+    };
+  }
+
+  const occurrence = occurrenceAt(analysis, filePath, position);
+  if (!occurrence) return undefined;
+  let value: string | undefined;
+  if (occurrence.kind === 'entity') {
+    const entity = analysis.app.entities.find(candidate => candidate.name === occurrence.name);
+    value = entity && describeEntity(entity);
+  } else if (occurrence.kind === 'enum') {
+    const values = analysis.app.config?.enums?.[occurrence.name] ?? [];
+    value = codeBlock('stalmer1', `enum ${occurrence.name} { ${values.join(', ')} }`);
+  } else {
+    const view = analysis.app.views?.find(candidate => candidate.name === occurrence.name);
+    value = view && codeBlock('stalmer1', `view ${view.name} from ${view.from}`);
+  }
+  return value ? { contents: { kind: MarkupKind.Markdown, value }, range: toRange(occurrence.span) } : undefined;
+}
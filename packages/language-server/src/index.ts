@@ -0,0 +1,7 @@
+// Export the language features so that editors and tools can use them without the LSP connection
+export * from './project';
+export * from './diagnostics';
+export * from './symbols';
+export * from './completion';
+export * from './hover';
+export * from './server';
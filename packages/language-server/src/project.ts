@@ -0,0 +1,127 @@
+// Finds the DSL files of a project and parses them into the IR, syntax trees and diagnostics the language features work from
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { Diagnostic, DocumentNode, IApp, isGlob, matchFiles, parseAST, parseDSLFiles, Position, Span } from '@stalmer1/core';
+import { Range } from 'vscode-languageserver';
+
+const PROJECT_CONFIG_FILE = 'stalmer1.json';
+const DEFAULT_SCHEMA = 'schema.dsl';
+
+export interface SourceFile {
+  filePath: string; // Absolute
+  text: string;
+  document: DocumentNode; // Parsed with error recovery, so it holds whatever could be parsed
+}
+
+export interface Analysis {
+  app: IApp;
+  files: Map<string, SourceFile>; // Every file that was read, entry files first, by absolute path
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Converts a file path to a `file:` URI
+ * @param filePath - The absolute path
+ * @returns The URI
+ */
+export function toUri(filePath: string): string {
+  return pathToFileURL(filePath).href;
+}
+
+/**
+ * Converts a `file:` URI to a file path
+ * @param uri - The URI
+ * @returns The absolute path, or undefined for URIs of other schemes
+ */
+export function toPath(uri: string): string | undefined {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : undefined;
+}
+
+/**
+ * Converts a source span to an LSP range. Both count columns in UTF-16 code units.
+ * @param span - The span
+ * @returns The range, 0-based
+ */
+export function toRange(span: Span): Range {
+  return {
+    start: { line: span.start.line - 1, character: span.start.column - 1 },
+    end: { line: span.end.line - 1, character: span.end.column - 1 },
+  };
+}
+
+/**
+ * Tells whether an LSP position is inside a span, counting the end of the span as inside so that
+ * a cursor just after a name still points at it
+ */
+export function spanContains(span: Span, line: number, character: number): boolean {
+  const at = (position: Position) => [position.line - 1, position.column - 1];
+  const [startLine, startCharacter] = at(span.start);
+  const [endLine, endCharacter] = at(span.end);
+  if (line < startLine || line > endLine) return false;
+  if (line === startLine && character < startCharacter) return false;
+  return !(line === endLine && character > endCharacter);
+}
+
+/**
+ * Finds the project a DSL file belongs to: the nearest directory above it with a stalmer1.json
+ * @param filePath - The absolute path of the DSL file
+ * @returns The project directory, or undefined if the file is not in a project
+ */
+export function findProjectDir(filePath: string): string | undefined {
+  let dir = path.dirname(filePath);
+  for (;;) {
+    if (fs.existsSync(path.join(dir, PROJECT_CONFIG_FILE))) return dir;
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Lists the DSL entry files of a project, from the `schema` setting of its stalmer1.json.
+ * An unreadable configuration falls back to schema.dsl; the CLI is what reports it.
+ * @param projectDir - The project directory
+ * @returns The absolute paths of the entry files
+ */
+export function projectEntries(projectDir: string): string[] {
+  let schema: unknown = DEFAULT_SCHEMA;
+  try {
+    const config = JSON.parse(fs.readFileSync(path.join(projectDir, PROJECT_CONFIG_FILE), 'utf-8'));
+    schema = config?.schema ?? DEFAULT_SCHEMA;
+  } catch {
+    // Keep the default
+  }
+  const patterns = (Array.isArray(schema) ? schema : [schema]).filter((item): item is string => typeof item === 'string');
+  return patterns.flatMap(pattern => (isGlob(pattern) ? matchFiles(projectDir, pattern) : [path.resolve(projectDir, pattern)]));
+}
+
+/**
+ * Parses DSL files and the files they import, collecting every problem instead of stopping at the first
+ * @param entries - The absolute paths of the entry files. Entries that do not exist are left out.
+ * @param readFile - Reads a file, so that the unsaved text of open documents can be used
+ * @returns The analysis of the files
+ */
+export function analyze(entries: string[], readFile: (filePath: string) => string): Analysis {
+  const texts = new Map<string, string>();
+  const read = (filePath: string) => {
+    const text = readFile(filePath);
+    texts.set(filePath, text);
+    return text;
+  };
+
+  const files = entries.flatMap(filePath => {
+    try {
+      return [{ filePath, source: read(filePath) }];
+    } catch {
+      return [];
+    }
+  });
+  const { app, diagnostics } = parseDSLFiles(files, { recover: true, readFile: read });
+
+  const sourceFiles = new Map<string, SourceFile>();
+  for (const [filePath, text] of texts) {
+    sourceFiles.set(filePath, { filePath, text, document: parseAST(text, filePath, [], () => undefined) });
+  }
+  return { app, files: sourceFiles, diagnostics };
+}
@@ -0,0 +1,110 @@
+// Connects the language features to an LSP client
+import * as fs from 'fs';
+import {
+  Connection,
+  createConnection,
+  LSPErrorCodes,
+  ProposedFeatures,
+  ResponseError,
+  TextDocuments,
+  TextDocumentSyncKind,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { completions } from './completion';
+import { diagnosticsByFile } from './diagnostics';
+import { hover } from './hover';
+import { analyze, Analysis, findProjectDir, projectEntries, toPath, toUri } from './project';
+import { definition, prepareRename, references, rename, RenameError } from './symbols';
+
+/**
+ * Starts the language server. Each DSL file is analysed together with the rest of its project:
+ * the files listed in the `schema` setting of the nearest stalmer1.json, and the files they import.
+ * @param connection - The connection to the client, over stdio by default
+ */
+export function startServer(connection: Connection = createConnection(ProposedFeatures.all)): void {
+  const documents = new TextDocuments(TextDocument);
+  const analyses = new Map<string, Analysis>();
+  const published = new Map<string, Set<string>>(); // The files each project has reported problems in
+
+  const readFile = (filePath: string) => documents.get(toUri(filePath))?.getText() ?? fs.readFileSync(filePath, 'utf-8');
+
+  const projectOf = (filePath: string) => findProjectDir(filePath) ?? filePath;
+
+  const analysisOf = (filePath: string): Analysis => {
+    const key = `${projectOf(filePath)}\n${filePath}`;
+    let analysis = analyses.get(key);
+    if (!analysis) {
+      // A file that the schema does not import yet is analysed as if it did
+      const projectDir = findProjectDir(filePath);
+      const entries = projectDir ? projectEntries(projectDir) : [];
+      analysis = analyze(entries.includes(filePath) ? entries : [...entries, filePath], readFile);
+      analyses.set(key, analysis);
+    }
+    return analysis;
+  };
+
+  const validate = (filePath: string) => {
+    const project = projectOf(filePath);
+    const byFile = diagnosticsByFile(analysisOf(filePath), filePath);
+    for (const stale of published.get(project) ?? []) {
+      if (!byFile.has(stale)) connection.sendDiagnostics({ uri: toUri(stale), diagnostics: [] });
+    }
+    for (const [file, diagnostics] of byFile) {
+      connection.sendDiagnostics({ uri: toUri(file), diagnostics });
+    }
+    published.set(project, new Set([...byFile].filter(([, diagnostics]) => diagnostics.length > 0).map(([file]) => file)));
+  };
+
+  const revalidate = () => {
+    analyses.clear();
+    for (const document of documents.all()) {
+      const filePath = toPath(document.uri);
+      if (filePath) validate(filePath);
+    }
+  };
+
+  // Runs a request against the analysis of the file it is about
+  const withFile = <T>(uri: string, request: (analysis: Analysis, filePath: string) => T): T | null => {
+    const filePath = toPath(uri);
+    return filePath ? request(analysisOf(filePath), filePath) ?? null : null;
+  };
+
+  connection.onInitialize(() => ({
+    capabilities: {
+      textDocumentSync: TextDocumentSyncKind.Incremental,
+      completionProvider: { triggerCharacters: [':', ' '] },
+      definitionProvider: true,
+      referencesProvider: true,
+      hoverProvider: true,
+      renameProvider: { prepareProvider: true },
+    },
+  }));
+
+  documents.onDidChangeContent(revalidate);
+  documents.onDidClose(revalidate);
+  connection.onDidChangeWatchedFiles(revalidate);
+
+  connection.onCompletion(({ textDocument, position }) => withFile(textDocument.uri, analysis => {
+    const document = documents.get(textDocument.uri);
+    return document ? completions(analysis.app, document.getText(), position) : [];
+  }));
+  connection.onDefinition(({ textDocument, position }) =>
+    withFile(textDocument.uri, (analysis, filePath) => definition(analysis, filePath, position)));
+  connection.onReferences(({ textDocument, position, context }) =>
+    withFile(textDocument.uri, (analysis, filePath) => references(analysis, filePath, position, context.includeDeclaration)));
+  connection.onHover(({ textDocument, position }) =>
+    withFile(textDocument.uri, (analysis, filePath) => hover(analysis, filePath, position)));
+  connection.onPrepareRename(({ textDocument, position }) =>
+    withFile(textDocument.uri, (analysis, filePath) => prepareRename(analysis, filePath, position)));
+  connection.onRenameRequest(({ textDocument, position, newName }) => {
+    try {
+      return withFile(textDocument.uri, (analysis, filePath) => rename(analysis, filePath, position, newName));
+    } catch (error) {
+      if (!(error instanceof RenameError)) throw error;
+      return new ResponseError(LSPErrorCodes.RequestFailed, error.message);
+    }
+  });
+
+  documents.listen(connection);
+  connection.listen();
+}
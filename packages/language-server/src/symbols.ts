@@ -0,0 +1,194 @@
+// Finds where entities, enums and views are declared and referred to, for go-to-definition, find-references and rename
+import { IdentifierNode, ObjectNode, Span, StringLiteralNode, ValueNode, workflowEventEntity } from '@stalmer1/core';
+import { Location, Position, Range, TextEdit, WorkspaceEdit } from 'vscode-languageserver';
+import { Analysis, SourceFile, spanContains, toRange, toUri } from './project';
+
+export type SymbolKind = 'entity' | 'enum' | 'view';
+
+export interface Occurrence {
+  name: string; // The declared name the occurrence refers to
+  kind: SymbolKind;
+  filePath: string;
+  span: Span; // Only the part of the source that is the name
+  declaration: boolean;
+  eventEntity?: boolean; // Written in lower camel case, as the entity in a workflow event such as blogPost.created
+}
+
+// Block properties whose value names an entity, enum or view
+const REFERENCE_KEYS = ['entity', 'from', 'userEntity', 'tenantEntity', 'entities', 'roles', 'options'];
+
+// Entity, enum and view names, as the parser accepts them for field types
+const SYMBOL_NAME = /^[A-Z][a-zA-Z0-9]*$/;
+
+export class RenameError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RenameError';
+  }
+}
+
+// A span covering `length` characters from `from` characters into `span`, on its first line
+function subSpan(span: Span, from: number, length: number): Span {
+  const start = { ...span.start, column: span.start.column + from, offset: span.start.offset + from };
+  return { start, end: { ...start, column: start.column + length, offset: start.offset + length } };
+}
+
+// The span of the value of a name written as an identifier or a string, without the quotes
+function nameSpan(node: IdentifierNode | StringLiteralNode): Span {
+  return node.kind === 'Identifier' ? node.span : subSpan(node.span, 1, node.value.length);
+}
+
+/**
+ * Lists every declaration of, and reference to, an entity, enum or view
+ * @param analysis - The analysed project
+ * @returns The occurrences, file by file in source order
+ */
+export function findOccurrences(analysis: Analysis): Occurrence[] {
+  const declared = new Map<string, SymbolKind>();
+  for (const file of analysis.files.values()) {
+    for (const node of file.document.declarations) {
+      if (node.kind === 'Entity') declared.set(node.name.name, 'entity');
+      if (node.kind === 'Enum') declared.set(node.name.name, 'enum');
+      if (node.kind === 'Block' && node.keyword === 'view' && node.name) declared.set(node.name.name, 'view');
+    }
+  }
+  const entityNames = new Map([...declared].filter(([, kind]) => kind === 'entity').map(([name]) => [workflowEventEntity(name), name]));
+  return [...analysis.files.values()].flatMap(file => fileOccurrences(file, declared, entityNames));
+}
+
+function fileOccurrences(file: SourceFile, declared: Map<string, SymbolKind>, entityNames: Map<string, string>): Occurrence[] {
+  const occurrences: Occurrence[] = [];
+  const add = (name: string, span: Span, declaration = false, eventEntity = false) => {
+    const kind = declared.get(name);
+    if (kind) occurrences.push({ name, kind, filePath: file.filePath, span, declaration, eventEntity: eventEntity || undefined });
+  };
+
+  const visit = (value: ValueNode, key?: string) => {
+    switch (value.kind) {
+      case 'Identifier':
+      case 'String':
+        if (key === 'event') {
+          // The entity part of a workflow event such as blogPost.created
+          const text = value.kind === 'String' ? value.value : value.name;
+          const prefix = text.split('.')[0];
+          const name = entityNames.get(prefix);
+          if (name) add(name, subSpan(value.span, value.kind === 'String' ? 1 : 0, prefix.length), false, true);
+        } else if (key && REFERENCE_KEYS.includes(key)) {
+          add(value.kind === 'String' ? value.value : value.name, nameSpan(value));
+        }
+        break;
+      case 'Array':
+        value.elements.forEach(element => visit(element, key));
+        break;
+      case 'Object':
+        visitObject(value);
+        break;
+    }
+  };
+  const visitObject = (object: ObjectNode) => {
+    for (const property of object.properties) visit(property.value, property.key.name);
+  };
+
+  for (const node of file.document.declarations) {
+    switch (node.kind) {
+      case 'Entity':
+        add(node.name.name, node.name.span, true);
+        for (const field of node.fields) add(field.type.name.name, field.type.name.span);
+        break;
+      case 'Enum':
+        add(node.name.name, node.name.span, true);
+        break;
+      case 'Block':
+        if (!['page', 'workflow', 'view', 'config'].includes(node.keyword)) break;
+        if (node.keyword === 'view' && node.name) add(node.name.name, node.name.span, true);
+        visitObject(node.body);
+        break;
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Finds the entity, enum or view name at a position
+ * @param analysis - The analysed project
+ * @param filePath - The absolute path of the file
+ * @param position - The position in the file
+ * @returns The occurrence, or undefined if there is no name at the position
+ */
+export function occurrenceAt(analysis: Analysis, filePath: string, position: Position): Occurrence | undefined {
+  return findOccurrences(analysis).find(occurrence =>
+    occurrence.filePath === filePath && spanContains(occurrence.span, position.line, position.character));
+}
+
+const toLocation = (occurrence: Occurrence): Location => ({ uri: toUri(occurrence.filePath), range: toRange(occurrence.span) });
+
+/**
+ * Finds where the entity, enum or view at a position is declared
+ * @param analysis - The analysed project
+ * @param filePath - The absolute path of the file
+ * @param position - The position in the file
+ * @returns The location of the declaration, or undefined if there is no name at the position
+ */
+export function definition(analysis: Analysis, filePath: string, position: Position): Location | undefined {
+  const target = occurrenceAt(analysis, filePath, position);
+  const declaration = target && findOccurrences(analysis).find(occurrence => occurrence.declaration && occurrence.name === target.name);
+  return declaration && toLocation(declaration);
+}
+
+/**
+ * Finds every reference to the entity, enum or view at a position
+ * @param analysis - The analysed project
+ * @param filePath - The absolute path of the file
+ * @param position - The position in the file
+ * @param includeDeclaration - Whether to include the declaration itself
+ * @returns The locations, or an empty list if there is no name at the position
+ */
+export function references(analysis: Analysis, filePath: string, position: Position, includeDeclaration = true): Location[] {
+  const target = occurrenceAt(analysis, filePath, position);
+  if (!target) return [];
+  return findOccurrences(analysis)
+    .filter(occurrence => occurrence.name === target.name && (includeDeclaration || !occurrence.declaration))
+    .map(toLocation);
+}
+
+/**
+ * Finds the name that a rename at a position would change
+ * @param analysis - The analysed project
+ * @param filePath - The absolute path of the file
+ * @param position - The position in the file
+ * @returns The range of the name and its current text, or undefined if there is nothing to rename
+ */
+export function prepareRename(analysis: Analysis, filePath: string, position: Position): { range: Range; placeholder: string } | undefined {
+  const target = occurrenceAt(analysis, filePath, position);
+  return target && { range: toRange(target.span), placeholder: target.name };
+}
+
+/**
+ * Renames the entity, enum or view at a position everywhere it is declared and referred to:
+ * field types and relations, pages, views, workflows and the auth config
+ * @param analysis - The analysed project
+ * @param filePath - The absolute path of the file
+ * @param position - The position in the file
+ * @param newName - The new name
+ * @returns The edits, or undefined if there is no name at the position
+ * @throws RenameError if the new name is not a valid name or is already declared
+ */
+export function rename(analysis: Analysis, filePath: string, position: Position, newName: string): WorkspaceEdit | undefined {
+  const target = occurrenceAt(analysis, filePath, position);
+  if (!target) return undefined;
+  if (!SYMBOL_NAME.test(newName)) {
+    throw new RenameError(`'${newName}' is not a valid ${target.kind} name. Names start with an upper-case letter followed by letters and digits.`);
+  }
+  const occurrences = findOccurrences(analysis);
+  const existing = occurrences.find(occurrence => occurrence.declaration && occurrence.name === newName);
+  if (existing && newName !== target.name) {
+    throw new RenameError(`'${newName}' is already declared as ${existing.kind === 'view' ? 'a' : 'an'} ${existing.kind}`);
+  }
+
+  const changes: Record<string, TextEdit[]> = {};
+  for (const occurrence of occurrences.filter(o => o.name === target.name)) {
+    const text = occurrence.eventEntity ? workflowEventEntity(newName) : newName;
+    (changes[toUri(occurrence.filePath)] ??= []).push({ range: toRange(occurrence.span), newText: text });
+  }
+  return { changes };
+}